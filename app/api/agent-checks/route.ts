@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/attendanceStore'
+import { generateUUID } from '@/lib/utils'
+import type { AgentCheck, AgentCheckKind, AgentCheckStats, FieldDiscrepancy } from '@/lib/attendanceTypes'
+
+const KINDS: AgentCheckKind[] = ['report', 'profile', 'alert']
+
+const DEFAULT_DAYS = 14
+const MAX_DAYS = 90
+
+/** Discrepancies kept per check, so one runaway response cannot bloat the log. */
+const MAX_STORED_DISCREPANCIES = 50
+
+function summarize(checks: AgentCheck[], days: number, now: Date): AgentCheckStats[] {
+  const since = new Date(now.getTime() - (days - 1) * 86_400_000).toISOString().slice(0, 10)
+  const byAgent = new Map<string, AgentCheckStats>()
+
+  for (const check of checks) {
+    let stats = byAgent.get(check.agentId)
+    if (!stats) {
+      stats = { agentId: check.agentId, kind: check.kind, checks: 0, flagged: 0, fieldsChecked: 0, fieldsMismatched: 0, daily: [] }
+      byAgent.set(check.agentId, stats)
+    }
+    const flagged = check.discrepancies.length > 0
+    stats.checks++
+    stats.fieldsChecked += check.fieldsChecked
+    stats.fieldsMismatched += check.discrepancies.length
+    if (flagged) stats.flagged++
+
+    const date = check.at.slice(0, 10)
+    if (date < since) continue
+    let day = stats.daily.find(d => d.date === date)
+    if (!day) {
+      day = { date, checks: 0, flagged: 0 }
+      stats.daily.push(day)
+    }
+    day.checks++
+    if (flagged) day.flagged++
+  }
+
+  const result = Array.from(byAgent.values())
+  for (const stats of result) stats.daily.sort((a, b) => a.date.localeCompare(b.date))
+  return result
+}
+
+// ---------------------------------------------------------------------------
+// GET — discrepancy rates per agent, with daily (UTC) counts for the last
+// ?days (default 14). ?agentId narrows to one agent.
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const agentId = searchParams.get('agentId')
+    const days = searchParams.get('days') === null ? DEFAULT_DAYS : Number(searchParams.get('days'))
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json({ success: false, error: `days must be 1-${MAX_DAYS}` }, { status: 400 })
+    }
+
+    const checks = (await getStorage().list<AgentCheck>('agent_checks')).filter(c => !agentId || c.agentId === agentId)
+    return NextResponse.json({ success: true, stats: summarize(checks, days, new Date()) })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — log one guard check ({ agentId, kind, fieldsChecked, discrepancies })
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const agentId = String(body.agentId ?? '').trim()
+    const kind = body.kind as AgentCheckKind
+    const fieldsChecked = Number(body.fieldsChecked)
+
+    if (!agentId || !KINDS.includes(kind)) {
+      return NextResponse.json(
+        { success: false, error: `agentId and a kind of ${KINDS.join(', ')} are required` },
+        { status: 400 }
+      )
+    }
+    if (!Number.isInteger(fieldsChecked) || fieldsChecked < 0 || !Array.isArray(body.discrepancies)) {
+      return NextResponse.json(
+        { success: false, error: 'fieldsChecked must be a count and discrepancies an array' },
+        { status: 400 }
+      )
+    }
+
+    const discrepancies: FieldDiscrepancy[] = body.discrepancies
+      .slice(0, MAX_STORED_DISCREPANCIES)
+      .map((d: Partial<FieldDiscrepancy>) => ({ field: String(d?.field ?? ''), agent: d?.agent, expected: d?.expected }))
+
+    const check = await getStorage().insert<AgentCheck>('agent_checks', {
+      id: generateUUID(),
+      agentId,
+      kind,
+      at: new Date().toISOString(),
+      fieldsChecked,
+      discrepancies,
+    })
+
+    return NextResponse.json({ success: true, check }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,474 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/attendanceStore'
+import { generateUUID } from '@/lib/utils'
+import { getSessionStatus, getSessionWindow, formatSessionEndTime } from '@/lib/sessionTime'
+import { matchRotatingCode } from '@/lib/sessionCode'
+import { getAttendancePolicy } from '@/lib/settingsStore'
+import { appendAudit } from '@/lib/auditLog'
+import { isExpectedAt } from '@/lib/attendanceStats'
+import { archivedTermError, archivedTermOf } from '@/lib/termStore'
+import type {
+  AttendanceRecord,
+  AttendanceSession,
+  AttendanceStatus,
+  CheckInRejection,
+  ProxyFlag,
+  RegisterEntry,
+  Student,
+} from '@/lib/attendanceTypes'
+
+const STATUSES: AttendanceStatus[] = ['present', 'absent', 'late', 'excused']
+
+/** Statuses that put a student in `session.attendees`. */
+const ATTENDING: AttendanceStatus[] = ['present', 'late']
+
+/**
+ * Find the session a submitted code belongs to. Static codes match exactly;
+ * rotating sessions only accept their recent TOTP codes, never the fixed code.
+ */
+function resolveCode(
+  sessions: AttendanceSession[],
+  code: string,
+  now: Date
+): { session: AttendanceSession | null; expired: AttendanceSession | null } {
+  const byStatic = sessions.find(s => !s.rotation && s.code === code)
+  if (byStatic) return { session: byStatic, expired: null }
+
+  let expired: AttendanceSession | null = null
+  for (const s of sessions) {
+    if (!s.rotation?.secret || s.cancelled_at) continue
+    const match = matchRotatingCode(s.rotation.secret, s.rotation.period, code, now)
+    if (match === 'valid') return { session: s, expired: null }
+    if (match === 'expired') expired = expired ?? s
+  }
+  return { session: null, expired }
+}
+
+function reject(reason: CheckInRejection, error: string, status: number) {
+  return NextResponse.json({ success: false, reason, error }, { status })
+}
+
+/**
+ * Record that `deviceId` has now checked in `rollNumber` alongside
+ * `otherRollNumbers` for the same session. Returns the flags unchanged when the
+ * device has only ever checked in one roll number.
+ */
+function flagDevice(
+  flags: ProxyFlag[],
+  deviceId: string,
+  rollNumber: string,
+  otherRollNumbers: string[],
+  at: string
+): ProxyFlag[] {
+  const existing = flags.find(f => f.deviceId === deviceId)
+  const rollNumbers = Array.from(new Set([...(existing?.rollNumbers ?? []), ...otherRollNumbers, rollNumber]))
+  if (rollNumbers.length < 2) return flags
+  const flag: ProxyFlag = { deviceId, rollNumbers, flagged_at: existing?.flagged_at ?? at }
+  return existing ? flags.map(f => (f.deviceId === deviceId ? flag : f)) : [...flags, flag]
+}
+
+/** Rebuild `session.attendees` from the session's records after a correction. */
+async function syncAttendees(sessionId: string | undefined) {
+  if (!sessionId) return
+  const storage = getStorage()
+  const attending = (await storage.list<AttendanceRecord>('records'))
+    .filter(r => r.sessionId === sessionId && ATTENDING.includes(r.status ?? 'present'))
+    .map(r => r.rollNumber)
+  await storage.modify<AttendanceSession>('sessions', sessionId, current => ({
+    ...current,
+    attendees: [
+      ...current.attendees.filter(roll => attending.includes(roll)),
+      ...attending.filter(roll => !current.attendees.includes(roll)),
+    ],
+  }))
+}
+
+/** Corrections need to say who made them and why. */
+function requireActorAndReason(body: { actor?: unknown; reason?: unknown }): { actor: string; reason: string } | string {
+  const actor = String(body.actor ?? '').trim()
+  const reason = String(body.reason ?? '').trim()
+  if (!actor) return 'actor is required'
+  if (reason.length < 3) return 'A reason is required for every correction'
+  return { actor, reason }
+}
+
+/**
+ * Save a teacher's register for one session: upsert one record per roll
+ * number with the teacher as `markedBy`, then bring `session.attendees` in
+ * line with the new statuses.
+ */
+async function saveRegister(body: { sessionId?: unknown; markedBy?: unknown; entries?: unknown }) {
+  const sessionId = String(body.sessionId ?? '')
+  const markedBy = String(body.markedBy ?? '').trim()
+
+  if (!sessionId || !markedBy || !Array.isArray(body.entries)) {
+    return NextResponse.json(
+      { success: false, error: 'sessionId, markedBy, and entries are required' },
+      { status: 400 }
+    )
+  }
+
+  const entries: RegisterEntry[] = []
+  for (const raw of body.entries) {
+    const rollNumber = String(raw?.rollNumber ?? '').trim()
+    const status = raw?.status as AttendanceStatus
+    if (!rollNumber || !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Each entry needs a rollNumber and a status of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    entries.push({ rollNumber, status })
+  }
+
+  const storage = getStorage()
+  const session = await storage.get<AttendanceSession>('sessions', sessionId)
+  if (!session) {
+    return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 })
+  }
+  if (session.cancelled_at) {
+    return NextResponse.json(
+      { success: false, error: 'This session was cancelled, so it has no register.' },
+      { status: 409 }
+    )
+  }
+  const archived = await archivedTermOf(session)
+  if (archived) {
+    return NextResponse.json({ success: false, error: archivedTermError(archived) }, { status: 409 })
+  }
+
+  const students = new Map((await storage.list<Student>('students')).map(st => [st.rollNumber, st]))
+  const existing = new Map(
+    (await storage.list<AttendanceRecord>('records'))
+      .filter(r => r.sessionId === session.id)
+      .map(r => [r.rollNumber, r])
+  )
+
+  const now = new Date().toISOString()
+  let created = 0
+  let updated = 0
+  let unchanged = 0
+  const skipped: { rollNumber: string; error: string }[] = []
+
+  for (const entry of entries) {
+    const previous = existing.get(entry.rollNumber)
+    if (previous) {
+      if ((previous.status ?? 'present') === entry.status) {
+        unchanged++
+        continue
+      }
+      const after = await storage.update<AttendanceRecord>('records', previous.id, { status: entry.status, markedBy })
+      await appendAudit({ actor: markedBy, action: 'register', before: previous, after, reason: 'Register' })
+      updated++
+      continue
+    }
+
+    const student = students.get(entry.rollNumber)
+    if (!student) {
+      skipped.push({ rollNumber: entry.rollNumber, error: 'Not on the class roster' })
+      continue
+    }
+    const inserted = await storage.insert<AttendanceRecord>('records', {
+      id: generateUUID(),
+      sessionId: session.id,
+      name: student.name,
+      rollNumber: entry.rollNumber,
+      code: session.code,
+      subject: session.subject,
+      timestamp: now,
+      status: entry.status,
+      source: 'register',
+      markedBy,
+    })
+    await appendAudit({ actor: markedBy, action: 'register', before: null, after: inserted, reason: 'Register' })
+    created++
+  }
+
+  const saved = new Set(entries.map(e => e.rollNumber).filter(roll => !skipped.some(s => s.rollNumber === roll)))
+  await storage.modify<AttendanceSession>('sessions', session.id, current => {
+    const attendees = current.attendees.filter(roll => !saved.has(roll))
+    for (const entry of entries) {
+      if (saved.has(entry.rollNumber) && ATTENDING.includes(entry.status)) attendees.push(entry.rollNumber)
+    }
+    return { ...current, attendees }
+  })
+
+  const records = (await storage.list<AttendanceRecord>('records')).filter(r => r.sessionId === session.id)
+  return NextResponse.json({ success: true, created, updated, unchanged, skipped, records })
+}
+
+// ---------------------------------------------------------------------------
+// GET — list check-ins (newest first), optionally filtered by sessionId / code
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const sessionId = searchParams.get('sessionId')
+    const code = searchParams.get('code')?.toUpperCase()
+
+    const records = await getStorage().list<AttendanceRecord>('records')
+    const filtered = records
+      .filter(r => !sessionId || r.sessionId === sessionId)
+      .filter(r => !code || r.code === code)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+
+    return NextResponse.json({ success: true, records: filtered, total: filtered.length })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — submit a check-in against the session that owns the code, or save a
+// teacher register ({ action: 'register', sessionId, markedBy, entries })
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    if (body.action === 'register') {
+      return saveRegister(body)
+    }
+
+    const code = String(body.code ?? '').trim().toUpperCase()
+    const name = String(body.name ?? '').trim()
+    const rollNumber = String(body.rollNumber ?? '').trim()
+    const deviceId = body.deviceId ? String(body.deviceId).slice(0, 64) : undefined
+
+    if (!code || !name || !rollNumber) {
+      return NextResponse.json(
+        { success: false, error: 'code, name, and rollNumber are required' },
+        { status: 400 }
+      )
+    }
+
+    if (code.length !== 6) {
+      return NextResponse.json(
+        { success: false, error: 'Attendance code must be 6 characters.' },
+        { status: 400 }
+      )
+    }
+
+    const storage = getStorage()
+    const now = new Date()
+    const { session, expired } = resolveCode(await storage.list<AttendanceSession>('sessions'), code, now)
+    if (!session && expired) {
+      return reject('expired_code', `The code ${code} has expired. Enter the code currently shown by your teacher.`, 422)
+    }
+    if (!session) {
+      return reject('unknown_code', `No session uses the code ${code}. Check the code with your teacher.`, 422)
+    }
+
+    const status = getSessionStatus(session, now)
+    if (status === 'cancelled') {
+      return reject('cancelled', `The ${session.subject} session on ${session.date} was cancelled.`, 403)
+    }
+    if (status === 'scheduled') {
+      return reject(
+        'not_started',
+        `The ${session.subject} session has not started yet. Check-in opens at ${session.time} on ${session.date}.`,
+        403
+      )
+    }
+    if (status === 'closed') {
+      return reject(
+        'ended',
+        session.closed_at
+          ? `The ${session.subject} session on ${session.date} was closed by your teacher.`
+          : `The ${session.subject} session on ${session.date} has ended. Check-in closed at ${formatSessionEndTime(session)}.`,
+        403
+      )
+    }
+
+    const students = await storage.list<Student>('students')
+    const student = students.find(s => s.rollNumber === rollNumber)
+    if (!student) {
+      return reject('unknown_student', `Roll number ${rollNumber} is not on the class roster. Ask your teacher to add you.`, 403)
+    }
+    if (!student.subjects.includes(session.subject)) {
+      return reject('not_enrolled', `Roll number ${rollNumber} is not enrolled in ${session.subject}.`, 403)
+    }
+    if (!isExpectedAt(student, session)) {
+      return reject(
+        'wrong_section',
+        `This ${session.subject} session is for section ${session.section}; roll number ${rollNumber} is in section ${student.section || '--'}.`,
+        403
+      )
+    }
+
+    const sessionRecords = (await storage.list<AttendanceRecord>('records')).filter(r => r.sessionId === session.id)
+    // Roll numbers this device already checked in for the session
+    const deviceRollNumbers = deviceId
+      ? sessionRecords.filter(r => r.deviceId === deviceId && r.rollNumber !== rollNumber).map(r => r.rollNumber)
+      : []
+
+    let duplicate = false
+    await storage.modify<AttendanceSession>('sessions', session.id, current => {
+      if (current.attendees.includes(rollNumber)) {
+        duplicate = true
+        return current
+      }
+      return {
+        ...current,
+        attendees: [...current.attendees, rollNumber],
+        proxy_flags: deviceId
+          ? flagDevice(current.proxy_flags ?? [], deviceId, rollNumber, deviceRollNumbers, now.toISOString())
+          : current.proxy_flags,
+      }
+    })
+    if (duplicate) {
+      return reject('already_checked_in', `Roll number ${rollNumber} is already checked in to this ${session.subject} session.`, 409)
+    }
+
+    const { lateGraceMinutes } = await getAttendancePolicy()
+    const lateAfter = getSessionWindow(session).start.getTime() + lateGraceMinutes * 60_000
+
+    // A register entry (e.g. marked absent before the student arrived) is superseded by the check-in
+    const checkIn: Omit<AttendanceRecord, 'id'> = {
+      sessionId: session.id,
+      name: student.name || name,
+      rollNumber,
+      code: session.code,
+      subject: session.subject,
+      timestamp: now.toISOString(),
+      status: now.getTime() > lateAfter ? 'late' : 'present',
+      source: 'self',
+      markedBy: undefined,
+      deviceId,
+    }
+    const previous = sessionRecords.find(r => r.rollNumber === rollNumber)
+    const record = previous
+      ? await storage.update<AttendanceRecord>('records', previous.id, checkIn)
+      : await storage.insert<AttendanceRecord>('records', { id: generateUUID(), ...checkIn })
+    if (previous) {
+      await appendAudit({ actor: checkIn.name, action: 'check_in', before: previous, after: record, reason: 'Student checked in' })
+    }
+
+    return NextResponse.json({ success: true, record }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — correct a record ({ id, status?, sessionId?, actor, reason }).
+// Moving a record to another session takes that session's subject and code.
+// Records in an archived term are read-only.
+// ---------------------------------------------------------------------------
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+    const who = requireActorAndReason(body)
+    if (typeof who === 'string') {
+      return NextResponse.json({ success: false, error: who }, { status: 400 })
+    }
+    if (body.status !== undefined && !STATUSES.includes(body.status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const storage = getStorage()
+    const before = await storage.get<AttendanceRecord>('records', id)
+    if (!before) {
+      return NextResponse.json({ success: false, error: 'Record not found' }, { status: 404 })
+    }
+    const archived = await archivedTermOf(before.sessionId ? await storage.get<AttendanceSession>('sessions', before.sessionId) : null)
+    if (archived) {
+      return NextResponse.json({ success: false, error: archivedTermError(archived) }, { status: 409 })
+    }
+
+    const patch: Partial<AttendanceRecord> = { markedBy: who.actor }
+    if (body.status !== undefined) patch.status = body.status
+    if (body.sessionId !== undefined && body.sessionId !== before.sessionId) {
+      const target = await storage.get<AttendanceSession>('sessions', String(body.sessionId))
+      if (!target) {
+        return NextResponse.json({ success: false, error: 'Target session not found' }, { status: 404 })
+      }
+      const targetArchived = await archivedTermOf(target)
+      if (targetArchived) {
+        return NextResponse.json({ success: false, error: archivedTermError(targetArchived) }, { status: 409 })
+      }
+      const clash = (await storage.list<AttendanceRecord>('records')).find(
+        r => r.sessionId === target.id && r.rollNumber === before.rollNumber
+      )
+      if (clash) {
+        return NextResponse.json(
+          { success: false, error: `Roll number ${before.rollNumber} already has a record in that session` },
+          { status: 409 }
+        )
+      }
+      patch.sessionId = target.id
+      patch.subject = target.subject
+      patch.code = target.code
+    }
+
+    if (patch.status === undefined && patch.sessionId === undefined) {
+      return NextResponse.json({ success: false, error: 'Nothing to change' }, { status: 400 })
+    }
+
+    const after = await storage.update<AttendanceRecord>('records', id, patch)
+    await appendAudit({ actor: who.actor, action: 'update', before, after, reason: who.reason })
+    await syncAttendees(before.sessionId)
+    if (after?.sessionId !== before.sessionId) await syncAttendees(after?.sessionId)
+
+    return NextResponse.json({ success: true, record: after })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove a record ({ id, actor, reason }) outside an archived term
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+    const who = requireActorAndReason(body)
+    if (typeof who === 'string') {
+      return NextResponse.json({ success: false, error: who }, { status: 400 })
+    }
+
+    const storage = getStorage()
+    const before = await storage.get<AttendanceRecord>('records', id)
+    if (!before) {
+      return NextResponse.json({ success: false, error: 'Record not found' }, { status: 404 })
+    }
+    const archived = await archivedTermOf(before.sessionId ? await storage.get<AttendanceSession>('sessions', before.sessionId) : null)
+    if (archived) {
+      return NextResponse.json({ success: false, error: archivedTermError(archived) }, { status: 409 })
+    }
+    if (!(await storage.remove('records', id))) {
+      return NextResponse.json({ success: false, error: 'Record not found' }, { status: 404 })
+    }
+
+    await appendAudit({ actor: who.actor, action: 'delete', before, after: null, reason: who.reason })
+    await syncAttendees(before.sessionId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
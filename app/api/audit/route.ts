@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/attendanceStore'
+import type { AuditEntry } from '@/lib/attendanceTypes'
+
+// ---------------------------------------------------------------------------
+// GET — audit entries (newest first), filtered by ?rollNumber, ?sessionId and
+// a ?from (inclusive) / ?to (exclusive) range of ISO instants
+//
+// The audit log is append-only, so this route deliberately has no mutations.
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const rollNumber = searchParams.get('rollNumber')?.trim()
+    const sessionId = searchParams.get('sessionId')
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    const entries = await getStorage().list<AuditEntry>('audit')
+    const filtered = entries
+      .filter(e => !rollNumber || e.rollNumber === rollNumber)
+      .filter(e => !sessionId || e.sessionId === sessionId || e.before?.sessionId === sessionId || e.after?.sessionId === sessionId)
+      .filter(e => !from || new Date(e.at) >= new Date(from))
+      .filter(e => !to || new Date(e.at) < new Date(to))
+      .sort((a, b) => b.at.localeCompare(a.at))
+
+    return NextResponse.json({ success: true, entries: filtered, total: filtered.length })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
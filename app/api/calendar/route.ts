@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/attendanceStore'
+import { generateUUID } from '@/lib/utils'
+import { DEFAULT_BLOCKING, validateCalendarFields } from '@/lib/institutionCalendar'
+import type { CalendarDayKind, CalendarEntry } from '@/lib/attendanceTypes'
+
+// ---------------------------------------------------------------------------
+// GET — every holiday, exam week and cancelled day, earliest first
+// ---------------------------------------------------------------------------
+export async function GET() {
+  try {
+    const stored = await getStorage().list<CalendarEntry>('calendar')
+    const entries = [...stored].sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to))
+    return NextResponse.json({ success: true, entries, total: entries.length })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — add an entry ({ kind, label, from, to?, blocking? }). A single day
+// needs only `from`; `blocking` defaults by kind (exam weeks only warn).
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const from = String(body.from ?? '')
+    const fields = {
+      kind: body.kind as CalendarDayKind,
+      label: String(body.label ?? '').trim(),
+      from,
+      to: body.to ? String(body.to) : from,
+    }
+
+    const invalid = validateCalendarFields(fields)
+    if (invalid) {
+      return NextResponse.json({ success: false, error: invalid }, { status: 400 })
+    }
+
+    const entry = await getStorage().insert<CalendarEntry>('calendar', {
+      id: generateUUID(),
+      ...fields,
+      blocking: body.blocking === undefined ? DEFAULT_BLOCKING[fields.kind] : Boolean(body.blocking),
+      created_at: new Date().toISOString(),
+    })
+    return NextResponse.json({ success: true, entry }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove an entry. Sessions already created are left as they are.
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+
+    const storage = getStorage()
+    const entry = await storage.get<CalendarEntry>('calendar', id)
+    if (!entry) {
+      return NextResponse.json({ success: false, error: 'Calendar entry not found' }, { status: 404 })
+    }
+
+    await storage.remove('calendar', id)
+    return NextResponse.json({ success: true, message: 'Calendar entry removed', id })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/attendanceStore'
+import { generateUUID } from '@/lib/utils'
+import { appendAudit } from '@/lib/auditLog'
+import { isOnLeave } from '@/lib/attendanceStats'
+import type {
+  AttendanceRecord,
+  AttendanceSession,
+  LeaveAttachment,
+  LeaveRequest,
+  LeaveStatus,
+  Student,
+} from '@/lib/attendanceTypes'
+
+const LEAVE_STATUSES: LeaveStatus[] = ['pending', 'approved', 'rejected']
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function normalizeAttachments(value: unknown): LeaveAttachment[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map(a => ({ asset_id: String(a?.asset_id ?? '').trim(), file_name: String(a?.file_name ?? '').trim() }))
+    .filter(a => a.asset_id)
+}
+
+/**
+ * Mark the student's recorded absences inside an approved leave as excused,
+ * with an audit entry each. Implicit absences (no record at all) are excused
+ * when marks are collected, so they need no write here.
+ */
+async function excuseRecordedAbsences(leave: LeaveRequest): Promise<number> {
+  const storage = getStorage()
+  const sessions = new Map(
+    (await storage.list<AttendanceSession>('sessions')).map(s => [s.id, s.date])
+  )
+  const absences = (await storage.list<AttendanceRecord>('records')).filter(r => {
+    const date = r.sessionId ? sessions.get(r.sessionId) : undefined
+    return r.status === 'absent' && date !== undefined && isOnLeave([leave], r.rollNumber, r.subject, date)
+  })
+
+  for (const before of absences) {
+    const after = await storage.update<AttendanceRecord>('records', before.id, {
+      status: 'excused',
+      markedBy: leave.reviewedBy,
+    })
+    await appendAudit({
+      actor: leave.reviewedBy ?? 'unknown',
+      action: 'leave',
+      before,
+      after,
+      reason: `Approved leave ${leave.from} to ${leave.to}: ${leave.reason}`,
+    })
+  }
+  return absences.length
+}
+
+// ---------------------------------------------------------------------------
+// GET — list leave requests (newest first), optionally filtered by status /
+// rollNumber
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const rollNumber = searchParams.get('rollNumber')
+
+    if (status && !LEAVE_STATUSES.includes(status as LeaveStatus)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${LEAVE_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const leaves = await getStorage().list<LeaveRequest>('leaves')
+    const filtered = leaves
+      .filter(l => !status || l.status === status)
+      .filter(l => !rollNumber || l.rollNumber === rollNumber)
+      .sort((a, b) => b.submitted_at.localeCompare(a.submitted_at))
+
+    return NextResponse.json({ success: true, leaves: filtered, total: filtered.length })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — submit a leave request for a student on the roster
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const rollNumber = String(body.rollNumber ?? '').trim()
+    const from = String(body.from ?? '')
+    const to = String(body.to ?? '')
+    const reason = String(body.reason ?? '').trim()
+    const subjects = Array.isArray(body.subjects)
+      ? Array.from(new Set(body.subjects.map((s: unknown) => String(s).trim().toUpperCase()).filter(Boolean))) as string[]
+      : []
+
+    if (!rollNumber || !from || !to || !reason || subjects.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'rollNumber, from, to, subjects, and reason are required' },
+        { status: 400 }
+      )
+    }
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      return NextResponse.json({ success: false, error: 'from and to must be in YYYY-MM-DD format' }, { status: 400 })
+    }
+    if (from > to) {
+      return NextResponse.json({ success: false, error: 'The leave must end on or after its first day' }, { status: 422 })
+    }
+
+    const storage = getStorage()
+    const student = (await storage.list<Student>('students')).find(s => s.rollNumber === rollNumber)
+    if (!student) {
+      return NextResponse.json(
+        { success: false, error: `Roll number ${rollNumber} is not on the class roster` },
+        { status: 422 }
+      )
+    }
+    const notEnrolled = subjects.filter(s => !student.subjects.includes(s))
+    if (notEnrolled.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `${student.name} is not enrolled in ${notEnrolled.join(', ')}` },
+        { status: 422 }
+      )
+    }
+
+    const leave = await storage.insert<LeaveRequest>('leaves', {
+      id: generateUUID(),
+      rollNumber,
+      name: student.name,
+      from,
+      to,
+      subjects,
+      reason,
+      attachments: normalizeAttachments(body.attachments),
+      status: 'pending',
+      submitted_at: new Date().toISOString(),
+    })
+
+    return NextResponse.json({ success: true, leave }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — review a pending request ({ id, action: 'approve' | 'reject',
+// reviewedBy, note? }). Approving excuses the student's absences in range.
+// ---------------------------------------------------------------------------
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id, action } = body
+    const reviewedBy = String(body.reviewedBy ?? '').trim()
+    const note = String(body.note ?? '').trim()
+
+    if (!id || !reviewedBy) {
+      return NextResponse.json({ success: false, error: 'id and reviewedBy are required' }, { status: 400 })
+    }
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { success: false, error: `Unknown action: ${action}. Use approve or reject` },
+        { status: 400 }
+      )
+    }
+
+    let blockedBy: LeaveStatus | null = null
+    const leave = await getStorage().modify<LeaveRequest>('leaves', id, current => {
+      if (current.status !== 'pending') {
+        blockedBy = current.status
+        return current
+      }
+      return {
+        ...current,
+        status: action === 'approve' ? 'approved' : 'rejected',
+        reviewedBy,
+        reviewed_at: new Date().toISOString(),
+        reviewNote: note || undefined,
+      }
+    })
+
+    if (!leave) {
+      return NextResponse.json({ success: false, error: 'Leave request not found' }, { status: 404 })
+    }
+    if (blockedBy) {
+      return NextResponse.json(
+        { success: false, error: `This request was already ${blockedBy}`, leave },
+        { status: 409 }
+      )
+    }
+
+    const excused = leave.status === 'approved' ? await excuseRecordedAbsences(leave) : 0
+    return NextResponse.json({ success: true, leave, excused })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
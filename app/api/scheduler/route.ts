@@ -117,7 +117,7 @@ export async function GET(request: NextRequest) {
 }
 
 // ---------------------------------------------------------------------------
-// POST — create | pause | resume | trigger
+// POST — create | update | pause | resume | trigger
 // ---------------------------------------------------------------------------
 export async function POST(request: NextRequest) {
   const check = apiKeyCheck()
@@ -128,6 +128,7 @@ export async function POST(request: NextRequest) {
     const { action, scheduleId, ...params } = body
 
     let url: string
+    let method = 'POST'
     let fetchBody: string | undefined
 
     switch (action) {
@@ -158,6 +159,25 @@ export async function POST(request: NextRequest) {
         break
       }
 
+      // PUT /schedules/{schedule_id}  → 200 with updated schedule
+      case 'update': {
+        if (!scheduleId) {
+          return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
+        }
+        const fields = ['message', 'cron_expression', 'timezone', 'max_retries', 'retry_delay']
+        const changes = Object.fromEntries(fields.filter(f => params[f] !== undefined).map(f => [f, params[f]]))
+        if (Object.keys(changes).length === 0) {
+          return NextResponse.json(
+            { success: false, error: `Nothing to update; send one of ${fields.join(', ')}` },
+            { status: 400 }
+          )
+        }
+        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}`
+        method = 'PUT'
+        fetchBody = JSON.stringify(changes)
+        break
+      }
+
       // POST /schedules/  → 201 with created schedule
       case 'create':
       default: {
@@ -182,7 +202,7 @@ export async function POST(request: NextRequest) {
     }
 
     const response = await fetch(url, {
-      method: 'POST',
+      method,
       headers: getHeaders(),
       ...(fetchBody && { body: fetchBody }),
     })
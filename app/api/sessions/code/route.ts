@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/attendanceStore'
+import { currentRotatingCode, matchesDisplayToken } from '@/lib/sessionCode'
+import type { AttendanceSession } from '@/lib/attendanceTypes'
+
+// ---------------------------------------------------------------------------
+// GET — the code to display for a session right now (?id=)
+// Static sessions always return their fixed code; rotating sessions return the
+// current TOTP code and the instant it rolls over, but only to the device that
+// created the session (its `X-Display-Token` header).
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+
+    const session = await getStorage().get<AttendanceSession>('sessions', id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 })
+    }
+
+    if (!session.rotation?.secret) {
+      return NextResponse.json({ success: true, code: session.code, rotating: false })
+    }
+    if (!matchesDisplayToken(session.rotation.display_token, request.headers.get('x-display-token'))) {
+      return NextResponse.json(
+        { success: false, error: 'The live code can only be shown on the device that created this session' },
+        { status: 403 }
+      )
+    }
+
+    const { code, expires_at } = currentRotatingCode(session.rotation.secret, session.rotation.period)
+    return NextResponse.json({
+      success: true,
+      code,
+      rotating: true,
+      period: session.rotation.period,
+      expires_at,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
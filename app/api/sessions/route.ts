@@ -0,0 +1,338 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/attendanceStore'
+import { generateUUID } from '@/lib/utils'
+import { getSessionStatus } from '@/lib/sessionTime'
+import { isArchived, termForDate } from '@/lib/academicTerms'
+import { archivedTermError, archivedTermOf, listTerms } from '@/lib/termStore'
+import { describeEntry, entriesOn } from '@/lib/institutionCalendar'
+import { normalizeSubjectCode } from '@/lib/subjectCatalog'
+import { unknownSubjectError, unknownSubjects } from '@/lib/subjectStore'
+import {
+  generateCode,
+  createDisplayToken,
+  createRotationSecret,
+  DEFAULT_ROTATION_PERIOD,
+  MIN_ROTATION_PERIOD,
+  MAX_ROTATION_PERIOD,
+} from '@/lib/sessionCode'
+import type {
+  AcademicTerm,
+  AttendanceSession,
+  CalendarEntry,
+  SessionAction,
+  SessionStatus,
+} from '@/lib/attendanceTypes'
+
+/** Drop the rotation secret before a session leaves the server. */
+function toPublicSession(session: AttendanceSession): AttendanceSession {
+  if (!session.rotation) return session
+  return { ...session, rotation: { period: session.rotation.period } }
+}
+
+/** Sections are stored upper-case like the roster's; blank means every section. */
+function normalizeSection(value: unknown): string | undefined {
+  const section = String(value ?? '').trim().toUpperCase()
+  return section || undefined
+}
+
+/**
+ * The term a session dated `date` goes in: `termId` when given (it must cover
+ * the date), otherwise the term covering the date. Once any term exists,
+ * every session must fall in one, and archived terms take no new sessions.
+ */
+async function resolveTerm(
+  date: string,
+  termId?: string
+): Promise<{ term: AcademicTerm | null } | { error: string; status: number }> {
+  const terms = await listTerms()
+  const term = termId ? terms.find(t => t.id === termId) ?? null : termForDate(terms, date)
+  if (termId && !term) return { error: 'Term not found', status: 404 }
+  if (term && (date < term.start || date > term.end)) {
+    return { error: `${date} is outside ${term.name} (${term.start} to ${term.end})`, status: 400 }
+  }
+  if (!term && terms.length > 0) {
+    return { error: `No academic term covers ${date}. Add the term in Settings first.`, status: 400 }
+  }
+  if (isArchived(term)) return { error: archivedTermError(term as AcademicTerm), status: 409 }
+  return { term }
+}
+
+/**
+ * Check `date` against the institution calendar: a blocking entry refuses
+ * the session, any other entry on that day comes back as a warning.
+ */
+async function checkCalendar(date: string): Promise<{ warnings: string[] } | { error: string; status: number }> {
+  const entries = entriesOn(await getStorage().list<CalendarEntry>('calendar'), date)
+  const blocking = entries.find(e => e.blocking)
+  if (blocking) {
+    return { error: `No classes on ${date}: ${describeEntry(blocking)}`, status: 409 }
+  }
+  return { warnings: entries.map(e => `${date} is on the calendar: ${describeEntry(e)}`) }
+}
+
+function validateSessionFields(fields: Partial<AttendanceSession>): string | null {
+  if (fields.subject !== undefined && (typeof fields.subject !== 'string' || !fields.subject.trim())) {
+    return 'subject must be a non-empty string'
+  }
+  if (fields.date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(String(fields.date))) {
+    return 'date must be in YYYY-MM-DD format'
+  }
+  if (fields.time !== undefined && !/^\d{2}:\d{2}$/.test(String(fields.time))) {
+    return 'time must be in HH:mm format'
+  }
+  if (fields.duration !== undefined && (!Number.isFinite(fields.duration) || fields.duration <= 0)) {
+    return 'duration must be a positive number of minutes'
+  }
+  if (fields.starts_at !== undefined && isNaN(new Date(fields.starts_at).getTime())) {
+    return 'starts_at must be an ISO date-time'
+  }
+  return null
+}
+
+/** Which lifecycle states each manual action may be applied from. */
+const ACTION_FROM: Record<SessionAction, SessionStatus[]> = {
+  open: ['scheduled', 'closed'],
+  close: ['open'],
+  cancel: ['scheduled', 'open'],
+}
+
+function applyAction(session: AttendanceSession, action: SessionAction, now: Date): AttendanceSession {
+  const at = now.toISOString()
+  switch (action) {
+    case 'open':
+      return { ...session, opened_at: at, closed_at: undefined }
+    case 'close':
+      return { ...session, closed_at: at }
+    case 'cancel':
+      return { ...session, cancelled_at: at }
+  }
+}
+
+/** Open now / Close now / Cancel — checked against the status at write time. */
+async function handleAction(id: string, action: SessionAction) {
+  if (!Object.keys(ACTION_FROM).includes(action)) {
+    return NextResponse.json(
+      { success: false, error: `Unknown action: ${action}. Use open, close, or cancel` },
+      { status: 400 }
+    )
+  }
+
+  let blockedBy: SessionStatus | null = null
+  const session = await getStorage().modify<AttendanceSession>('sessions', id, current => {
+    const now = new Date()
+    const status = getSessionStatus(current, now)
+    if (!ACTION_FROM[action].includes(status)) {
+      blockedBy = status
+      return current
+    }
+    return applyAction(current, action, now)
+  })
+
+  if (!session) {
+    return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 })
+  }
+  if (blockedBy) {
+    return NextResponse.json(
+      { success: false, error: `Cannot ${action} a session that is ${blockedBy}`, session: toPublicSession(session) },
+      { status: 409 }
+    )
+  }
+  return NextResponse.json({ success: true, session: toPublicSession(session) })
+}
+
+// ---------------------------------------------------------------------------
+// GET — list sessions (newest first), or a single session with ?id=
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const id = new URL(request.url).searchParams.get('id')
+    if (id) {
+      const session = await getStorage().get<AttendanceSession>('sessions', id)
+      if (!session) {
+        return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 })
+      }
+      return NextResponse.json({ success: true, session: toPublicSession(session) })
+    }
+
+    const sessions = await getStorage().list<AttendanceSession>('sessions')
+    const sorted = sessions
+      .map(toPublicSession)
+      .sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''))
+    return NextResponse.json({ success: true, sessions: sorted, total: sorted.length })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — create a session and assign it a unique check-in code. With
+// `rotating: true` it also gets a secret for time-based codes and a
+// `display_token` (returned only here) for reading the live code; with a
+// `section` only that section's students are expected. The session joins
+// `termId`, or the term covering its date. Blocking calendar days refuse the
+// session; other calendar days come back as `warnings`.
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { date, time, starts_at } = body
+    const subject = normalizeSubjectCode(body.subject)
+    const duration = body.duration === undefined ? 60 : Number(body.duration)
+    const rotationPeriod = body.rotation_period === undefined ? DEFAULT_ROTATION_PERIOD : Number(body.rotation_period)
+
+    if (!subject || !date || !time) {
+      return NextResponse.json(
+        { success: false, error: 'subject, date, and time are required' },
+        { status: 400 }
+      )
+    }
+
+    const invalid = validateSessionFields({ subject, date, time, duration, starts_at })
+    if (invalid) {
+      return NextResponse.json({ success: false, error: invalid }, { status: 400 })
+    }
+    const unknown = await unknownSubjects([subject])
+    if (unknown.length > 0) {
+      return NextResponse.json({ success: false, error: unknownSubjectError(unknown) }, { status: 400 })
+    }
+
+    if (
+      body.rotating &&
+      (!Number.isInteger(rotationPeriod) || rotationPeriod < MIN_ROTATION_PERIOD || rotationPeriod > MAX_ROTATION_PERIOD)
+    ) {
+      return NextResponse.json(
+        { success: false, error: `rotation_period must be ${MIN_ROTATION_PERIOD}-${MAX_ROTATION_PERIOD} seconds` },
+        { status: 400 }
+      )
+    }
+
+    const resolved = await resolveTerm(date, body.termId)
+    if ('error' in resolved) {
+      return NextResponse.json({ success: false, error: resolved.error }, { status: resolved.status })
+    }
+    const calendar = await checkCalendar(date)
+    if ('error' in calendar) {
+      return NextResponse.json({ success: false, error: calendar.error }, { status: calendar.status })
+    }
+
+    const storage = getStorage()
+    const existing = await storage.list<AttendanceSession>('sessions')
+    const usedCodes = new Set(existing.map(s => s.code))
+    let code = generateCode()
+    while (usedCodes.has(code)) code = generateCode()
+
+    const session = await storage.insert<AttendanceSession>('sessions', {
+      id: generateUUID(),
+      subject,
+      code,
+      date,
+      time,
+      duration,
+      attendees: [],
+      section: normalizeSection(body.section),
+      termId: resolved.term?.id,
+      starts_at,
+      rotation: body.rotating
+        ? { period: rotationPeriod, secret: createRotationSecret(), display_token: createDisplayToken() }
+        : undefined,
+      created_at: new Date().toISOString(),
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        session: toPublicSession(session),
+        display_token: session.rotation?.display_token,
+        warnings: calendar.warnings,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — update subject / section / date / time / duration of a session, or apply a
+// lifecycle action ({ id, action: 'open' | 'close' | 'cancel' }). Sessions in
+// an archived term are read-only; a new date moves the session to its term
+// and is checked against the institution calendar like a new session.
+// ---------------------------------------------------------------------------
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id, action } = body
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+
+    const storage = getStorage()
+    const current = await storage.get<AttendanceSession>('sessions', id)
+    if (!current) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 })
+    }
+    const archived = await archivedTermOf(current)
+    if (archived) {
+      return NextResponse.json({ success: false, error: archivedTermError(archived) }, { status: 409 })
+    }
+
+    if (action !== undefined) {
+      return handleAction(id, action)
+    }
+
+    const patch: Partial<AttendanceSession> = {}
+    if (body.subject !== undefined) patch.subject = normalizeSubjectCode(body.subject)
+    if (body.section !== undefined) patch.section = normalizeSection(body.section)
+    if (body.date !== undefined) patch.date = body.date
+    if (body.time !== undefined) patch.time = body.time
+    if (body.duration !== undefined) patch.duration = Number(body.duration)
+    if (body.starts_at !== undefined) {
+      patch.starts_at = body.starts_at
+    } else if (patch.date !== undefined || patch.time !== undefined) {
+      // A stale instant would contradict the new date/time; fall back to date + time
+      patch.starts_at = undefined
+    }
+
+    const invalid = validateSessionFields(patch)
+    if (invalid) {
+      return NextResponse.json({ success: false, error: invalid }, { status: 400 })
+    }
+    const unknown = patch.subject === undefined ? [] : await unknownSubjects([patch.subject])
+    if (unknown.length > 0) {
+      return NextResponse.json({ success: false, error: unknownSubjectError(unknown) }, { status: 400 })
+    }
+
+    let warnings: string[] = []
+    if (patch.date !== undefined && patch.date !== current.date) {
+      const resolved = await resolveTerm(patch.date)
+      if ('error' in resolved) {
+        return NextResponse.json({ success: false, error: resolved.error }, { status: resolved.status })
+      }
+      const calendar = await checkCalendar(patch.date)
+      if ('error' in calendar) {
+        return NextResponse.json({ success: false, error: calendar.error }, { status: calendar.status })
+      }
+      patch.termId = resolved.term?.id
+      warnings = calendar.warnings
+    }
+
+    const session = await storage.update<AttendanceSession>('sessions', id, patch)
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, session: toPublicSession(session), warnings })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
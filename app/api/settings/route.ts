@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getAttendancePolicy,
+  getSeverityRules,
+  getThresholdSettings,
+  saveAttendancePolicy,
+  saveSeverityRules,
+  saveThresholdSettings,
+  validateAttendancePolicy,
+  validateSeverityRules,
+  validateThresholdSettings,
+} from '@/lib/settingsStore'
+import { normalizeSubjectCode } from '@/lib/subjectCatalog'
+import { unknownSubjectError, unknownSubjects } from '@/lib/subjectStore'
+import { listTerms } from '@/lib/termStore'
+import type { AttendancePolicy, SeverityRules, TermThresholds, ThresholdSettings } from '@/lib/attendanceTypes'
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/** Subject code → percentage with normalized codes; anything else is left for validation to reject. */
+function parseSubjectThresholds(value: unknown): Record<string, number> {
+  if (!isRecord(value)) return value as Record<string, number>
+  return Object.fromEntries(Object.entries(value).map(([code, threshold]) => [normalizeSubjectCode(code), Number(threshold)]))
+}
+
+function parseTermThresholds(value: unknown): TermThresholds {
+  if (!isRecord(value)) return value as TermThresholds
+  const own: TermThresholds = {}
+  if (value.defaultThreshold !== undefined) own.defaultThreshold = Number(value.defaultThreshold)
+  if (value.subjects !== undefined) own.subjects = parseSubjectThresholds(value.subjects)
+  return own
+}
+
+// ---------------------------------------------------------------------------
+// GET — current settings
+// ---------------------------------------------------------------------------
+export async function GET() {
+  try {
+    const [policy, thresholds, severity] = await Promise.all([
+      getAttendancePolicy(),
+      getThresholdSettings(),
+      getSeverityRules(),
+    ])
+    return NextResponse.json({ success: true, policy, thresholds, severity })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — update settings ({ policy?: { lateGraceMinutes?, lateCountsAsPresent? },
+// thresholds?: { defaultThreshold?, subjects?, terms?: { [termId]: {
+// defaultThreshold?, subjects? } } }, severity?: { warningWithin?,
+// criticalWithin?, atRiskWithin? } }). `subjects` replaces every per-subject
+// override; `terms` replaces the overrides of each term it names. Subject codes
+// must be in the catalog and term ids must exist.
+// ---------------------------------------------------------------------------
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const raw = body.policy ?? {}
+    const rawThresholds = body.thresholds ?? {}
+    const rawSeverity = body.severity ?? {}
+
+    const patch: Partial<AttendancePolicy> = {}
+    if (raw.lateGraceMinutes !== undefined) patch.lateGraceMinutes = Number(raw.lateGraceMinutes)
+    if (raw.lateCountsAsPresent !== undefined) patch.lateCountsAsPresent = raw.lateCountsAsPresent
+
+    const thresholdPatch: Partial<ThresholdSettings> = {}
+    if (rawThresholds.defaultThreshold !== undefined) thresholdPatch.defaultThreshold = Number(rawThresholds.defaultThreshold)
+    if (rawThresholds.subjects !== undefined) thresholdPatch.subjects = parseSubjectThresholds(rawThresholds.subjects)
+    if (rawThresholds.terms !== undefined) {
+      thresholdPatch.terms = isRecord(rawThresholds.terms)
+        ? Object.fromEntries(Object.entries(rawThresholds.terms).map(([termId, own]) => [termId, parseTermThresholds(own)]))
+        : rawThresholds.terms
+    }
+
+    const severityPatch: Partial<SeverityRules> = {}
+    for (const key of ['warningWithin', 'criticalWithin', 'atRiskWithin'] as const) {
+      if (rawSeverity[key] !== undefined) severityPatch[key] = Number(rawSeverity[key])
+    }
+
+    const invalid =
+      validateAttendancePolicy(patch) ??
+      validateThresholdSettings(thresholdPatch) ??
+      validateSeverityRules(severityPatch, await getSeverityRules())
+    if (invalid) {
+      return NextResponse.json({ success: false, error: invalid }, { status: 400 })
+    }
+    const termIds = Object.keys(thresholdPatch.terms ?? {})
+    const codes = [
+      ...Object.keys(thresholdPatch.subjects ?? {}),
+      ...Object.values(thresholdPatch.terms ?? {}).flatMap(own => Object.keys(own.subjects ?? {})),
+    ]
+    const unknown = await unknownSubjects(Array.from(new Set(codes)))
+    if (unknown.length > 0) {
+      return NextResponse.json({ success: false, error: unknownSubjectError(unknown) }, { status: 400 })
+    }
+    if (termIds.length > 0) {
+      const known = new Set((await listTerms()).map(t => t.id))
+      const missing = termIds.filter(id => !known.has(id))
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { success: false, error: `Unknown term${missing.length === 1 ? '' : 's'} ${missing.join(', ')}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const policy = body.policy ? await saveAttendancePolicy(patch) : await getAttendancePolicy()
+    const thresholds = body.thresholds ? await saveThresholdSettings(thresholdPatch) : await getThresholdSettings()
+    const severity = body.severity ? await saveSeverityRules(severityPatch) : await getSeverityRules()
+    return NextResponse.json({ success: true, policy, thresholds, severity })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
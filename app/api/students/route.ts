@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/attendanceStore'
+import { generateUUID } from '@/lib/utils'
+import { normalizeSubjectCode } from '@/lib/subjectCatalog'
+import { listCatalog, unknownSubjectError, unknownSubjects } from '@/lib/subjectStore'
+import type { Student } from '@/lib/attendanceTypes'
+
+/** Subject codes normalized like session subjects (see normalizeSubjectCode), without duplicates. */
+function normalizeSubjects(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null
+  const subjects = value.map(normalizeSubjectCode).filter(Boolean)
+  return Array.from(new Set(subjects))
+}
+
+// ---------------------------------------------------------------------------
+// GET — list the roster, optionally filtered by section / subject
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const section = searchParams.get('section')
+    const subject = searchParams.get('subject')?.toUpperCase()
+
+    const students = await getStorage().list<Student>('students')
+    const filtered = students
+      .filter(s => !section || s.section === section)
+      .filter(s => !subject || s.subjects.includes(subject))
+      .sort((a, b) => a.rollNumber.localeCompare(b.rollNumber, undefined, { numeric: true }))
+
+    return NextResponse.json({ success: true, students: filtered, total: filtered.length })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Upsert a batch of students by roll number. Rows that fail validation
+ * (including subjects the catalog does not have) are skipped and reported
+ * back with their index in the batch.
+ */
+async function importStudents(rows: unknown) {
+  if (!Array.isArray(rows)) {
+    return NextResponse.json({ success: false, error: 'students must be an array' }, { status: 400 })
+  }
+
+  const storage = getStorage()
+  const existing = await storage.list<Student>('students')
+  const byRoll = new Map(existing.map(s => [s.rollNumber, s]))
+  const known = new Set((await listCatalog()).map(s => s.code))
+  const skipped: { index: number; error: string }[] = []
+  let created = 0
+  let updated = 0
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = (rows[index] ?? {}) as Record<string, unknown>
+    const rollNumber = String(row.rollNumber ?? '').trim()
+    const name = String(row.name ?? '').trim()
+    const section = String(row.section ?? '').trim().toUpperCase()
+    const subjects = normalizeSubjects(row.subjects ?? [])
+
+    if (!rollNumber || !name || !subjects) {
+      skipped.push({ index, error: 'rollNumber, name, and subjects array are required' })
+      continue
+    }
+    const unknown = subjects.filter(code => !known.has(code))
+    if (unknown.length > 0) {
+      skipped.push({ index, error: unknownSubjectError(unknown) })
+      continue
+    }
+
+    const current = byRoll.get(rollNumber)
+    if (current) {
+      const saved = await storage.update<Student>('students', current.id, { name, section, subjects })
+      if (saved) byRoll.set(rollNumber, saved)
+      updated++
+    } else {
+      const saved = await storage.insert<Student>('students', {
+        id: generateUUID(),
+        rollNumber,
+        name,
+        section,
+        subjects,
+        created_at: new Date().toISOString(),
+      })
+      byRoll.set(rollNumber, saved)
+      created++
+    }
+  }
+
+  return NextResponse.json({ success: true, created, updated, skipped })
+}
+
+// ---------------------------------------------------------------------------
+// POST — add a student (roll numbers are unique) | import a batch
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    if (body.action === 'import') {
+      return importStudents(body.students)
+    }
+
+    const rollNumber = String(body.rollNumber ?? '').trim()
+    const name = String(body.name ?? '').trim()
+    const section = String(body.section ?? '').trim().toUpperCase()
+    const subjects = normalizeSubjects(body.subjects ?? [])
+
+    if (!rollNumber || !name) {
+      return NextResponse.json(
+        { success: false, error: 'rollNumber and name are required' },
+        { status: 400 }
+      )
+    }
+    if (!subjects) {
+      return NextResponse.json({ success: false, error: 'subjects must be an array' }, { status: 400 })
+    }
+    const unknown = await unknownSubjects(subjects)
+    if (unknown.length > 0) {
+      return NextResponse.json({ success: false, error: unknownSubjectError(unknown) }, { status: 400 })
+    }
+
+    const storage = getStorage()
+    const existing = await storage.list<Student>('students')
+    if (existing.some(s => s.rollNumber === rollNumber)) {
+      return NextResponse.json(
+        { success: false, error: `A student with roll number ${rollNumber} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const student = await storage.insert<Student>('students', {
+      id: generateUUID(),
+      rollNumber,
+      name,
+      section,
+      subjects,
+      created_at: new Date().toISOString(),
+    })
+
+    return NextResponse.json({ success: true, student }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — update a student's details or enrolment
+// ---------------------------------------------------------------------------
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+
+    const patch: Partial<Student> = {}
+    if (body.rollNumber !== undefined) patch.rollNumber = String(body.rollNumber).trim()
+    if (body.name !== undefined) patch.name = String(body.name).trim()
+    if (body.section !== undefined) patch.section = String(body.section).trim().toUpperCase()
+    if (body.subjects !== undefined) {
+      const subjects = normalizeSubjects(body.subjects)
+      if (!subjects) {
+        return NextResponse.json({ success: false, error: 'subjects must be an array' }, { status: 400 })
+      }
+      const unknown = await unknownSubjects(subjects)
+      if (unknown.length > 0) {
+        return NextResponse.json({ success: false, error: unknownSubjectError(unknown) }, { status: 400 })
+      }
+      patch.subjects = subjects
+    }
+
+    if (patch.rollNumber === '' || patch.name === '') {
+      return NextResponse.json(
+        { success: false, error: 'rollNumber and name cannot be empty' },
+        { status: 400 }
+      )
+    }
+
+    const storage = getStorage()
+    if (patch.rollNumber) {
+      const existing = await storage.list<Student>('students')
+      if (existing.some(s => s.rollNumber === patch.rollNumber && s.id !== id)) {
+        return NextResponse.json(
+          { success: false, error: `A student with roll number ${patch.rollNumber} already exists` },
+          { status: 409 }
+        )
+      }
+    }
+
+    const student = await storage.update<Student>('students', id, patch)
+    if (!student) {
+      return NextResponse.json({ success: false, error: 'Student not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, student })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove a student from the roster
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+
+    const removed = await getStorage().remove('students', id)
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Student not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, message: 'Student removed', id })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/attendanceStore'
+import { generateUUID } from '@/lib/utils'
+import {
+  SUBJECT_CODE_PATTERN,
+  SUBJECT_COLORS,
+  isSubjectColor,
+  normalizeSubjectCode,
+} from '@/lib/subjectCatalog'
+import { listCatalog } from '@/lib/subjectStore'
+import type { AttendanceSession, Student, Subject } from '@/lib/attendanceTypes'
+
+/** Validate the editable fields that are present; returns an error message or null. */
+function validateSubjectFields(fields: Partial<Subject>): string | null {
+  if (fields.name !== undefined && !fields.name) return 'name cannot be empty'
+  if (fields.credits !== undefined && (!Number.isFinite(fields.credits) || fields.credits < 0 || fields.credits > 20)) {
+    return 'credits must be a number between 0 and 20'
+  }
+  if (fields.color !== undefined && !isSubjectColor(fields.color)) {
+    return `color must be one of ${SUBJECT_COLORS.join(', ')}`
+  }
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// GET — the subject catalog, ordered by code
+// ---------------------------------------------------------------------------
+export async function GET() {
+  try {
+    const subjects = await listCatalog()
+    return NextResponse.json({ success: true, subjects, total: subjects.length })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — add a subject (codes are unique)
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const code = normalizeSubjectCode(body.code)
+    const fields: Partial<Subject> = {
+      name: String(body.name ?? '').trim(),
+      credits: body.credits === undefined || body.credits === '' ? 0 : Number(body.credits),
+      faculty: String(body.faculty ?? '').trim(),
+      color: body.color ?? SUBJECT_COLORS[0],
+    }
+
+    if (!SUBJECT_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { success: false, error: 'code must be 1-12 letters, digits, "-" or "_"' },
+        { status: 400 }
+      )
+    }
+    const invalid = validateSubjectFields(fields)
+    if (invalid) {
+      return NextResponse.json({ success: false, error: invalid }, { status: 400 })
+    }
+
+    const existing = await listCatalog()
+    if (existing.some(s => s.code === code)) {
+      return NextResponse.json(
+        { success: false, error: `A subject with code ${code} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const subject = await getStorage().insert<Subject>('subjects', {
+      id: generateUUID(),
+      code,
+      name: fields.name as string,
+      credits: fields.credits as number,
+      faculty: fields.faculty as string,
+      color: fields.color as string,
+      created_at: new Date().toISOString(),
+    })
+
+    return NextResponse.json({ success: true, subject }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — update a subject's name, credits, faculty or colour. The code is
+// fixed: sessions, records and enrolments refer to it.
+// ---------------------------------------------------------------------------
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+
+    const storage = getStorage()
+    const current = await storage.get<Subject>('subjects', id)
+    if (!current) {
+      return NextResponse.json({ success: false, error: 'Subject not found' }, { status: 404 })
+    }
+    if (body.code !== undefined && normalizeSubjectCode(body.code) !== current.code) {
+      return NextResponse.json(
+        { success: false, error: 'A subject code cannot be changed once created' },
+        { status: 400 }
+      )
+    }
+
+    const patch: Partial<Subject> = {}
+    if (body.name !== undefined) patch.name = String(body.name).trim()
+    if (body.credits !== undefined) patch.credits = Number(body.credits)
+    if (body.faculty !== undefined) patch.faculty = String(body.faculty).trim()
+    if (body.color !== undefined) patch.color = body.color
+
+    const invalid = validateSubjectFields(patch)
+    if (invalid) {
+      return NextResponse.json({ success: false, error: invalid }, { status: 400 })
+    }
+
+    const subject = await storage.update<Subject>('subjects', id, patch)
+    return NextResponse.json({ success: true, subject })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove a subject no session or student refers to
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+
+    const storage = getStorage()
+    const subject = await storage.get<Subject>('subjects', id)
+    if (!subject) {
+      return NextResponse.json({ success: false, error: 'Subject not found' }, { status: 404 })
+    }
+
+    const [sessions, students, catalog] = await Promise.all([
+      storage.list<AttendanceSession>('sessions'),
+      storage.list<Student>('students'),
+      storage.list<Subject>('subjects'),
+    ])
+    const sessionCount = sessions.filter(s => s.subject === subject.code).length
+    const studentCount = students.filter(s => s.subjects.includes(subject.code)).length
+    if (sessionCount > 0 || studentCount > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${subject.code} is still used by ${sessionCount} session(s) and ${studentCount} enrolled student(s)`,
+        },
+        { status: 409 }
+      )
+    }
+    // An empty catalog would be re-seeded with the defaults on the next GET
+    if (catalog.length <= 1) {
+      return NextResponse.json(
+        { success: false, error: 'The catalog must keep at least one subject' },
+        { status: 409 }
+      )
+    }
+
+    await storage.remove('subjects', id)
+    return NextResponse.json({ success: true, message: 'Subject removed', id })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
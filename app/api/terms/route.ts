@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/attendanceStore'
+import { generateUUID } from '@/lib/utils'
+import { defaultTerm, isArchived, overlappingTerm, termOfSession, validateTermFields } from '@/lib/academicTerms'
+import { archivedTermError, listTerms } from '@/lib/termStore'
+import type { AcademicTerm, AttendanceSession } from '@/lib/attendanceTypes'
+
+// ---------------------------------------------------------------------------
+// GET — every term, earliest first, plus the id of the one to open on
+// ---------------------------------------------------------------------------
+export async function GET() {
+  try {
+    const terms = await listTerms()
+    return NextResponse.json({ success: true, terms, current: defaultTerm(terms)?.id ?? null, total: terms.length })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — add a term ({ name, start, end }); terms may not overlap
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const fields = {
+      name: String(body.name ?? '').trim(),
+      start: String(body.start ?? ''),
+      end: String(body.end ?? ''),
+    }
+
+    const invalid = validateTermFields(fields)
+    if (invalid) {
+      return NextResponse.json({ success: false, error: invalid }, { status: 400 })
+    }
+
+    const clash = overlappingTerm(await listTerms(), fields)
+    if (clash) {
+      return NextResponse.json(
+        { success: false, error: `The dates overlap ${clash.name} (${clash.start} to ${clash.end})` },
+        { status: 409 }
+      )
+    }
+
+    const term = await getStorage().insert<AcademicTerm>('terms', {
+      id: generateUUID(),
+      ...fields,
+      created_at: new Date().toISOString(),
+    })
+    return NextResponse.json({ success: true, term }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — rename a term or move its dates. Archived terms are read-only, and
+// the new dates must still cover every session already in the term.
+// ---------------------------------------------------------------------------
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+
+    const storage = getStorage()
+    const current = await storage.get<AcademicTerm>('terms', id)
+    if (!current) {
+      return NextResponse.json({ success: false, error: 'Term not found' }, { status: 404 })
+    }
+    if (isArchived(current)) {
+      return NextResponse.json({ success: false, error: archivedTermError(current) }, { status: 409 })
+    }
+
+    const next = {
+      name: body.name === undefined ? current.name : String(body.name).trim(),
+      start: body.start === undefined ? current.start : String(body.start),
+      end: body.end === undefined ? current.end : String(body.end),
+    }
+    const invalid = validateTermFields(next)
+    if (invalid) {
+      return NextResponse.json({ success: false, error: invalid }, { status: 400 })
+    }
+
+    const terms = await listTerms()
+    const clash = overlappingTerm(terms, next, current.id)
+    if (clash) {
+      return NextResponse.json(
+        { success: false, error: `The dates overlap ${clash.name} (${clash.start} to ${clash.end})` },
+        { status: 409 }
+      )
+    }
+    if (isArchived({ ...current, ...next })) {
+      return NextResponse.json(
+        { success: false, error: 'The new end date has already passed, which would archive the term' },
+        { status: 400 }
+      )
+    }
+
+    const outside = (await storage.list<AttendanceSession>('sessions'))
+      .filter(s => termOfSession(terms, s)?.id === current.id)
+      .filter(s => s.date < next.start || s.date > next.end)
+    if (outside.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `${outside.length} session(s) in ${current.name} fall outside the new dates` },
+        { status: 409 }
+      )
+    }
+
+    const term = await storage.update<AcademicTerm>('terms', id, next)
+    return NextResponse.json({ success: true, term })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove a term that has no sessions and is not archived
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 })
+    }
+
+    const storage = getStorage()
+    const term = await storage.get<AcademicTerm>('terms', id)
+    if (!term) {
+      return NextResponse.json({ success: false, error: 'Term not found' }, { status: 404 })
+    }
+    if (isArchived(term)) {
+      return NextResponse.json({ success: false, error: archivedTermError(term) }, { status: 409 })
+    }
+
+    const terms = await listTerms()
+    const sessionCount = (await storage.list<AttendanceSession>('sessions'))
+      .filter(s => termOfSession(terms, s)?.id === term.id).length
+    if (sessionCount > 0) {
+      return NextResponse.json(
+        { success: false, error: `${term.name} still has ${sessionCount} session(s)` },
+        { status: 409 }
+      )
+    }
+
+    await storage.remove('terms', id)
+    return NextResponse.json({ success: true, message: 'Term removed', id })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,15 +1,154 @@
 'use client'
 
-import React, { useState, useEffect, useCallback } from 'react'
-import { callAIAgent } from '@/lib/aiAgent'
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { uploadFiles } from '@/lib/aiAgent'
+import { callAgent } from '@/lib/agentResponses'
+import type { CoercionWarning } from '@/lib/agentResponses'
 import {
   listSchedules,
   getScheduleLogs,
   pauseSchedule,
   resumeSchedule,
+  updateSchedule,
   cronToHuman,
 } from '@/lib/scheduler'
 import type { Schedule, ExecutionLog } from '@/lib/scheduler'
+import {
+  listSessions,
+  getSession,
+  createSession,
+  setSessionState,
+  getCurrentCode,
+  listCheckIns,
+  submitCheckIn,
+  saveRegister,
+  getTeacherName,
+  setTeacherName,
+  getSettings,
+  getAttendancePolicy,
+  updateAttendancePolicy,
+  updateThresholdSettings,
+  updateSeverityRules,
+  updateRecord,
+  deleteRecord,
+  listAuditEntries,
+  listLeaveRequests,
+  submitLeaveRequest,
+  reviewLeaveRequest,
+  getAgentRetryEnabled,
+  setAgentRetryEnabled,
+  getMySection,
+  setMySection,
+  listTerms,
+  createTerm,
+  updateTerm,
+  deleteTerm,
+  listCalendar,
+  createCalendarEntry,
+  deleteCalendarEntry,
+  logAgentCheck,
+  getAgentCheckStats,
+  listStudents,
+  createStudent,
+  updateStudent,
+  deleteStudent,
+  importStudents,
+  listSubjects,
+  createSubject,
+  updateSubject,
+  deleteSubject,
+} from '@/lib/attendance'
+import type {
+  AcademicTerm,
+  AgentCheckKind,
+  AgentCheckStats,
+  AlertResponse,
+  AttendancePolicy,
+  AttendanceReport,
+  AttendanceSession,
+  AttendanceRecord,
+  AttendanceStatus,
+  AuditAction,
+  AuditEntry,
+  AuditSnapshot,
+  CalendarDayKind,
+  CalendarEntry,
+  LeaveAttachment,
+  LeaveRequest,
+  LeaveStatus,
+  SessionAction,
+  SessionStatus,
+  SeverityRules,
+  Student,
+  StudentProfile,
+  Subject,
+  TermStatus,
+  TermThresholds,
+  ThresholdSettings,
+} from '@/lib/attendance'
+import { getSessionStatus, getSessionWindow, toLocalDate } from '@/lib/sessionTime'
+import { defaultTerm, isArchived, sessionsInTerm, termStatus } from '@/lib/academicTerms'
+import {
+  CALENDAR_DAY_KINDS,
+  DEFAULT_BLOCKING,
+  describeEntry,
+  entriesOn,
+  recurringDates,
+} from '@/lib/institutionCalendar'
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  collectMarks,
+  countStatuses,
+  isExpectedAt,
+  attendancePercentage,
+  recordStatus,
+} from '@/lib/attendanceStats'
+import type { AttendanceMark } from '@/lib/attendanceStats'
+import {
+  ALL_SECTIONS,
+  ALL_SUBJECTS,
+  DEFAULT_THRESHOLD_SETTINGS,
+  DEFAULT_SEVERITY_RULES,
+  REPORT_NARRATIVE_FIELDS,
+  PROFILE_NARRATIVE_FIELDS,
+  ALERT_NARRATIVE_FIELDS,
+  withNarrative,
+  computeAttendanceReport,
+  computeStudentProfile,
+  computeAlerts,
+  findStudentForQuery,
+  thresholdFor,
+  thresholdsForTerm,
+  mergeThresholdSettings,
+  listSections,
+  scopeToSection,
+  compareSections,
+} from '@/lib/attendanceReports'
+import type { AlertSeverity, StudentStatus } from '@/lib/attendanceReports'
+import {
+  buildReportPrompt,
+  buildProfilePrompt,
+  buildAlertPrompt,
+  buildCorrectionPrompt,
+  buildScheduledAlertMessage,
+  describeThresholds,
+  describeStatusRules,
+} from '@/lib/agentPrompts'
+import { checkReport, checkProfile, checkAlerts } from '@/lib/agentGuard'
+import type { GuardResult } from '@/lib/agentGuard'
+import { checkReportInvariants, checkProfileInvariants, checkAlertInvariants } from '@/lib/agentInvariants'
+import type { InvariantViolation } from '@/lib/agentInvariants'
+import {
+  readSpreadsheet,
+  guessColumnMapping,
+  buildImportPreview,
+  IMPORT_FIELDS,
+} from '@/lib/rosterImport'
+import type { ColumnMapping, ImportField, ImportRowKind } from '@/lib/rosterImport'
+import { buildCheckInUrl, parseCheckInPayload, renderQrDataUrl, decodeQrFromImage } from '@/lib/qrCheckIn'
+import { DEFAULT_SUBJECTS, SUBJECT_COLORS, isSubjectColor } from '@/lib/subjectCatalog'
+import type { SubjectColor } from '@/lib/subjectCatalog'
+import { Calendar } from '@/components/ui/calendar'
 
 import {
   FiHome,
@@ -38,6 +177,19 @@ import {
   FiX,
   FiMenu,
   FiArrowRight,
+  FiEdit2,
+  FiTrash2,
+  FiUpload,
+  FiSlash,
+  FiSquare,
+  FiGrid,
+  FiCamera,
+  FiMonitor,
+  FiClipboard,
+  FiSettings,
+  FiShield,
+  FiFilePlus,
+  FiPaperclip,
 } from 'react-icons/fi'
 
 // ============================================================================
@@ -52,8 +204,6 @@ const AGENT_IDS = {
 
 const SCHEDULE_ID = '69994f72399dfadeac37e0e8'
 
-const SUBJECTS = ['MEFA', 'DBMS', 'OS', 'JAVA', 'PYTHON'] as const
-
 const THEME_VARS = {
   '--background': '160 35% 96%',
   '--foreground': '160 35% 8%',
@@ -71,77 +221,33 @@ const THEME_VARS = {
   '--ring': '160 85% 35%',
 } as React.CSSProperties
 
-type NavTab = 'dashboard' | 'attendance' | 'reports' | 'profiles' | 'alerts' | 'sessions'
+const NAV_TABS = ['dashboard', 'attendance', 'reports', 'profiles', 'alerts', 'sessions', 'calendar', 'roster', 'subjects', 'leave', 'audit', 'settings'] as const
+
+type NavTab = typeof NAV_TABS[number]
 
 // ============================================================================
 // Interfaces
 // ============================================================================
 
-interface AttendanceReport {
-  subject?: string
-  total_students?: number
-  present_count?: number
-  absent_count?: number
-  attendance_percentage?: number
-  trend_summary?: string
-  absentee_list?: string[]
-  report_summary?: string
-}
-
-interface SubjectAttendance {
-  subject?: string
-  classes_attended?: number
-  total_classes?: number
-  percentage?: number
-}
-
-interface StudentProfile {
-  student_name?: string
-  roll_number?: string
-  overall_attendance_percentage?: number
-  subject_wise_attendance?: SubjectAttendance[]
-  status?: string
-  remarks?: string
-}
-
-interface AlertItem {
-  student_name?: string
-  roll_number?: string
-  subject?: string
-  attendance_percentage?: number
-  classes_missed?: number
-  severity?: string
-}
-
-interface AlertResponse {
-  alert_date?: string
-  threshold_percentage?: number
-  alerts?: AlertItem[]
-  total_alerts?: number
-  summary?: string
-}
-
-interface AttendanceSession {
-  id: string
-  subject: string
-  code: string
-  date: string
-  time: string
-  duration: number
-  attendees: string[]
-}
-
-interface AttendanceRecord {
-  name: string
-  rollNumber: string
-  code: string
-  subject: string
-  timestamp: string
+/** What was found when checking one agent response */
+interface AgentReview {
+  /** Comparison with recorded attendance, when the agent was sent any */
+  check?: GuardResult
+  /** Places where the response contradicts itself (after any re-ask) */
+  violations: InvariantViolation[]
+  /** Fields repaired to fit the agent's response schema */
+  warnings: CoercionWarning[]
+  /** Whether the agent was re-asked because of violations */
+  retried: boolean
 }
 
 interface ProfileQuery {
   query: string
+  /** Roster student the query resolved to; their figures are computed locally */
+  rollNumber?: string
+  /** Agent response, used for its remarks only */
   result: StudentProfile | null
+  review?: AgentReview
   error?: string
   timestamp: string
 }
@@ -150,54 +256,60 @@ interface ProfileQuery {
 // Helpers
 // ============================================================================
 
-function parseAgentResponse<T>(result: Record<string, unknown> | undefined | null): T | null {
-  if (!result) return null
-  try {
-    const response = result.response as Record<string, unknown> | string | undefined
-    if (!response) return null
-
-    let respObj: Record<string, unknown>
-    if (typeof response === 'string') {
-      try {
-        respObj = JSON.parse(response)
-      } catch (_e) {
-        return null
-      }
-    } else {
-      respObj = response
-    }
+interface AgentAnswer<T> {
+  success: boolean
+  data: T | null
+  violations: InvariantViolation[]
+  /** Fields repaired to fit the agent's response schema */
+  warnings: CoercionWarning[]
+  retried: boolean
+  error?: string
+}
 
-    let data = respObj?.result
-    if (typeof data === 'string') {
-      try {
-        data = JSON.parse(data)
-      } catch (_e) {
-        // leave as string
-      }
-    }
+function describeSchemaFailure(issues: string[]): string {
+  const listed = issues.slice(0, 3).join('; ')
+  return `The agent's response did not match its schema (${listed}${issues.length > 3 ? `; ${issues.length - 3} more` : ''}).`
+}
 
-    if (data && typeof data === 'object') {
-      return data as T
-    }
+/**
+ * Call an agent, validate its response against the agent's schema and check
+ * it against `invariants`. With `retry` on, a response that contradicts itself
+ * is re-asked once with the violations listed; the second answer replaces the
+ * first only if it passes its schema.
+ */
+async function askAgent<T>(
+  message: string,
+  agentId: string,
+  invariants: (data: T) => InvariantViolation[],
+  retry: boolean
+): Promise<AgentAnswer<T>> {
+  const first = await callAgent<T>(message, agentId)
+  if (first.kind === 'error') return { success: false, data: null, violations: [], warnings: [], retried: false, error: first.error }
+  if (first.kind === 'invalid') {
+    return { success: false, data: null, violations: [], warnings: [], retried: false, error: describeSchemaFailure(first.issues) }
+  }
 
-    // fallback: maybe the response itself is the data
-    if (respObj && typeof respObj === 'object' && !Array.isArray(respObj)) {
-      return respObj as unknown as T
+  const violations = invariants(first.data)
+  const warnings = first.kind === 'coerced' ? first.warnings : []
+  if (violations.length === 0 || !retry) return { success: true, data: first.data, violations, warnings, retried: false }
+
+  const second = await callAgent<T>(buildCorrectionPrompt(message, violations), agentId)
+  if (second.kind === 'valid' || second.kind === 'coerced') {
+    return {
+      success: true,
+      data: second.data,
+      violations: invariants(second.data),
+      warnings: second.kind === 'coerced' ? second.warnings : [],
+      retried: true,
     }
-
-    return null
-  } catch (_e) {
-    return null
   }
+  return { success: true, data: first.data, violations, warnings, retried: true }
 }
 
-function generateCode(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
-  let code = ''
-  for (let i = 0; i < 6; i++) {
-    code += chars[Math.floor(Math.random() * chars.length)]
-  }
-  return code
+/** Log a guard result for the agent's discrepancy rate. Sample data is never logged. */
+function logGuardResult(agentId: string, kind: AgentCheckKind, check: GuardResult, useSample: boolean) {
+  if (useSample || check.fieldsChecked === 0) return
+  void logAgentCheck({ agentId, kind, fieldsChecked: check.fieldsChecked, discrepancies: check.discrepancies })
 }
 
 function renderMarkdown(text: string) {
@@ -260,52 +372,67 @@ function formatInline(text: string) {
   )
 }
 
+// Severities and statuses are computed by lib/attendanceReports, so only its labels are styled
+const SEVERITY_STYLES: Record<AlertSeverity, { row: string; badge: string }> = {
+  Warning: { row: 'bg-yellow-100 text-yellow-800 border-yellow-200', badge: 'bg-amber-400 text-amber-900' },
+  Critical: { row: 'bg-orange-100 text-orange-800 border-orange-200', badge: 'bg-orange-500 text-white' },
+  Severe: { row: 'bg-red-100 text-red-800 border-red-200', badge: 'bg-red-500 text-white' },
+}
+
+const STUDENT_STATUS_STYLES: Record<StudentStatus, string> = {
+  'Good Standing': 'bg-emerald-100 text-emerald-800 border-emerald-300',
+  'At Risk': 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  Critical: 'bg-red-100 text-red-800 border-red-300',
+  'No Data': 'bg-gray-100 text-gray-800 border-gray-300',
+}
+
 function getSeverityClasses(severity?: string): string {
-  const s = (severity ?? '').toLowerCase()
-  if (s === 'severe') return 'bg-red-100 text-red-800 border-red-200'
-  if (s === 'critical') return 'bg-orange-100 text-orange-800 border-orange-200'
-  if (s === 'warning') return 'bg-yellow-100 text-yellow-800 border-yellow-200'
-  return 'bg-gray-100 text-gray-800 border-gray-200'
+  return SEVERITY_STYLES[severity as AlertSeverity]?.row ?? 'bg-gray-100 text-gray-800 border-gray-200'
 }
 
 function getSeverityBadge(severity?: string): string {
-  const s = (severity ?? '').toLowerCase()
-  if (s === 'severe') return 'bg-red-500 text-white'
-  if (s === 'critical') return 'bg-orange-500 text-white'
-  if (s === 'warning') return 'bg-amber-400 text-amber-900'
-  return 'bg-gray-400 text-white'
+  return SEVERITY_STYLES[severity as AlertSeverity]?.badge ?? 'bg-gray-400 text-white'
 }
 
 function getStatusColor(status?: string): string {
-  const s = (status ?? '').toLowerCase()
-  if (s.includes('good')) return 'bg-emerald-100 text-emerald-800 border-emerald-300'
-  if (s.includes('risk')) return 'bg-yellow-100 text-yellow-800 border-yellow-300'
-  if (s.includes('critical')) return 'bg-red-100 text-red-800 border-red-300'
-  return 'bg-gray-100 text-gray-800 border-gray-300'
-}
-
-function getSubjectColor(index: number): string {
-  const colors = [
-    'bg-emerald-500',
-    'bg-amber-500',
-    'bg-purple-500',
-    'bg-blue-500',
-    'bg-rose-500',
-  ]
-  return colors[index % colors.length] ?? 'bg-gray-500'
+  return STUDENT_STATUS_STYLES[status as StudentStatus] ?? STUDENT_STATUS_STYLES['No Data']
 }
 
-function getSubjectLightColor(index: number): string {
-  const colors = [
-    'bg-emerald-50 text-emerald-700 border-emerald-200',
-    'bg-amber-50 text-amber-700 border-amber-200',
-    'bg-purple-50 text-purple-700 border-purple-200',
-    'bg-blue-50 text-blue-700 border-blue-200',
-    'bg-rose-50 text-rose-700 border-rose-200',
-  ]
-  return colors[index % colors.length] ?? 'bg-gray-50 text-gray-700'
+/** Tailwind classes for each catalog colour, spelled out so they survive purging. */
+const SUBJECT_COLOR_CLASSES: Record<SubjectColor, { solid: string; light: string }> = {
+  emerald: { solid: 'bg-emerald-500', light: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  amber: { solid: 'bg-amber-500', light: 'bg-amber-50 text-amber-700 border-amber-200' },
+  purple: { solid: 'bg-purple-500', light: 'bg-purple-50 text-purple-700 border-purple-200' },
+  blue: { solid: 'bg-blue-500', light: 'bg-blue-50 text-blue-700 border-blue-200' },
+  rose: { solid: 'bg-rose-500', light: 'bg-rose-50 text-rose-700 border-rose-200' },
+  cyan: { solid: 'bg-cyan-500', light: 'bg-cyan-50 text-cyan-700 border-cyan-200' },
+  indigo: { solid: 'bg-indigo-500', light: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
+  orange: { solid: 'bg-orange-500', light: 'bg-orange-50 text-orange-700 border-orange-200' },
+}
+
+function subjectColorClasses(subjects: Subject[], code?: string): { solid: string; light: string } | null {
+  const color = subjects.find(s => s.code === code)?.color
+  return isSubjectColor(color) ? SUBJECT_COLOR_CLASSES[color] : null
 }
 
+function getSubjectColor(subjects: Subject[], code?: string): string {
+  return subjectColorClasses(subjects, code)?.solid ?? 'bg-gray-500'
+}
+
+function getSubjectLightColor(subjects: Subject[], code?: string): string {
+  return subjectColorClasses(subjects, code)?.light ?? 'bg-gray-50 text-gray-700 border-gray-200'
+}
+
+/** Label, register shortcut key and colours for each attendance status. */
+const ATTENDANCE_STATUS_STYLES: Record<AttendanceStatus, { label: string; key: string; className: string; activeClassName: string }> = {
+  present: { label: 'Present', key: 'P', className: 'bg-emerald-100 text-emerald-700', activeClassName: 'bg-emerald-600 text-white border-emerald-600' },
+  late: { label: 'Late', key: 'L', className: 'bg-amber-100 text-amber-800', activeClassName: 'bg-amber-500 text-white border-amber-500' },
+  absent: { label: 'Absent', key: 'A', className: 'bg-red-100 text-red-700', activeClassName: 'bg-red-600 text-white border-red-600' },
+  excused: { label: 'Excused', key: 'E', className: 'bg-blue-100 text-blue-700', activeClassName: 'bg-blue-600 text-white border-blue-600' },
+}
+
+const ATTENDANCE_STATUS_ORDER: AttendanceStatus[] = ['present', 'late', 'absent', 'excused']
+
 // ============================================================================
 // Sample Data
 // ============================================================================
@@ -341,27 +468,369 @@ const SAMPLE_ALERTS: AlertResponse = {
   threshold_percentage: 75,
   alerts: [
     { student_name: 'Rahul Sharma', roll_number: '101', subject: 'DBMS', attendance_percentage: 62.5, classes_missed: 9, severity: 'Severe' },
-    { student_name: 'Rahul Sharma', roll_number: '101', subject: 'JAVA', attendance_percentage: 63.6, classes_missed: 8, severity: 'Critical' },
+    { student_name: 'Rahul Sharma', roll_number: '101', subject: 'JAVA', attendance_percentage: 63.6, classes_missed: 8, severity: 'Severe' },
     { student_name: 'Priya Patel', roll_number: '108', subject: 'OS', attendance_percentage: 70.0, classes_missed: 7, severity: 'Warning' },
     { student_name: 'Amit Kumar', roll_number: '115', subject: 'MEFA', attendance_percentage: 68.2, classes_missed: 7, severity: 'Critical' },
     { student_name: 'Sneha Reddy', roll_number: '122', subject: 'PYTHON', attendance_percentage: 71.4, classes_missed: 6, severity: 'Warning' },
   ],
   total_alerts: 5,
-  summary: '5 attendance alerts generated. 1 severe case (Rahul Sharma in DBMS at 62.5%), 2 critical cases, and 2 warnings. Recommend faculty counseling for students with severe/critical alerts.',
+  summary: '5 attendance alerts generated. 2 severe cases (Rahul Sharma in DBMS at 62.5% and JAVA at 63.6%), 1 critical case, and 2 warnings. Recommend faculty counseling for students with severe/critical alerts.',
 }
 
 const SAMPLE_SESSIONS: AttendanceSession[] = [
-  { id: '1', subject: 'DBMS', code: 'DB3X7K', date: '2025-02-21', time: '09:00', duration: 60, attendees: ['101', '102', '103'] },
+  {
+    id: '1', subject: 'DBMS', section: 'A', code: 'DB3X7K', date: '2025-02-21', time: '09:00', duration: 60, attendees: ['101', '102', '103'],
+    proxy_flags: [{ deviceId: 'sample-device', rollNumbers: ['102', '103'], flagged_at: '2025-02-21T09:04:00' }],
+  },
   { id: '2', subject: 'OS', code: 'OS9P2M', date: '2025-02-21', time: '11:00', duration: 60, attendees: ['101', '104'] },
-  { id: '3', subject: 'JAVA', code: 'JV5T8N', date: '2025-02-21', time: '14:00', duration: 90, attendees: [] },
+  { id: '3', subject: 'JAVA', code: 'JV5T8N', date: '2025-02-21', time: '14:00', duration: 90, attendees: [], cancelled_at: '2025-02-21T12:30:00' },
 ]
 
 const SAMPLE_RECORDS: AttendanceRecord[] = [
-  { name: 'Rahul Sharma', rollNumber: '101', code: 'DB3X7K', subject: 'DBMS', timestamp: '2025-02-21T09:02:00' },
-  { name: 'Priya Patel', rollNumber: '108', code: 'DB3X7K', subject: 'DBMS', timestamp: '2025-02-21T09:03:00' },
-  { name: 'Amit Kumar', rollNumber: '115', code: 'OS9P2M', subject: 'OS', timestamp: '2025-02-21T11:05:00' },
+  { id: 'r1', sessionId: '1', name: 'Rahul Sharma', rollNumber: '101', code: 'DB3X7K', subject: 'DBMS', timestamp: '2025-02-21T09:02:00' },
+  { id: 'r2', sessionId: '1', name: 'Priya Patel', rollNumber: '108', code: 'DB3X7K', subject: 'DBMS', timestamp: '2025-02-21T09:13:00', status: 'late' },
+  { id: 'r3', sessionId: '2', name: 'Amit Kumar', rollNumber: '115', code: 'OS9P2M', subject: 'OS', timestamp: '2025-02-21T11:05:00' },
+]
+
+const SAMPLE_LEAVES: LeaveRequest[] = [
+  {
+    id: 'l1', rollNumber: '115', name: 'Amit Kumar', from: '2025-02-24', to: '2025-02-26', subjects: ['OS', 'PYTHON'],
+    reason: 'Fever, advised rest by doctor', attachments: [{ asset_id: 'sample-asset', file_name: 'medical-certificate.pdf' }],
+    status: 'pending', submitted_at: '2025-02-23T18:30:00',
+  },
+  {
+    id: 'l2', rollNumber: '122', name: 'Sneha Reddy', from: '2025-02-20', to: '2025-02-21', subjects: ['DBMS'],
+    reason: 'Representing the college at the inter-university hackathon', attachments: [],
+    status: 'approved', submitted_at: '2025-02-18T10:00:00', reviewedBy: 'Dr. Rao', reviewed_at: '2025-02-19T09:00:00',
+  },
+]
+
+const SAMPLE_AUDIT: AuditEntry[] = [
+  {
+    id: 'a1', at: '2025-02-21T10:15:00', actor: 'Dr. Rao', action: 'update', recordId: 'r2', rollNumber: '108', name: 'Priya Patel', sessionId: '1',
+    before: { sessionId: '1', subject: 'DBMS', code: 'DB3X7K', status: 'present' },
+    after: { sessionId: '1', subject: 'DBMS', code: 'DB3X7K', status: 'late', markedBy: 'Dr. Rao' },
+    reason: 'Arrived after the roll call',
+  },
+  {
+    id: 'a2', at: '2025-02-21T09:20:00', actor: 'Dr. Rao', action: 'register', recordId: 'r1', rollNumber: '101', name: 'Rahul Sharma', sessionId: '1',
+    before: null,
+    after: { sessionId: '1', subject: 'DBMS', code: 'DB3X7K', status: 'present', markedBy: 'Dr. Rao' },
+    reason: 'Marked from the register',
+  },
+]
+
+const SAMPLE_STUDENTS: Student[] = [
+  { id: 's1', rollNumber: '101', name: 'Rahul Sharma', section: 'A', subjects: ['MEFA', 'DBMS', 'OS', 'JAVA', 'PYTHON'] },
+  { id: 's2', rollNumber: '102', name: 'Kavya Iyer', section: 'A', subjects: ['MEFA', 'DBMS', 'OS', 'JAVA', 'PYTHON'] },
+  { id: 's3', rollNumber: '108', name: 'Priya Patel', section: 'A', subjects: ['DBMS', 'OS', 'JAVA'] },
+  { id: 's4', rollNumber: '115', name: 'Amit Kumar', section: 'B', subjects: ['MEFA', 'OS', 'PYTHON'] },
+  { id: 's5', rollNumber: '122', name: 'Sneha Reddy', section: 'B', subjects: ['MEFA', 'DBMS', 'PYTHON'] },
+]
+
+const SAMPLE_SUBJECTS: Subject[] = DEFAULT_SUBJECTS.map(subject => ({ ...subject, id: `sub-${subject.code}` }))
+
+const SAMPLE_TERMS: AcademicTerm[] = [
+  { id: 't1', name: 'Odd Semester 2024', start: '2024-07-15', end: '2024-12-14' },
+  { id: 't2', name: 'Even Semester 2025', start: '2025-01-06', end: '2025-05-31' },
 ]
 
+const SAMPLE_CALENDAR: CalendarEntry[] = [
+  { id: 'c1', kind: 'holiday', label: 'Maha Shivaratri', from: '2025-02-26', to: '2025-02-26', blocking: true },
+  { id: 'c2', kind: 'cancelled', label: 'Annual sports day', from: '2025-03-07', to: '2025-03-07', blocking: true },
+  { id: 'c3', kind: 'holiday', label: 'Holi', from: '2025-03-14', to: '2025-03-14', blocking: true },
+  { id: 'c4', kind: 'exam', label: 'Mid-semester exams', from: '2025-03-17', to: '2025-03-22', blocking: false },
+]
+
+// ============================================================================
+// Subject Catalog
+// ============================================================================
+
+/** The subject catalog every tab draws its subject lists and colours from. */
+function useSubjectCatalog(useSample: boolean) {
+  const [subjects, setSubjects] = useState<Subject[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    const res = await listSubjects()
+    if (res.success) {
+      setSubjects(res.subjects)
+      setError(null)
+    } else {
+      setError(res.error ?? 'Failed to load subjects.')
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (useSample) {
+      setSubjects(SAMPLE_SUBJECTS)
+      setError(null)
+    } else {
+      reload()
+    }
+  }, [useSample, reload])
+
+  return { subjects, loading, error, reload }
+}
+
+// ============================================================================
+// Academic Terms
+// ============================================================================
+
+/** The term calendar plus the term the app is showing; `term` is null when no terms exist. */
+interface TermScope {
+  terms: AcademicTerm[]
+  term: AcademicTerm | null
+}
+
+const TERM_STATUS_STYLES: Record<TermStatus, { label: string; className: string }> = {
+  upcoming: { label: 'Upcoming', className: 'bg-blue-100 text-blue-700' },
+  current: { label: 'Current', className: 'bg-emerald-100 text-emerald-700' },
+  archived: { label: 'Archived', className: 'bg-gray-200 text-gray-600' },
+}
+
+/** The term calendar and the id of the term to open on. */
+function useAcademicTerms(useSample: boolean) {
+  const [terms, setTerms] = useState<AcademicTerm[]>([])
+  const [current, setCurrent] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    const res = await listTerms()
+    if (res.success) {
+      setTerms(res.terms)
+      setCurrent(res.current)
+      setError(null)
+    } else {
+      setError(res.error ?? 'Failed to load academic terms.')
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (useSample) {
+      setTerms(SAMPLE_TERMS)
+      setCurrent(defaultTerm(SAMPLE_TERMS)?.id ?? null)
+      setError(null)
+    } else {
+      reload()
+    }
+  }, [useSample, reload])
+
+  return { terms, current, loading, error, reload }
+}
+
+function TermSwitcher({ scope, onSelect }: { scope: TermScope; onSelect: (id: string) => void }) {
+  const { terms, term } = scope
+  if (terms.length === 0) return null
+  const status = term ? termStatus(term) : null
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <FiCalendar className="w-4 h-4 text-emerald-600" />
+        <span className="text-sm text-gray-600">Term</span>
+        <select
+          value={term?.id ?? ''}
+          onChange={e => onSelect(e.target.value)}
+          className="px-3 py-1.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+        >
+          {terms.map(t => (
+            <option key={t.id} value={t.id}>{t.name} ({t.start} to {t.end})</option>
+          ))}
+        </select>
+        {status && (
+          <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${TERM_STATUS_STYLES[status].className}`}>
+            {TERM_STATUS_STYLES[status].label}
+          </span>
+        )}
+      </div>
+      {term && status === 'archived' && (
+        <InlineMessage type="info" message={`${term.name} is archived. Its sessions and records can be browsed but not changed.`} />
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// Institution Calendar
+// ============================================================================
+
+const CALENDAR_KIND_STYLES: Record<CalendarDayKind, { label: string; className: string; dayClassName: string }> = {
+  holiday: { label: 'Holiday', className: 'bg-rose-100 text-rose-700', dayClassName: 'bg-rose-100 text-rose-700 rounded-md' },
+  exam: { label: 'Exam', className: 'bg-amber-100 text-amber-700', dayClassName: 'bg-amber-100 text-amber-700 rounded-md' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-200 text-gray-600', dayClassName: 'bg-gray-200 text-gray-500 line-through rounded-md' },
+}
+
+/** Holidays, exam weeks and cancelled days, shared by the calendar and session tabs. */
+function useInstitutionCalendar(useSample: boolean) {
+  const [entries, setEntries] = useState<CalendarEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    const res = await listCalendar()
+    if (res.success) {
+      setEntries(res.entries)
+      setError(null)
+    } else {
+      setError(res.error ?? 'Failed to load the institution calendar.')
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (useSample) {
+      setEntries(SAMPLE_CALENDAR)
+      setError(null)
+    } else {
+      reload()
+    }
+  }, [useSample, reload])
+
+  return { entries, loading, error, reload }
+}
+
+// ============================================================================
+// Recorded Attendance
+// ============================================================================
+
+/**
+ * Stored sessions, records and roster plus the percentage policy, flattened
+ * into per-student marks. Only sessions in the selected term count, and the
+ * thresholds are that term's (see thresholdsForTerm). Reports and profiles
+ * show these next to the agent output so recorded statuses are always visible.
+ */
+function useRecordedAttendance(useSample: boolean, scope: TermScope) {
+  const [sessions, setSessions] = useState<AttendanceSession[]>([])
+  const [records, setRecords] = useState<AttendanceRecord[]>([])
+  const [students, setStudents] = useState<Student[]>([])
+  const [policy, setPolicy] = useState<AttendancePolicy>(DEFAULT_ATTENDANCE_POLICY)
+  const [thresholds, setThresholds] = useState<ThresholdSettings>(DEFAULT_THRESHOLD_SETTINGS)
+  const [rules, setRules] = useState<SeverityRules>(DEFAULT_SEVERITY_RULES)
+  const [leaves, setLeaves] = useState<LeaveRequest[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const [sessionsRes, recordsRes, studentsRes, settingsRes, leavesRes] = await Promise.all([
+      listSessions(),
+      listCheckIns(),
+      listStudents(),
+      getSettings(),
+      listLeaveRequests({ status: 'approved' }),
+    ])
+    setSessions(sessionsRes.sessions)
+    setRecords(recordsRes.records)
+    setStudents(studentsRes.students)
+    setLeaves(leavesRes.leaves)
+    if (settingsRes.policy) setPolicy(settingsRes.policy)
+    if (settingsRes.thresholds) setThresholds(settingsRes.thresholds)
+    if (settingsRes.severity) setRules(settingsRes.severity)
+    const failed = [sessionsRes, recordsRes, studentsRes, settingsRes, leavesRes].find(res => !res.success)
+    if (failed) setError(failed.error ?? 'Failed to load recorded attendance.')
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (useSample) {
+      setSessions(SAMPLE_SESSIONS)
+      setRecords(SAMPLE_RECORDS)
+      setStudents(SAMPLE_STUDENTS)
+      setPolicy(DEFAULT_ATTENDANCE_POLICY)
+      setThresholds(DEFAULT_THRESHOLD_SETTINGS)
+      setRules(DEFAULT_SEVERITY_RULES)
+      setLeaves(SAMPLE_LEAVES.filter(l => l.status === 'approved'))
+      setError(null)
+    } else {
+      reload()
+    }
+  }, [useSample, reload])
+
+  const termSessions = useMemo(
+    () => sessionsInTerm(sessions, scope.terms, scope.term),
+    [sessions, scope]
+  )
+  const marks = useMemo(
+    () => collectMarks(termSessions, records, students, leaves),
+    [termSessions, records, students, leaves]
+  )
+
+  const termThresholds = useMemo(
+    () => thresholdsForTerm(thresholds, scope.term?.id),
+    [thresholds, scope]
+  )
+
+  return { sessions: termSessions, records, students, policy, thresholds: termThresholds, rules, marks, loading, error, reload }
+}
+
+function StatusCountPills({ marks }: { marks: Pick<AttendanceMark, 'status'>[] }) {
+  const counts = countStatuses(marks)
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {ATTENDANCE_STATUS_ORDER.map(st => (
+        <span key={st} className={`text-xs font-medium px-2 py-0.5 rounded-full ${ATTENDANCE_STATUS_STYLES[st].className}`}>
+          {ATTENDANCE_STATUS_STYLES[st].label} {counts[st]}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+/** Per-subject status breakdown for one student's recorded marks. */
+function RecordedStatusTable({ marks, policy }: { marks: AttendanceMark[]; policy: AttendancePolicy }) {
+  if (marks.length === 0) return null
+  const subjects = Array.from(new Set(marks.map(m => m.subject))).sort()
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-semibold text-gray-700 mb-1">Recorded Statuses</h4>
+      <p className="text-xs text-gray-400 mb-3">{describePolicy(policy)}</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Subject</th>
+              {ATTENDANCE_STATUS_ORDER.map(st => (
+                <th key={st} className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">
+                  {ATTENDANCE_STATUS_STYLES[st].label}
+                </th>
+              ))}
+              <th className="text-right py-2 px-2 text-xs font-semibold text-gray-500 uppercase">%</th>
+            </tr>
+          </thead>
+          <tbody>
+            {subjects.map(subject => {
+              const counts = countStatuses(marks.filter(m => m.subject === subject))
+              const pct = attendancePercentage(counts, policy)
+              return (
+                <tr key={subject} className="border-b border-gray-100 last:border-0">
+                  <td className="py-2 px-2 font-medium text-gray-700">{subject}</td>
+                  {ATTENDANCE_STATUS_ORDER.map(st => (
+                    <td key={st} className="text-center py-2 px-2 text-gray-700">{counts[st]}</td>
+                  ))}
+                  <td className="text-right py-2 px-2 font-semibold text-gray-800">{pct === null ? '--' : `${pct}%`}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function describePolicy(policy: AttendancePolicy): string {
+  return `Late ${policy.lateCountsAsPresent ? 'counts as present' : 'does not count as present'}; excused sessions, including approved leave, are left out.`
+}
+
 // ============================================================================
 // ErrorBoundary
 // ============================================================================
@@ -496,23 +965,141 @@ function ProgressBar({ value, max = 100, color = 'bg-emerald-500' }: { value: nu
   )
 }
 
+const MAX_LISTED_VALUES = 8
+
+function formatCheckedList(values: unknown[]): string {
+  if (values.length === 0) return 'none'
+  const listed = values.slice(0, MAX_LISTED_VALUES).map(String).join(', ')
+  return values.length > MAX_LISTED_VALUES ? `${listed} and ${values.length - MAX_LISTED_VALUES} more` : listed
+}
+
+/** Agent-side value of a discrepancy; list fields carry `{ extra, missing }`. */
+function formatCheckedValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '--'
+  if (Array.isArray(value)) return formatCheckedList(value)
+  if (typeof value === 'object') {
+    const { extra = [], missing = [] } = value as { extra?: unknown[]; missing?: unknown[] }
+    return [
+      extra.length > 0 ? `added ${formatCheckedList(extra)}` : '',
+      missing.length > 0 ? `left out ${formatCheckedList(missing)}` : '',
+    ].filter(Boolean).join('; ')
+  }
+  return String(value)
+}
+
+function DiscrepancyBanner({ check }: { check: GuardResult }) {
+  const [open, setOpen] = useState(false)
+  if (check.discrepancies.length === 0) return null
+
+  return (
+    <div className="rounded-xl border border-amber-200 bg-amber-50 text-sm text-amber-800">
+      <div className="flex items-center gap-2 px-4 py-3">
+        <FiAlertTriangle className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1">
+          The agent&apos;s figures differed from recorded attendance in {check.discrepancies.length} of {check.fieldsChecked} fields. The figures shown here are the recorded ones.
+        </span>
+        <button onClick={() => setOpen(!open)} className="text-xs font-medium underline hover:opacity-70 whitespace-nowrap">
+          {open ? 'Hide details' : 'View corrected values'}
+        </button>
+      </div>
+      {open && (
+        <div className="overflow-x-auto border-t border-amber-200 px-4 py-2">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-amber-700">
+                <th className="py-1.5 pr-3 font-semibold">Field</th>
+                <th className="py-1.5 pr-3 font-semibold">Agent said</th>
+                <th className="py-1.5 font-semibold">Recorded</th>
+              </tr>
+            </thead>
+            <tbody>
+              {check.discrepancies.map(d => (
+                <tr key={d.field} className="border-t border-amber-100 align-top">
+                  <td className="py-1.5 pr-3 font-mono">{d.field}</td>
+                  <td className="py-1.5 pr-3 line-through opacity-75">{formatCheckedValue(d.agent)}</td>
+                  <td className="py-1.5 font-medium">{formatCheckedValue(d.expected)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ConsistencyNotice({ violations, retried }: { violations: InvariantViolation[]; retried: boolean }) {
+  if (violations.length === 0) {
+    return retried ? <InlineMessage type="info" message="The agent's first answer contradicted itself; it was re-asked and the corrected answer is shown." /> : null
+  }
+  return (
+    <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+      <div className="flex items-center gap-2 mb-1.5">
+        <FiAlertCircle className="w-4 h-4 flex-shrink-0" />
+        <span className="font-medium">
+          The agent&apos;s response contradicts itself{retried ? ', even after it was re-asked' : ''}. Treat its narrative with care.
+        </span>
+      </div>
+      <ul className="space-y-0.5 pl-6 text-xs">
+        {violations.map((v, i) => (
+          <li key={i}>
+            <span className="font-mono">{v.field}</span> {v.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+const COERCION_LABELS: Record<CoercionWarning['kind'], string> = {
+  percent: 'percent text read as a number',
+  number: 'number text read as a number',
+  string: 'value read as text',
+  boolean: 'text read as true/false',
+  array: 'single value read as a list',
+  enum: 'label case corrected',
+  null: 'empty value dropped',
+}
+
+function AgentReviewNotices({ review }: { review: AgentReview }) {
+  const repaired = review.warnings.map(w => `${w.path || 'response'} (${COERCION_LABELS[w.kind]})`)
+  return (
+    <>
+      {review.check && <DiscrepancyBanner check={review.check} />}
+      <ConsistencyNotice violations={review.violations} retried={review.retried} />
+      {repaired.length > 0 && (
+        <InlineMessage type="info" message={`Adjusted ${repaired.length} field${repaired.length === 1 ? '' : 's'} to fit the response format: ${formatCheckedList(repaired)}`} />
+      )}
+    </>
+  )
+}
+
 // ============================================================================
 // Dashboard Tab
 // ============================================================================
 
-function DashboardTab({ useSample }: { useSample: boolean }) {
+const SAMPLE_SUBJECT_STATS: Record<string, { pct: number; trend: 'up' | 'down' }> = {
+  MEFA: { pct: 84.2, trend: 'up' },
+  DBMS: { pct: 86.7, trend: 'up' },
+  OS: { pct: 78.3, trend: 'down' },
+  JAVA: { pct: 71.5, trend: 'down' },
+  PYTHON: { pct: 89.1, trend: 'up' },
+}
+
+function DashboardTab({ useSample, subjects, termScope }: { useSample: boolean; subjects: Subject[]; termScope: TermScope }) {
   const [mounted, setMounted] = useState(false)
   useEffect(() => { setMounted(true) }, [])
+  const recorded = useRecordedAttendance(useSample, termScope)
 
-  const subjectStats = useSample
-    ? [
-        { name: 'MEFA', pct: 84.2, trend: 'up' },
-        { name: 'DBMS', pct: 86.7, trend: 'up' },
-        { name: 'OS', pct: 78.3, trend: 'down' },
-        { name: 'JAVA', pct: 71.5, trend: 'down' },
-        { name: 'PYTHON', pct: 89.1, trend: 'up' },
-      ]
-    : []
+  // One row per catalog subject; recorded percentages have no trend yet
+  const subjectStats = subjects.map(subject => {
+    if (useSample) {
+      const stats = SAMPLE_SUBJECT_STATS[subject.code]
+      return { subject, pct: stats?.pct ?? null, trend: stats?.trend }
+    }
+    const counts = countStatuses(recorded.marks.filter(m => m.subject === subject.code))
+    return { subject, pct: attendancePercentage(counts, recorded.policy), trend: undefined }
+  })
 
   const recentActivity = useSample
     ? [
@@ -536,7 +1123,7 @@ function DashboardTab({ useSample }: { useSample: boolean }) {
           icon={<FiUsers className="w-5 h-5 text-emerald-600" />}
           label="Total Students"
           value={useSample ? 60 : '--'}
-          subtext={useSample ? 'Across 5 subjects' : 'No data yet'}
+          subtext={useSample ? `Across ${subjects.length} subjects` : 'No data yet'}
           color="bg-emerald-50"
         />
         <StatCard
@@ -570,27 +1157,27 @@ function DashboardTab({ useSample }: { useSample: boolean }) {
           </h2>
           {subjectStats.length > 0 ? (
             <div className="space-y-4">
-              {subjectStats.map((s, i) => (
-                <div key={s.name} className="space-y-1.5">
+              {subjectStats.map(s => (
+                <div key={s.subject.code} className="space-y-1.5">
                   <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium text-gray-700">{s.name}</span>
+                    <span className="text-sm font-medium text-gray-700" title={s.subject.name}>
+                      {s.subject.code}
+                      <span className="ml-2 text-xs font-normal text-gray-400">{s.subject.name}</span>
+                    </span>
                     <div className="flex items-center gap-2">
-                      {s.trend === 'up' ? (
-                        <FiTrendingUp className="w-3.5 h-3.5 text-emerald-500" />
-                      ) : (
-                        <FiTrendingDown className="w-3.5 h-3.5 text-red-500" />
-                      )}
-                      <span className="text-sm font-semibold text-gray-900">{s.pct}%</span>
+                      {s.trend === 'up' && <FiTrendingUp className="w-3.5 h-3.5 text-emerald-500" />}
+                      {s.trend === 'down' && <FiTrendingDown className="w-3.5 h-3.5 text-red-500" />}
+                      <span className="text-sm font-semibold text-gray-900">{s.pct === null ? 'No sessions yet' : `${s.pct}%`}</span>
                     </div>
                   </div>
-                  <ProgressBar value={s.pct} color={getSubjectColor(i)} />
+                  <ProgressBar value={s.pct ?? 0} color={getSubjectColor(subjects, s.subject.code)} />
                 </div>
               ))}
             </div>
           ) : (
             <div className="text-center py-8 text-gray-400">
               <FiBarChart2 className="w-10 h-10 mx-auto mb-2 opacity-40" />
-              <p className="text-sm">Enable Sample Data to see attendance overview</p>
+              <p className="text-sm">No subjects in the catalog yet. Add them on the Subjects screen.</p>
             </div>
           )}
         </GlassCard>
@@ -638,23 +1225,66 @@ function DashboardTab({ useSample }: { useSample: boolean }) {
 // Mark Attendance Tab
 // ============================================================================
 
-function MarkAttendanceTab({ useSample }: { useSample: boolean }) {
-  const [code, setCode] = useState('')
+function MarkAttendanceTab({ useSample, initialCode = '' }: { useSample: boolean; initialCode?: string }) {
+  const [code, setCode] = useState(initialCode)
   const [name, setName] = useState('')
   const [rollNumber, setRollNumber] = useState('')
   const [submitting, setSubmitting] = useState(false)
   const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
   const [records, setRecords] = useState<AttendanceRecord[]>([])
+  const [recordsLoading, setRecordsLoading] = useState(false)
+  const [scanning, setScanning] = useState(false)
+
+  useEffect(() => {
+    if (initialCode) setCode(initialCode)
+  }, [initialCode])
+
+  const handleScanImage = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setScanning(true)
+    setFeedback(null)
+    try {
+      const text = await decodeQrFromImage(file)
+      const scanned = text ? parseCheckInPayload(text) : null
+      if (scanned) {
+        setCode(scanned)
+        setFeedback({ type: 'success', message: `Code ${scanned} read from the QR image. Enter your details to check in.` })
+      } else {
+        setFeedback({
+          type: 'error',
+          message: text ? 'That QR code is not an attendance code.' : 'No QR code found. Try a sharper, closer photo.',
+        })
+      }
+    } catch (err) {
+      setFeedback({ type: 'error', message: err instanceof Error ? err.message : 'Could not read the image.' })
+    } finally {
+      setScanning(false)
+    }
+  }, [])
+
+  const loadRecords = useCallback(async () => {
+    setRecordsLoading(true)
+    const res = await listCheckIns()
+    if (res.success) {
+      setRecords(res.records)
+    } else {
+      setFeedback({ type: 'error', message: res.error ?? 'Failed to load check-ins.' })
+    }
+    setRecordsLoading(false)
+  }, [])
 
   useEffect(() => {
     if (useSample) {
       setRecords(SAMPLE_RECORDS)
     } else {
       setRecords([])
+      loadRecords()
     }
-  }, [useSample])
+  }, [useSample, loadRecords])
 
-  const handleSubmit = useCallback(() => {
+  const handleSubmit = useCallback(async () => {
     if (!code.trim() || !name.trim() || !rollNumber.trim()) {
       setFeedback({ type: 'error', message: 'Please fill in all fields.' })
       return
@@ -665,24 +1295,30 @@ function MarkAttendanceTab({ useSample }: { useSample: boolean }) {
     }
     setSubmitting(true)
     setFeedback(null)
-    // Simulate a brief delay for local CRUD
-    setTimeout(() => {
-      const subjects = ['MEFA', 'DBMS', 'OS', 'JAVA', 'PYTHON']
-      const detectedSubject = subjects[Math.floor(Math.random() * subjects.length)] ?? 'DBMS'
-      const newRecord: AttendanceRecord = {
+    try {
+      const res = await submitCheckIn({
+        code: code.trim().toUpperCase(),
         name: name.trim(),
         rollNumber: rollNumber.trim(),
-        code: code.trim().toUpperCase(),
-        subject: detectedSubject,
-        timestamp: new Date().toISOString(),
+      })
+      if (res.success && res.record) {
+        const saved = res.record
+        setRecords(prev => [saved, ...prev])
+        setFeedback({
+          type: 'success',
+          message: saved.status === 'late'
+            ? `Attendance marked for ${saved.name} in ${saved.subject}, recorded as late.`
+            : `Attendance marked for ${saved.name} in ${saved.subject}!`,
+        })
+        setCode('')
+        setName('')
+        setRollNumber('')
+      } else {
+        setFeedback({ type: 'error', message: res.error ?? 'Failed to mark attendance. Please try again.' })
       }
-      setRecords(prev => [newRecord, ...prev])
-      setFeedback({ type: 'success', message: `Attendance marked for ${name.trim()} in ${detectedSubject}!` })
-      setCode('')
-      setName('')
-      setRollNumber('')
+    } finally {
       setSubmitting(false)
-    }, 800)
+    }
   }, [code, name, rollNumber])
 
   return (
@@ -705,7 +1341,14 @@ function MarkAttendanceTab({ useSample }: { useSample: boolean }) {
                 placeholder="e.g. DB3X7K"
                 className="w-full px-4 py-3 rounded-xl border border-gray-200 bg-white/80 text-center text-2xl font-mono tracking-[0.3em] focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all"
               />
-              <p className="text-xs text-gray-400 mt-1.5">6-character alphanumeric code from your teacher</p>
+              <div className="flex items-center justify-between gap-2 mt-1.5">
+                <p className="text-xs text-gray-400">6-character alphanumeric code from your teacher</p>
+                <label className={`flex items-center gap-1 text-xs font-medium text-emerald-600 hover:text-emerald-700 cursor-pointer shrink-0 ${scanning ? 'opacity-50 pointer-events-none' : ''}`}>
+                  {scanning ? <FiLoader className="w-3.5 h-3.5 animate-spin" /> : <FiCamera className="w-3.5 h-3.5" />}
+                  Scan QR image
+                  <input type="file" accept="image/*" capture="environment" onChange={handleScanImage} className="hidden" />
+                </label>
+              </div>
             </div>
 
             <div>
@@ -759,10 +1402,12 @@ function MarkAttendanceTab({ useSample }: { useSample: boolean }) {
             <FiClock className="w-4 h-4 text-emerald-600" />
             Recent Check-ins
           </h3>
-          {records.length > 0 ? (
+          {recordsLoading ? (
+            <LoadingSkeleton lines={4} />
+          ) : records.length > 0 ? (
             <div className="space-y-3 max-h-[400px] overflow-y-auto pr-1">
-              {records.map((r, i) => (
-                <div key={i} className="p-3 rounded-lg bg-emerald-50/50 border border-emerald-100">
+              {records.map(r => (
+                <div key={r.id} className="p-3 rounded-lg bg-emerald-50/50 border border-emerald-100">
                   <div className="flex justify-between items-start">
                     <div>
                       <p className="text-sm font-medium text-gray-800">{r.name}</p>
@@ -771,7 +1416,15 @@ function MarkAttendanceTab({ useSample }: { useSample: boolean }) {
                     <span className="text-xs font-mono bg-white px-2 py-1 rounded-md border border-gray-200">{r.code}</span>
                   </div>
                   <div className="flex justify-between items-center mt-2">
-                    <span className="text-xs font-medium text-emerald-600">{r.subject}</span>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-medium text-emerald-600">{r.subject}</span>
+                      <span className={`text-[11px] font-medium px-1.5 py-0.5 rounded-full ${ATTENDANCE_STATUS_STYLES[recordStatus(r)].className}`}>
+                        {ATTENDANCE_STATUS_STYLES[recordStatus(r)].label}
+                      </span>
+                      {r.source === 'register' && r.markedBy && (
+                        <span className="text-[11px] text-gray-400">by {r.markedBy}</span>
+                      )}
+                    </div>
                     <span className="text-xs text-gray-400">{new Date(r.timestamp).toLocaleTimeString()}</span>
                   </div>
                 </div>
@@ -794,40 +1447,88 @@ function MarkAttendanceTab({ useSample }: { useSample: boolean }) {
 // Reports Tab
 // ============================================================================
 
-function ReportsTab({ useSample, setActiveAgent }: { useSample: boolean; setActiveAgent: (id: string | null) => void }) {
+function ReportsTab({
+  useSample,
+  subjects,
+  termScope,
+  setActiveAgent,
+}: {
+  useSample: boolean
+  subjects: Subject[]
+  termScope: TermScope
+  setActiveAgent: (id: string | null) => void
+}) {
   const [selectedSubject, setSelectedSubject] = useState('All Subjects')
+  const [selectedSection, setSelectedSection] = useState(ALL_SECTIONS)
   const [loading, setLoading] = useState(false)
-  const [report, setReport] = useState<AttendanceReport | null>(null)
+  const [narrative, setNarrative] = useState<{ subject: string; section: string; report: AttendanceReport; review?: AgentReview } | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const recorded = useRecordedAttendance(useSample, termScope)
 
   useEffect(() => {
     if (useSample) {
-      setReport(SAMPLE_REPORT)
+      setSelectedSubject(SAMPLE_REPORT.subject ?? 'All Subjects')
+      setSelectedSection(ALL_SECTIONS)
+      setNarrative({ subject: SAMPLE_REPORT.subject ?? 'All Subjects', section: ALL_SECTIONS, report: SAMPLE_REPORT })
     } else {
-      setReport(null)
+      setNarrative(null)
     }
   }, [useSample])
 
+  const subjectCode = selectedSubject === 'All Subjects' ? ALL_SUBJECTS : selectedSubject
+  const sections = useMemo(() => listSections(recorded.students), [recorded.students])
+  const scoped = useMemo(
+    () => scopeToSection(recorded.marks, recorded.students, selectedSection),
+    [recorded.marks, recorded.students, selectedSection]
+  )
+  const subjectMarks = selectedSubject === 'All Subjects'
+    ? scoped.marks
+    : scoped.marks.filter(m => m.subject === selectedSubject)
+  const computedReport = useMemo(
+    () => computeAttendanceReport(scoped.marks, scoped.students, recorded.policy, subjectCode),
+    [scoped, recorded.policy, subjectCode]
+  )
+  const comparison = useMemo(
+    () => compareSections(recorded.marks, recorded.students, recorded.policy, subjectCode, recorded.thresholds, recorded.rules),
+    [recorded.marks, recorded.students, recorded.policy, subjectCode, recorded.thresholds, recorded.rules]
+  )
+  const narrativeShown = narrative?.subject === selectedSubject && narrative.section === selectedSection
+  const report = withNarrative(
+    computedReport,
+    narrativeShown ? narrative.report : null,
+    REPORT_NARRATIVE_FIELDS
+  )
+  const scopeLabel = selectedSection === ALL_SECTIONS ? selectedSubject : `${selectedSubject} · Section ${selectedSection}`
+  const absentees = report.absentee_list ?? []
+  const hasNarrative = Boolean(report.trend_summary || report.report_summary)
+
   const handleGenerate = useCallback(async () => {
     setLoading(true)
     setError(null)
-    setReport(null)
+    setNarrative(null)
     setActiveAgent(AGENT_IDS.ATTENDANCE_REPORT)
 
     try {
-      const message = selectedSubject === 'All Subjects'
-        ? 'Generate attendance report for all subjects'
-        : `Generate attendance report for ${selectedSubject}`
-      const result = await callAIAgent(message, AGENT_IDS.ATTENDANCE_REPORT)
-      if (result.success) {
-        const parsed = parseAgentResponse<AttendanceReport>(result as unknown as Record<string, unknown>)
-        if (parsed) {
-          setReport(parsed)
-        } else {
-          setError('Could not parse the report response. Please try again.')
-        }
+      const message = buildReportPrompt({
+        subject: subjectCode,
+        section: selectedSection,
+        report: computedReport,
+        marks: scoped.marks,
+        policy: recorded.policy,
+        subjects,
+      })
+      const answer = await askAgent<AttendanceReport>(message, AGENT_IDS.ATTENDANCE_REPORT, checkReportInvariants, getAgentRetryEnabled())
+      if (answer.success) {
+        const check = checkReport(answer.data, computedReport)
+        setNarrative({
+          subject: selectedSubject,
+          section: selectedSection,
+          report: answer.data,
+          review: { check, violations: answer.violations, warnings: answer.warnings, retried: answer.retried },
+        })
+        logGuardResult(AGENT_IDS.ATTENDANCE_REPORT, 'report', check, useSample)
       } else {
-        setError(result.error ?? 'Failed to generate report. Please try again.')
+        setError(answer.error ?? 'Failed to generate report. Please try again.')
       }
     } catch (e) {
       setError('An unexpected error occurred. Please try again.')
@@ -835,15 +1536,13 @@ function ReportsTab({ useSample, setActiveAgent }: { useSample: boolean; setActi
       setLoading(false)
       setActiveAgent(null)
     }
-  }, [selectedSubject, setActiveAgent])
-
-  const absentees = Array.isArray(report?.absentee_list) ? report.absentee_list : []
+  }, [selectedSubject, selectedSection, subjectCode, setActiveAgent, computedReport, scoped.marks, recorded.policy, subjects, useSample])
 
   return (
     <div className="space-y-6">
       <div>
         <h2 className="text-2xl font-bold tracking-tight text-gray-900">Attendance Reports</h2>
-        <p className="text-gray-500 mt-1">Generate AI-powered attendance reports by subject</p>
+        <p className="text-gray-500 mt-1">Figures come from recorded attendance; the AI agent adds trend analysis and a summary</p>
       </div>
 
       <GlassCard className="p-6">
@@ -856,8 +1555,21 @@ function ReportsTab({ useSample, setActiveAgent }: { useSample: boolean; setActi
               className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
             >
               <option>All Subjects</option>
-              {SUBJECTS.map(s => (
-                <option key={s} value={s}>{s}</option>
+              {subjects.map(s => (
+                <option key={s.code} value={s.code}>{s.code} — {s.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="sm:w-48">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Section</label>
+            <select
+              value={selectedSection}
+              onChange={e => setSelectedSection(e.target.value)}
+              className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+            >
+              <option value={ALL_SECTIONS}>All Sections</option>
+              {sections.map(sec => (
+                <option key={sec} value={sec}>Section {sec}</option>
               ))}
             </select>
           </div>
@@ -881,104 +1593,192 @@ function ReportsTab({ useSample, setActiveAgent }: { useSample: boolean; setActi
         </div>
       </GlassCard>
 
+      <GlassCard className="p-5">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+              <FiCheckCircle className="w-4 h-4 text-emerald-600" />
+              Recorded Attendance — {scopeLabel}
+            </h3>
+            {recorded.loading ? (
+              <LoadingSkeleton lines={1} />
+            ) : subjectMarks.length > 0 ? (
+              <>
+                <StatusCountPills marks={subjectMarks} />
+                <p className="text-xs text-gray-400">{describePolicy(recorded.policy)}</p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-400">No marks recorded for started sessions yet.</p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {!useSample && (
+              <button onClick={recorded.reload} disabled={recorded.loading} className="text-emerald-600 hover:text-emerald-700" title="Refresh recorded attendance">
+                <FiRefreshCw className={`w-3.5 h-3.5 ${recorded.loading ? 'animate-spin' : ''}`} />
+              </button>
+            )}
+          </div>
+        </div>
+        {recorded.error && <p className="text-xs text-red-600 mt-2">{recorded.error}</p>}
+      </GlassCard>
+
       {error && (
         <InlineMessage type="error" message={error} onDismiss={() => setError(null)} />
       )}
 
-      {loading && (
-        <GlassCard className="p-6">
-          <LoadingSkeleton lines={6} />
-        </GlassCard>
+      {narrativeShown && narrative.review && (
+        <AgentReviewNotices review={narrative.review} />
       )}
 
-      {!loading && report && (
-        <div className="space-y-4">
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-            <StatCard
-              icon={<FiBook className="w-5 h-5 text-emerald-600" />}
-              label="Subject"
-              value={report.subject ?? '--'}
-              color="bg-emerald-50"
-            />
-            <StatCard
-              icon={<FiUsers className="w-5 h-5 text-blue-600" />}
-              label="Total Students"
-              value={report.total_students ?? '--'}
-              subtext={`${report.present_count ?? 0} present / ${report.absent_count ?? 0} absent`}
-              color="bg-blue-50"
-            />
-            <StatCard
-              icon={<FiBarChart2 className="w-5 h-5 text-purple-600" />}
-              label="Attendance %"
-              value={`${report.attendance_percentage ?? 0}%`}
-              color="bg-purple-50"
-            />
-            <StatCard
-              icon={<FiAlertTriangle className="w-5 h-5 text-amber-600" />}
-              label="Absent Count"
-              value={report.absent_count ?? 0}
-              color="bg-amber-50"
-            />
-          </div>
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <StatCard
+            icon={<FiBook className="w-5 h-5 text-emerald-600" />}
+            label="Subject"
+            value={report.subject ?? '--'}
+            color="bg-emerald-50"
+          />
+          <StatCard
+            icon={<FiUsers className="w-5 h-5 text-blue-600" />}
+            label="Total Students"
+            value={report.total_students ?? '--'}
+            subtext={`${report.present_count ?? 0} present / ${report.absent_count ?? 0} absent on the latest class day, excused left out`}
+            color="bg-blue-50"
+          />
+          <StatCard
+            icon={<FiBarChart2 className="w-5 h-5 text-purple-600" />}
+            label="Attendance %"
+            value={`${report.attendance_percentage ?? 0}%`}
+            subtext="Latest class day"
+            color="bg-purple-50"
+          />
+          <StatCard
+            icon={<FiAlertTriangle className="w-5 h-5 text-amber-600" />}
+            label="Absent Count"
+            value={report.absent_count ?? 0}
+            subtext="Latest class day"
+            color="bg-amber-50"
+          />
+        </div>
 
-          {report.trend_summary && (
-            <GlassCard className="p-5">
-              <div className="flex items-start gap-3">
-                <FiTrendingUp className="w-5 h-5 text-emerald-600 mt-0.5 flex-shrink-0" />
-                <div>
-                  <h3 className="text-sm font-semibold text-gray-800 mb-1">Trend Summary</h3>
-                  <div className="text-sm text-gray-600">{renderMarkdown(report.trend_summary)}</div>
-                </div>
+        {comparison.length > 1 && (
+          <GlassCard className="p-5">
+            <h3 className="text-sm font-semibold text-gray-800 mb-3 flex items-center gap-2">
+              <FiUsers className="w-4 h-4 text-emerald-600" />
+              Sections Side by Side — {selectedSubject}
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-gray-500 uppercase">Section</th>
+                    <th className="text-center py-2 px-3 text-xs font-semibold text-gray-500 uppercase" title="On the section's latest class day">Students</th>
+                    <th className="text-center py-2 px-3 text-xs font-semibold text-gray-500 uppercase" title="On the section's latest class day">Present</th>
+                    <th className="text-center py-2 px-3 text-xs font-semibold text-gray-500 uppercase" title="On the section's latest class day">Absent</th>
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-gray-500 uppercase w-1/3" title="Every counted session">Attendance</th>
+                    <th className="text-center py-2 px-3 text-xs font-semibold text-gray-500 uppercase">Below Threshold</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.map(row => (
+                    <tr
+                      key={row.section}
+                      onClick={() => setSelectedSection(row.section === selectedSection ? ALL_SECTIONS : row.section)}
+                      className={`border-b border-gray-100 last:border-0 cursor-pointer transition-colors ${row.section === selectedSection ? 'bg-emerald-50' : 'hover:bg-gray-50'}`}
+                      title={row.section === selectedSection ? 'Show all sections' : `Show section ${row.section} only`}
+                    >
+                      <td className="py-2 px-3 font-medium text-gray-800">{row.section}</td>
+                      <td className="py-2 px-3 text-center text-gray-600">{row.total_students}</td>
+                      <td className="py-2 px-3 text-center text-gray-600">{row.present_count}</td>
+                      <td className="py-2 px-3 text-center text-gray-600">{row.absent_count}</td>
+                      <td className="py-2 px-3">
+                        {row.attendance_percentage === null ? (
+                          <span className="text-xs text-gray-400">No data</span>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1">
+                              <ProgressBar value={row.attendance_percentage} color={row.attendance_percentage >= recorded.thresholds.defaultThreshold ? 'bg-emerald-500' : 'bg-amber-500'} />
+                            </div>
+                            <span className="text-xs font-semibold text-gray-700 w-12 text-right">{row.attendance_percentage}%</span>
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-center">
+                        <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${row.students_below_threshold > 0 ? 'bg-red-100 text-red-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                          {row.students_below_threshold}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </GlassCard>
+        )}
+
+        {loading && (
+          <GlassCard className="p-6">
+            <LoadingSkeleton lines={4} />
+          </GlassCard>
+        )}
+
+        {report.trend_summary && (
+          <GlassCard className="p-5">
+            <div className="flex items-start gap-3">
+              <FiTrendingUp className="w-5 h-5 text-emerald-600 mt-0.5 flex-shrink-0" />
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-1">Trend Summary</h3>
+                <div className="text-sm text-gray-600">{renderMarkdown(report.trend_summary)}</div>
               </div>
-            </GlassCard>
-          )}
+            </div>
+          </GlassCard>
+        )}
 
-          {absentees.length > 0 && (
-            <GlassCard className="p-5">
-              <h3 className="text-sm font-semibold text-gray-800 mb-3 flex items-center gap-2">
-                <FiUser className="w-4 h-4 text-red-500" />
-                Absentee List ({absentees.length})
-              </h3>
-              <div className="overflow-x-auto">
-                <table className="w-full text-sm">
-                  <thead>
-                    <tr className="border-b border-gray-200">
-                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-500 uppercase">#</th>
-                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-500 uppercase">Student</th>
+        {absentees.length > 0 && (
+          <GlassCard className="p-5">
+            <h3 className="text-sm font-semibold text-gray-800 mb-3 flex items-center gap-2">
+              <FiUser className="w-4 h-4 text-red-500" />
+              Absent on the Latest Day ({absentees.length})
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-gray-500 uppercase">#</th>
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-gray-500 uppercase">Student</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {absentees.map((s, i) => (
+                    <tr key={i} className="border-b border-gray-100 last:border-0">
+                      <td className="py-2 px-3 text-gray-400">{i + 1}</td>
+                      <td className="py-2 px-3 text-gray-700">{String(s)}</td>
                     </tr>
-                  </thead>
-                  <tbody>
-                    {absentees.map((s, i) => (
-                      <tr key={i} className="border-b border-gray-100 last:border-0">
-                        <td className="py-2 px-3 text-gray-400">{i + 1}</td>
-                        <td className="py-2 px-3 text-gray-700">{String(s)}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            </GlassCard>
-          )}
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </GlassCard>
+        )}
 
-          {report.report_summary && (
-            <GlassCard className="p-5">
-              <h3 className="text-sm font-semibold text-gray-800 mb-2 flex items-center gap-2">
-                <FiFileText className="w-4 h-4 text-emerald-600" />
-                Report Summary
-              </h3>
-              <div className="text-sm text-gray-600">{renderMarkdown(report.report_summary)}</div>
-            </GlassCard>
-          )}
-        </div>
-      )}
+        {report.report_summary && (
+          <GlassCard className="p-5">
+            <h3 className="text-sm font-semibold text-gray-800 mb-2 flex items-center gap-2">
+              <FiFileText className="w-4 h-4 text-emerald-600" />
+              Report Summary
+            </h3>
+            <div className="text-sm text-gray-600">{renderMarkdown(report.report_summary)}</div>
+          </GlassCard>
+        )}
 
-      {!loading && !report && !error && (
-        <GlassCard className="p-10 text-center">
-          <FiFileText className="w-12 h-12 mx-auto text-emerald-200 mb-3" />
-          <h3 className="font-semibold text-gray-700">No Report Generated</h3>
-          <p className="text-sm text-gray-400 mt-1">Select a subject and click Generate Report to view attendance data.</p>
-        </GlassCard>
-      )}
+        {!loading && !hasNarrative && !error && (
+          <GlassCard className="p-8 text-center">
+            <FiFileText className="w-10 h-10 mx-auto text-emerald-200 mb-3" />
+            <h3 className="font-semibold text-gray-700">No Narrative Yet</h3>
+            <p className="text-sm text-gray-400 mt-1">Click Generate Report to add a trend analysis and summary to these figures.</p>
+          </GlassCard>
+        )}
+      </div>
     </div>
   )
 }
@@ -987,15 +1787,26 @@ function ReportsTab({ useSample, setActiveAgent }: { useSample: boolean; setActi
 // Student Profiles Tab
 // ============================================================================
 
-function StudentProfilesTab({ useSample, setActiveAgent }: { useSample: boolean; setActiveAgent: (id: string | null) => void }) {
+function StudentProfilesTab({
+  useSample,
+  subjects: catalog,
+  termScope,
+  setActiveAgent,
+}: {
+  useSample: boolean
+  subjects: Subject[]
+  termScope: TermScope
+  setActiveAgent: (id: string | null) => void
+}) {
   const [query, setQuery] = useState('')
   const [loading, setLoading] = useState(false)
   const [history, setHistory] = useState<ProfileQuery[]>([])
+  const recorded = useRecordedAttendance(useSample, termScope)
 
   useEffect(() => {
     if (useSample && history.length === 0) {
       setHistory([
-        { query: 'Show attendance for Roll No 101', result: SAMPLE_PROFILE, timestamp: new Date().toISOString() },
+        { query: 'Show attendance for Roll No 101', rollNumber: SAMPLE_PROFILE.roll_number, result: SAMPLE_PROFILE, timestamp: new Date().toISOString() },
       ])
     }
     if (!useSample) {
@@ -1010,31 +1821,55 @@ function StudentProfilesTab({ useSample, setActiveAgent }: { useSample: boolean;
     setActiveAgent(AGENT_IDS.STUDENT_PROFILE)
     const currentQuery = query.trim()
     setQuery('')
+    const matched = findStudentForQuery(recorded.students, currentQuery)
+    const message = buildProfilePrompt({
+      query: currentQuery,
+      profile: matched ? computeStudentProfile(recorded.marks, matched, recorded.policy, recorded.thresholds.defaultThreshold, recorded.rules) : null,
+      marks: recorded.marks,
+      students: recorded.students,
+      policy: recorded.policy,
+      thresholds: recorded.thresholds,
+      rules: recorded.rules,
+      subjects: catalog,
+    })
 
     try {
-      const result = await callAIAgent(currentQuery, AGENT_IDS.STUDENT_PROFILE)
-      if (result.success) {
-        const parsed = parseAgentResponse<StudentProfile>(result as unknown as Record<string, unknown>)
+      const answer = await askAgent<StudentProfile>(
+        message,
+        AGENT_IDS.STUDENT_PROFILE,
+        data => checkProfileInvariants(data, recorded.thresholds.defaultThreshold, recorded.rules),
+        getAgentRetryEnabled()
+      )
+      if (answer.success) {
+        const parsed = answer.data
+        const agentRoll = String(parsed?.roll_number ?? '').trim()
+        const rollNumber = matched?.rollNumber ?? recorded.students.find(st => st.rollNumber === agentRoll)?.rollNumber
+        // Only a matched student's figures were sent; otherwise the agent was told to leave numbers at 0
+        const check = matched
+          ? checkProfile(parsed, computeStudentProfile(recorded.marks, matched, recorded.policy, recorded.thresholds.defaultThreshold, recorded.rules))
+          : undefined
+        if (check) logGuardResult(AGENT_IDS.STUDENT_PROFILE, 'profile', check, useSample)
+        const review = { check, violations: answer.violations, warnings: answer.warnings, retried: answer.retried }
         setHistory(prev => [
-          { query: currentQuery, result: parsed, timestamp: new Date().toISOString() },
+          { query: currentQuery, rollNumber, result: parsed, review, timestamp: new Date().toISOString() },
           ...prev,
         ])
       } else {
         setHistory(prev => [
-          { query: currentQuery, result: null, error: result.error ?? 'Failed to fetch profile', timestamp: new Date().toISOString() },
+          { query: currentQuery, rollNumber: matched?.rollNumber, result: null, error: answer.error ?? 'Failed to fetch profile', timestamp: new Date().toISOString() },
           ...prev,
         ])
       }
     } catch (_e) {
       setHistory(prev => [
-        { query: currentQuery, result: null, error: 'An unexpected error occurred', timestamp: new Date().toISOString() },
+        { query: currentQuery, rollNumber: matched?.rollNumber, result: null, error: 'An unexpected error occurred', timestamp: new Date().toISOString() },
         ...prev,
       ])
     } finally {
       setLoading(false)
       setActiveAgent(null)
     }
-  }, [query, setActiveAgent])
+  }, [query, setActiveAgent, recorded.students, recorded.marks, recorded.policy, recorded.thresholds, recorded.rules, catalog, useSample])
 
   return (
     <div className="space-y-6">
@@ -1074,103 +1909,134 @@ function StudentProfilesTab({ useSample, setActiveAgent }: { useSample: boolean;
       )}
 
       <div className="space-y-4 max-h-[600px] overflow-y-auto pr-1">
-        {history.map((item, hIdx) => (
-          <div key={hIdx} className="space-y-3">
-            <div className="flex justify-end">
-              <div className="bg-emerald-600 text-white px-4 py-2 rounded-xl rounded-br-sm max-w-[80%] text-sm">
-                {item.query}
+        {history.map((item, hIdx) => {
+          const student = recorded.students.find(st => st.rollNumber === item.rollNumber)
+          const profile = student
+            ? withNarrative(computeStudentProfile(recorded.marks, student, recorded.policy, recorded.thresholds.defaultThreshold, recorded.rules), item.result, PROFILE_NARRATIVE_FIELDS)
+            : null
+          const subjects = Array.isArray(profile?.subject_wise_attendance) ? profile.subject_wise_attendance : []
+          return (
+            <div key={hIdx} className="space-y-3">
+              <div className="flex justify-end">
+                <div className="bg-emerald-600 text-white px-4 py-2 rounded-xl rounded-br-sm max-w-[80%] text-sm">
+                  {item.query}
+                </div>
               </div>
-            </div>
 
-            {item.error ? (
-              <div className="flex justify-start">
-                <InlineMessage type="error" message={item.error} />
-              </div>
-            ) : item.result ? (
-              <div className="flex justify-start w-full">
-                <GlassCard className="p-5 w-full max-w-2xl">
-                  <div className="flex items-start justify-between mb-4">
-                    <div>
-                      <h3 className="text-lg font-bold text-gray-900">{item.result.student_name ?? 'Unknown'}</h3>
-                      <p className="text-sm text-gray-500">Roll No: {item.result.roll_number ?? '--'}</p>
-                    </div>
-                    <div className="flex flex-col items-end gap-2">
-                      <span className={`text-xs font-medium px-3 py-1 rounded-full border ${getStatusColor(item.result.status)}`}>
-                        {item.result.status ?? 'Unknown'}
-                      </span>
-                      <span className="text-2xl font-bold text-gray-900">
-                        {item.result.overall_attendance_percentage ?? 0}%
-                      </span>
-                    </div>
-                  </div>
+              {item.error && (
+                <div className="flex justify-start">
+                  <InlineMessage type="error" message={item.error} />
+                </div>
+              )}
 
-                  <div className="mb-2">
-                    <ProgressBar
-                      value={item.result.overall_attendance_percentage ?? 0}
-                      color={(item.result.overall_attendance_percentage ?? 0) >= 75 ? 'bg-emerald-500' : 'bg-red-500'}
-                    />
-                    <div className="flex justify-between mt-1">
-                      <span className="text-xs text-gray-400">0%</span>
-                      <span className="text-xs text-gray-400">75% threshold</span>
-                      <span className="text-xs text-gray-400">100%</span>
-                    </div>
-                  </div>
+              {!profile && !item.error && (
+                <div className="flex justify-start">
+                  <InlineMessage
+                    type="info"
+                    message={item.result?.student_name
+                      ? `${item.result.student_name} is not on the class roster, so there is no recorded attendance to show.`
+                      : 'No student on the class roster matches this query. Try a roll number.'}
+                  />
+                </div>
+              )}
 
-                  {Array.isArray(item.result.subject_wise_attendance) && item.result.subject_wise_attendance.length > 0 && (
-                    <div className="mt-4">
-                      <h4 className="text-sm font-semibold text-gray-700 mb-3">Subject-wise Breakdown</h4>
-                      <div className="overflow-x-auto">
-                        <table className="w-full text-sm">
-                          <thead>
-                            <tr className="border-b border-gray-200">
-                              <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Subject</th>
-                              <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Attended</th>
-                              <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Total</th>
-                              <th className="text-right py-2 px-2 text-xs font-semibold text-gray-500 uppercase">%</th>
-                            </tr>
-                          </thead>
-                          <tbody>
-                            {item.result.subject_wise_attendance.map((sub, sIdx) => (
-                              <tr key={sIdx} className="border-b border-gray-100 last:border-0">
-                                <td className="py-2 px-2">
-                                  <span className={`text-xs font-medium px-2 py-0.5 rounded-full border ${getSubjectLightColor(sIdx)}`}>
-                                    {sub.subject ?? '--'}
-                                  </span>
-                                </td>
-                                <td className="text-center py-2 px-2 text-gray-700">{sub.classes_attended ?? 0}</td>
-                                <td className="text-center py-2 px-2 text-gray-700">{sub.total_classes ?? 0}</td>
-                                <td className="text-right py-2 px-2">
-                                  <span className={`font-semibold ${(sub.percentage ?? 0) >= 75 ? 'text-emerald-600' : 'text-red-600'}`}>
-                                    {sub.percentage ?? 0}%
-                                  </span>
-                                </td>
-                              </tr>
-                            ))}
-                          </tbody>
-                        </table>
+              {profile && item.review && (
+                <div className="max-w-2xl space-y-2">
+                  <AgentReviewNotices review={item.review} />
+                </div>
+              )}
+
+              {profile && (
+                <div className="flex justify-start w-full">
+                  <GlassCard className="p-5 w-full max-w-2xl">
+                    <div className="flex items-start justify-between mb-4">
+                      <div>
+                        <h3 className="text-lg font-bold text-gray-900">{profile.student_name ?? 'Unknown'}</h3>
+                        <p className="text-sm text-gray-500">Roll No: {profile.roll_number ?? '--'}</p>
                       </div>
-                      <div className="mt-3 space-y-2">
-                        {item.result.subject_wise_attendance.map((sub, sIdx) => (
-                          <div key={sIdx} className="flex items-center gap-2">
-                            <span className="text-xs text-gray-500 w-16 flex-shrink-0">{sub.subject ?? '--'}</span>
-                            <ProgressBar value={sub.percentage ?? 0} color={getSubjectColor(sIdx)} />
-                          </div>
-                        ))}
+                      <div className="flex flex-col items-end gap-2">
+                        <span className={`text-xs font-medium px-3 py-1 rounded-full border ${getStatusColor(profile.status)}`}>
+                          {profile.status ?? 'Unknown'}
+                        </span>
+                        <span className="text-2xl font-bold text-gray-900">
+                          {profile.overall_attendance_percentage ?? 0}%
+                        </span>
                       </div>
                     </div>
-                  )}
 
-                  {item.result.remarks && (
-                    <div className="mt-4 p-3 rounded-lg bg-amber-50 border border-amber-200">
-                      <p className="text-xs font-semibold text-amber-700 mb-1">Remarks</p>
-                      <div className="text-sm text-amber-800">{renderMarkdown(item.result.remarks)}</div>
+                    <div className="mb-2">
+                      <ProgressBar
+                        value={profile.overall_attendance_percentage ?? 0}
+                        color={(profile.overall_attendance_percentage ?? 0) >= recorded.thresholds.defaultThreshold ? 'bg-emerald-500' : 'bg-red-500'}
+                      />
+                      <div className="flex justify-between mt-1">
+                        <span className="text-xs text-gray-400">0%</span>
+                        <span className="text-xs text-gray-400">{recorded.thresholds.defaultThreshold}% threshold</span>
+                        <span className="text-xs text-gray-400">100%</span>
+                      </div>
                     </div>
-                  )}
-                </GlassCard>
-              </div>
-            ) : null}
-          </div>
-        ))}
+
+                    {subjects.length > 0 && (
+                      <div className="mt-4">
+                        <h4 className="text-sm font-semibold text-gray-700 mb-3">Subject-wise Breakdown</h4>
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="border-b border-gray-200">
+                                <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Subject</th>
+                                <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Attended</th>
+                                <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Total</th>
+                                <th className="text-right py-2 px-2 text-xs font-semibold text-gray-500 uppercase">%</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {subjects.map((sub, sIdx) => (
+                                <tr key={sIdx} className="border-b border-gray-100 last:border-0">
+                                  <td className="py-2 px-2">
+                                    <span className={`text-xs font-medium px-2 py-0.5 rounded-full border ${getSubjectLightColor(catalog, sub.subject)}`}>
+                                      {sub.subject ?? '--'}
+                                    </span>
+                                  </td>
+                                  <td className="text-center py-2 px-2 text-gray-700">{sub.classes_attended ?? 0}</td>
+                                  <td className="text-center py-2 px-2 text-gray-700">{sub.total_classes ?? 0}</td>
+                                  <td className="text-right py-2 px-2">
+                                    <span className={`font-semibold ${(sub.percentage ?? 0) >= thresholdFor(recorded.thresholds, sub.subject ?? '') ? 'text-emerald-600' : 'text-red-600'}`}>
+                                      {sub.percentage ?? 0}%
+                                    </span>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                        <div className="mt-3 space-y-2">
+                          {subjects.map((sub, sIdx) => (
+                            <div key={sIdx} className="flex items-center gap-2">
+                              <span className="text-xs text-gray-500 w-16 flex-shrink-0">{sub.subject ?? '--'}</span>
+                              <ProgressBar value={sub.percentage ?? 0} color={getSubjectColor(catalog, sub.subject)} />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    <RecordedStatusTable
+                      marks={recorded.marks.filter(m => m.rollNumber === profile.roll_number)}
+                      policy={recorded.policy}
+                    />
+
+                    {profile.remarks && (
+                      <div className="mt-4 p-3 rounded-lg bg-amber-50 border border-amber-200">
+                        <p className="text-xs font-semibold text-amber-700 mb-1">Remarks</p>
+                        <div className="text-sm text-amber-800">{renderMarkdown(profile.remarks)}</div>
+                      </div>
+                    )}
+                  </GlassCard>
+                </div>
+              )}
+            </div>
+          )
+        })}
       </div>
 
       {history.length === 0 && !loading && (
@@ -1190,8 +2056,19 @@ function StudentProfilesTab({ useSample, setActiveAgent }: { useSample: boolean;
 // Alerts Tab
 // ============================================================================
 
-function AlertsTab({ useSample, setActiveAgent }: { useSample: boolean; setActiveAgent: (id: string | null) => void }) {
-  const [alertData, setAlertData] = useState<AlertResponse | null>(null)
+function AlertsTab({
+  useSample,
+  subjects,
+  termScope,
+  setActiveAgent,
+}: {
+  useSample: boolean
+  subjects: Subject[]
+  termScope: TermScope
+  setActiveAgent: (id: string | null) => void
+}) {
+  const [agentAlerts, setAgentAlerts] = useState<AlertResponse | null>(null)
+  const [alertReview, setAlertReview] = useState<AgentReview | null>(null)
   const [alertLoading, setAlertLoading] = useState(false)
   const [alertError, setAlertError] = useState<string | null>(null)
 
@@ -1203,11 +2080,24 @@ function AlertsTab({ useSample, setActiveAgent }: { useSample: boolean; setActiv
   const [logsLoading, setLogsLoading] = useState(false)
   const [toggling, setToggling] = useState(false)
 
+  const recorded = useRecordedAttendance(useSample, termScope)
+  // Each class teacher sees their own section; remembered per browser
+  const [section, setSection] = useState(() => getMySection() || ALL_SECTIONS)
+  const sections = useMemo(() => listSections(recorded.students), [recorded.students])
+
+  const handleSectionChange = useCallback((value: string) => {
+    setSection(value)
+    setMySection(value === ALL_SECTIONS ? '' : value)
+    setAgentAlerts(null)
+    setAlertReview(null)
+  }, [])
+
   useEffect(() => {
+    setAlertReview(null)
     if (useSample) {
-      setAlertData(SAMPLE_ALERTS)
+      setAgentAlerts(SAMPLE_ALERTS)
     } else {
-      setAlertData(null)
+      setAgentAlerts(null)
     }
   }, [useSample])
 
@@ -1268,26 +2158,41 @@ function AlertsTab({ useSample, setActiveAgent }: { useSample: boolean; setActiv
     }
   }, [scheduleInfo, loadSchedules])
 
+  const computedAlerts = useMemo(() => {
+    const scoped = scopeToSection(recorded.marks, recorded.students, section)
+    return computeAlerts(scoped.marks, scoped.students, recorded.policy, recorded.thresholds, recorded.rules)
+  }, [recorded.marks, recorded.students, recorded.policy, recorded.thresholds, recorded.rules, section])
+  const alertData = withNarrative(computedAlerts, agentAlerts, ALERT_NARRATIVE_FIELDS)
+  const alerts = alertData.alerts ?? []
+
   const handleCheckAlerts = useCallback(async () => {
     setAlertLoading(true)
     setAlertError(null)
-    setAlertData(null)
+    setAgentAlerts(null)
+    setAlertReview(null)
     setActiveAgent(AGENT_IDS.ATTENDANCE_ALERT)
 
     try {
-      const result = await callAIAgent(
-        'Check all student attendance records against the 75% threshold. Identify students below the threshold in each subject.',
-        AGENT_IDS.ATTENDANCE_ALERT
+      const answer = await askAgent<AlertResponse>(
+        buildAlertPrompt({
+          alerts: computedAlerts,
+          section,
+          policy: recorded.policy,
+          thresholds: recorded.thresholds,
+          rules: recorded.rules,
+          subjects,
+        }),
+        AGENT_IDS.ATTENDANCE_ALERT,
+        data => checkAlertInvariants(data, recorded.thresholds, recorded.rules),
+        getAgentRetryEnabled()
       )
-      if (result.success) {
-        const parsed = parseAgentResponse<AlertResponse>(result as unknown as Record<string, unknown>)
-        if (parsed) {
-          setAlertData(parsed)
-        } else {
-          setAlertError('Could not parse alert response.')
-        }
+      if (answer.success) {
+        const check = checkAlerts(answer.data, computedAlerts)
+        setAgentAlerts(answer.data)
+        setAlertReview({ check, violations: answer.violations, warnings: answer.warnings, retried: answer.retried })
+        logGuardResult(AGENT_IDS.ATTENDANCE_ALERT, 'alert', check, useSample)
       } else {
-        setAlertError(result.error ?? 'Failed to check alerts.')
+        setAlertError(answer.error ?? 'Failed to check alerts.')
       }
     } catch (_e) {
       setAlertError('An unexpected error occurred.')
@@ -1295,15 +2200,14 @@ function AlertsTab({ useSample, setActiveAgent }: { useSample: boolean; setActiv
       setAlertLoading(false)
       setActiveAgent(null)
     }
-  }, [setActiveAgent])
+  }, [setActiveAgent, computedAlerts, section, recorded.policy, recorded.thresholds, recorded.rules, subjects, useSample])
 
-  const alerts = Array.isArray(alertData?.alerts) ? alertData.alerts : []
 
   return (
     <div className="space-y-6">
       <div>
         <h2 className="text-2xl font-bold tracking-tight text-gray-900">Alerts & Notifications</h2>
-        <p className="text-gray-500 mt-1">Monitor low-attendance alerts and manage scheduled checks</p>
+        <p className="text-gray-500 mt-1">Students below the attendance threshold, with an AI summary and scheduled checks</p>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -1315,23 +2219,39 @@ function AlertsTab({ useSample, setActiveAgent }: { useSample: boolean; setActiv
                 <FiAlertTriangle className="w-5 h-5 text-amber-500" />
                 Attendance Alerts
               </h3>
-              <button
-                onClick={handleCheckAlerts}
-                disabled={alertLoading}
-                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
-              >
-                {alertLoading ? (
-                  <>
-                    <FiLoader className="w-4 h-4 animate-spin" />
-                    Checking...
-                  </>
-                ) : (
-                  <>
-                    <FiRefreshCw className="w-4 h-4" />
-                    Check Alerts Now
-                  </>
-                )}
-              </button>
+              <div className="flex items-center gap-3">
+                <select
+                  value={section}
+                  onChange={e => handleSectionChange(e.target.value)}
+                  className="px-3 py-2 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                  title="Show alerts for one section"
+                >
+                  <option value={ALL_SECTIONS}>All Sections</option>
+                  {sections.map(sec => (
+                    <option key={sec} value={sec}>Section {sec}</option>
+                  ))}
+                  {section !== ALL_SECTIONS && !sections.includes(section) && (
+                    <option value={section}>Section {section}</option>
+                  )}
+                </select>
+                <button
+                  onClick={handleCheckAlerts}
+                  disabled={alertLoading}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
+                >
+                  {alertLoading ? (
+                    <>
+                      <FiLoader className="w-4 h-4 animate-spin" />
+                      Summarizing...
+                    </>
+                  ) : (
+                    <>
+                      <FiRefreshCw className="w-4 h-4" />
+                      Summarize Alerts
+                    </>
+                  )}
+                </button>
+              </div>
             </div>
           </GlassCard>
 
@@ -1339,92 +2259,95 @@ function AlertsTab({ useSample, setActiveAgent }: { useSample: boolean; setActiv
             <InlineMessage type="error" message={alertError} onDismiss={() => setAlertError(null)} />
           )}
 
-          {alertLoading && (
-            <GlassCard className="p-6">
-              <LoadingSkeleton lines={5} />
-            </GlassCard>
-          )}
+          {alertReview && <AgentReviewNotices review={alertReview} />}
 
-          {!alertLoading && alertData && (
-            <>
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                <StatCard
-                  icon={<FiCalendar className="w-5 h-5 text-blue-600" />}
-                  label="Alert Date"
-                  value={alertData.alert_date ?? '--'}
-                  color="bg-blue-50"
-                />
-                <StatCard
-                  icon={<FiBarChart2 className="w-5 h-5 text-purple-600" />}
-                  label="Threshold"
-                  value={`${alertData.threshold_percentage ?? 75}%`}
-                  color="bg-purple-50"
-                />
-                <StatCard
-                  icon={<FiAlertCircle className="w-5 h-5 text-red-600" />}
-                  label="Total Alerts"
-                  value={alertData.total_alerts ?? alerts.length}
-                  color="bg-red-50"
-                />
-              </div>
+          {recorded.error && (
+            <InlineMessage type="error" message={recorded.error} />
+          )}
 
-              {alerts.length > 0 && (
-                <GlassCard className="p-5">
-                  <h4 className="text-sm font-semibold text-gray-800 mb-3">Alert Details</h4>
-                  <div className="overflow-x-auto">
-                    <table className="w-full text-sm">
-                      <thead>
-                        <tr className="border-b border-gray-200">
-                          <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Student</th>
-                          <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Roll No</th>
-                          <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Subject</th>
-                          <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Attendance</th>
-                          <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Missed</th>
-                          <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Severity</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {alerts.map((a, i) => (
-                          <tr key={i} className={`border-b border-gray-100 last:border-0 ${getSeverityClasses(a.severity)} bg-opacity-30`}>
-                            <td className="py-2.5 px-2 font-medium text-gray-800">{a.student_name ?? '--'}</td>
-                            <td className="py-2.5 px-2 text-gray-600">{a.roll_number ?? '--'}</td>
-                            <td className="py-2.5 px-2 text-gray-600">{a.subject ?? '--'}</td>
-                            <td className="py-2.5 px-2 text-center">
-                              <span className={`font-semibold ${(a.attendance_percentage ?? 0) < 65 ? 'text-red-600' : 'text-amber-600'}`}>
-                                {a.attendance_percentage ?? 0}%
-                              </span>
-                            </td>
-                            <td className="py-2.5 px-2 text-center text-gray-600">{a.classes_missed ?? 0}</td>
-                            <td className="py-2.5 px-2 text-center">
-                              <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${getSeverityBadge(a.severity)}`}>
-                                {a.severity ?? 'Unknown'}
-                              </span>
-                            </td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                </GlassCard>
-              )}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <StatCard
+              icon={<FiCalendar className="w-5 h-5 text-blue-600" />}
+              label="Alert Date"
+              value={alertData.alert_date ?? '--'}
+              color="bg-blue-50"
+            />
+            <StatCard
+              icon={<FiBarChart2 className="w-5 h-5 text-purple-600" />}
+              label="Threshold"
+              value={`${recorded.thresholds.defaultThreshold}%`}
+              subtext={Object.keys(recorded.thresholds.subjects).length > 0 ? `Overrides: ${describeThresholds(recorded.thresholds)}` : undefined}
+              color="bg-purple-50"
+            />
+            <StatCard
+              icon={<FiAlertCircle className="w-5 h-5 text-red-600" />}
+              label="Total Alerts"
+              value={alertData.total_alerts ?? alerts.length}
+              color="bg-red-50"
+            />
+          </div>
 
-              {alertData.summary && (
-                <GlassCard className="p-5">
-                  <h4 className="text-sm font-semibold text-gray-800 mb-2 flex items-center gap-2">
-                    <FiFileText className="w-4 h-4 text-emerald-600" />
-                    Alert Summary
-                  </h4>
-                  <div className="text-sm text-gray-600">{renderMarkdown(alertData.summary)}</div>
-                </GlassCard>
-              )}
-            </>
+          {alerts.length > 0 && (
+            <GlassCard className="p-5">
+              <h4 className="text-sm font-semibold text-gray-800 mb-3">Alert Details</h4>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Student</th>
+                      <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Roll No</th>
+                      <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Subject</th>
+                      <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Attendance</th>
+                      <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Missed</th>
+                      <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Severity</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {alerts.map((a, i) => (
+                      <tr key={i} className={`border-b border-gray-100 last:border-0 ${getSeverityClasses(a.severity)} bg-opacity-30`}>
+                        <td className="py-2.5 px-2 font-medium text-gray-800">{a.student_name ?? '--'}</td>
+                        <td className="py-2.5 px-2 text-gray-600">{a.roll_number ?? '--'}</td>
+                        <td className="py-2.5 px-2 text-gray-600">{a.subject ?? '--'}</td>
+                        <td className="py-2.5 px-2 text-center">
+                          <span className={`font-semibold ${a.severity === 'Warning' ? 'text-amber-600' : 'text-red-600'}`}>
+                            {a.attendance_percentage ?? 0}%
+                          </span>
+                        </td>
+                        <td className="py-2.5 px-2 text-center text-gray-600">{a.classes_missed ?? 0}</td>
+                        <td className="py-2.5 px-2 text-center">
+                          <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${getSeverityBadge(a.severity)}`}>
+                            {a.severity ?? 'Unknown'}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </GlassCard>
           )}
 
-          {!alertLoading && !alertData && !alertError && (
+          {alerts.length === 0 && (
             <GlassCard className="p-10 text-center">
               <FiBell className="w-12 h-12 mx-auto text-emerald-200 mb-3" />
-              <h3 className="font-semibold text-gray-700">No Alerts Checked</h3>
-              <p className="text-sm text-gray-400 mt-1">Click &quot;Check Alerts Now&quot; to scan for students below the attendance threshold.</p>
+              <h3 className="font-semibold text-gray-700">No Students Below Threshold</h3>
+              <p className="text-sm text-gray-400 mt-1">Everyone{section === ALL_SECTIONS ? '' : ` in section ${section}`} with recorded attendance is at or above {alertData.threshold_percentage}% in every subject.</p>
+            </GlassCard>
+          )}
+
+          {alertLoading && (
+            <GlassCard className="p-6">
+              <LoadingSkeleton lines={3} />
+            </GlassCard>
+          )}
+
+          {alertData.summary && (
+            <GlassCard className="p-5">
+              <h4 className="text-sm font-semibold text-gray-800 mb-2 flex items-center gap-2">
+                <FiFileText className="w-4 h-4 text-emerald-600" />
+                Alert Summary
+              </h4>
+              <div className="text-sm text-gray-600">{renderMarkdown(alertData.summary)}</div>
             </GlassCard>
           )}
         </div>
@@ -1548,177 +2471,3784 @@ function AlertsTab({ useSample, setActiveAgent }: { useSample: boolean; setActiv
 // Create Session Tab
 // ============================================================================
 
-function CreateSessionTab({ useSample }: { useSample: boolean }) {
-  const [subject, setSubject] = useState('DBMS')
-  const [date, setDate] = useState('')
-  const [time, setTime] = useState('')
-  const [duration, setDuration] = useState('60')
-  const [sessions, setSessions] = useState<AttendanceSession[]>([])
-  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
-  const [copiedId, setCopiedId] = useState<string | null>(null)
+const SESSION_STATUS_STYLES: Record<SessionStatus, { label: string; className: string }> = {
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-700' },
+  open: { label: 'Open', className: 'bg-emerald-100 text-emerald-700' },
+  closed: { label: 'Closed', className: 'bg-gray-100 text-gray-600' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-700' },
+}
+
+const ROTATION_PERIOD_OPTIONS = [15, 30, 60]
+
+/** Upper bound on sessions a single "repeat weekly" can create. */
+const MAX_WEEKLY_REPEATS = 30
+
+/**
+ * Live code for a rotating session: fetched from the server (which holds the
+ * secret) and refetched each time the current code rolls over. Only the
+ * browser that created the session may read it; elsewhere `unavailable` says why.
+ */
+function useRotatingCode(
+  session: AttendanceSession,
+  active: boolean
+): { live: { code: string; secondsLeft: number } | null; unavailable: string | null } {
+  const [current, setCurrent] = useState<{ code: string; expiresAt: number } | null>(null)
+  const [unavailable, setUnavailable] = useState<string | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+  const period = session.rotation?.period
 
   useEffect(() => {
-    if (useSample) {
-      setSessions(SAMPLE_SESSIONS)
-    } else {
-      setSessions([])
+    setUnavailable(null)
+    if (!period || !active) {
+      setCurrent(null)
+      return
     }
-  }, [useSample])
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const refresh = async () => {
+      const res = await getCurrentCode(session.id)
+      if (cancelled) return
+      if (res.forbidden || res.notFound) {
+        // Retrying cannot help; stop polling
+        setCurrent(null)
+        setUnavailable(res.error ?? 'The live code is not available on this device.')
+      } else if (res.success && res.code) {
+        const expiresAt = res.expires_at ? new Date(res.expires_at).getTime() : Date.now() + period * 1000
+        setCurrent({ code: res.code, expiresAt })
+        timer = setTimeout(refresh, Math.max(expiresAt - Date.now(), 1000) + 250)
+      } else {
+        timer = setTimeout(refresh, 5000)
+      }
+    }
+    refresh()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [session.id, period, active])
 
-  const handleCreate = useCallback(() => {
-    if (!date || !time) {
-      setFeedback({ type: 'error', message: 'Please select a date and time.' })
+  useEffect(() => {
+    if (!current) return
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((current.expiresAt - Date.now()) / 1000)))
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [current])
+
+  return { live: current ? { code: current.code, secondsLeft } : null, unavailable }
+}
+
+/** Full-width QR of the check-in link; follows the live code for rotating sessions. */
+function SessionQrModal({ session, status, onClose }: { session: AttendanceSession; status: SessionStatus; onClose: () => void }) {
+  const { live: rotating, unavailable } = useRotatingCode(session, status === 'open')
+  const code = session.rotation ? rotating?.code : session.code
+  const [qrUrl, setQrUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!code) {
+      setQrUrl(null)
       return
     }
-    const code = generateCode()
-    const newSession: AttendanceSession = {
-      id: Date.now().toString(),
-      subject,
-      code,
-      date,
-      time,
-      duration: parseInt(duration) || 60,
-      attendees: [],
-    }
-    setSessions(prev => [newSession, ...prev])
-    setFeedback({ type: 'success', message: `Session created! Code: ${code}` })
-    setDate('')
-    setTime('')
-  }, [subject, date, time, duration])
-
-  const handleCopy = useCallback((sessionCode: string, sessionId: string) => {
-    navigator.clipboard.writeText(sessionCode).then(() => {
-      setCopiedId(sessionId)
-      setTimeout(() => setCopiedId(null), 2000)
-    }).catch(() => {
-      // fallback
-    })
-  }, [])
+    let cancelled = false
+    renderQrDataUrl(buildCheckInUrl(code))
+      .then(url => {
+        if (!cancelled) setQrUrl(url)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not render the QR code.')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [code])
 
   return (
-    <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold tracking-tight text-gray-900">Create Session</h2>
-        <p className="text-gray-500 mt-1">Set up a new attendance session and generate a check-in code</p>
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div className="w-full max-w-md rounded-2xl bg-white p-6 shadow-xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-base font-semibold text-gray-800">{session.subject} check-in</h3>
+            <p className="text-xs text-gray-500">{session.date} at {session.time}</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500" title="Close">
+            <FiX className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="aspect-square w-full rounded-xl border border-gray-100 bg-white flex items-center justify-center overflow-hidden">
+          {error ? (
+            <p className="text-sm text-red-600 px-6 text-center">{error}</p>
+          ) : qrUrl ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={qrUrl} alt={`QR code for check-in code ${code}`} className="w-full h-full" />
+          ) : session.rotation && status !== 'open' ? (
+            <p className="text-sm text-gray-400 px-6 text-center">The rotating code appears once the session is open.</p>
+          ) : unavailable ? (
+            <p className="text-sm text-gray-500 px-6 text-center">{unavailable}</p>
+          ) : (
+            <FiLoader className="w-8 h-8 text-emerald-500 animate-spin" />
+          )}
+        </div>
+        <div className="mt-4 text-center">
+          <p className="font-mono text-3xl font-bold text-emerald-700 tracking-[0.3em]">{code ?? '------'}</p>
+          <p className="text-xs text-gray-400 mt-1">
+            {rotating ? `Changes in ${rotating.secondsLeft}s` : 'Scan with a phone camera to open check-in'}
+          </p>
+        </div>
       </div>
+    </div>
+  )
+}
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <GlassCard className="p-6">
-          <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
-            <FiPlus className="w-5 h-5 text-emerald-600" />
-            New Session
-          </h3>
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1.5">Subject</label>
-              <select
-                value={subject}
-                onChange={e => setSubject(e.target.value)}
-                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
-              >
-                {SUBJECTS.map(s => (
-                  <option key={s} value={s}>{s}</option>
-                ))}
-              </select>
-            </div>
+const KIOSK_POLL_MS = 5000
+
+function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const sec = String(total % 60).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${sec}` : `${m}:${sec}`
+}
+
+/**
+ * Full-screen presenter view for projecting a session in class. Polls the
+ * session for its check-in count and follows the rotating code, so it stays
+ * current for the whole check-in window without a refresh.
+ */
+function SessionKiosk({
+  session: initial,
+  useSample,
+  onClose,
+}: {
+  session: AttendanceSession
+  useSample: boolean
+  onClose: (latest: AttendanceSession) => void
+}) {
+  const [session, setSession] = useState(initial)
+  const [gone, setGone] = useState(false)
+  const [enrolled, setEnrolled] = useState<number | null>(null)
+  const [now, setNow] = useState(() => new Date())
+  const [qrUrl, setQrUrl] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const status = getSessionStatus(session, now)
+  const checkInWindow = getSessionWindow(session)
+  const { live: rotating, unavailable } = useRotatingCode(session, status === 'open' && !gone)
+  const code = session.rotation ? rotating?.code : session.code
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  useEffect(() => {
+    if (useSample || gone) return
+    let cancelled = false
+    const poll = async () => {
+      const res = await getSession(session.id)
+      if (cancelled) return
+      if (res.success && res.session) setSession(res.session)
+      else if (res.notFound) setGone(true)
+    }
+    const timer = setInterval(poll, KIOSK_POLL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [session.id, useSample, gone])
+
+  useEffect(() => {
+    if (useSample) {
+      setEnrolled(SAMPLE_STUDENTS.filter(st => isExpectedAt(st, { subject: session.subject, section: session.section })).length)
+      return
+    }
+    listStudents({ subject: session.subject, section: session.section }).then(res => {
+      if (res.success) setEnrolled(res.students.length)
+    })
+  }, [session.subject, session.section, useSample])
+
+  useEffect(() => {
+    if (!code || status !== 'open') {
+      setQrUrl(null)
+      return
+    }
+    let cancelled = false
+    renderQrDataUrl(buildCheckInUrl(code))
+      .then(url => {
+        if (!cancelled) setQrUrl(url)
+      })
+      .catch(() => {
+        if (!cancelled) setQrUrl(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [code, status])
+
+  // Go full screen where the browser allows it; Escape leaves full screen first
+  useEffect(() => {
+    containerRef.current?.requestFullscreen?.().catch(() => undefined)
+    return () => {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined)
+    }
+  }, [])
+
+  const handleClose = useCallback(() => onClose(session), [onClose, session])
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !document.fullscreenElement) handleClose()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [handleClose])
+
+  const checkedIn = session.attendees.length
+  const pct = enrolled ? Math.min(100, Math.round((checkedIn / enrolled) * 100)) : 0
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-50 flex flex-col bg-gradient-to-br from-emerald-900 via-emerald-800 to-teal-900 text-white">
+      <div className="flex items-center justify-between px-8 py-5">
+        <div>
+          <p className="text-sm uppercase tracking-widest text-emerald-200">Attendance check-in</p>
+          <h2 className="text-3xl font-bold">{session.subject}</h2>
+          <p className="text-emerald-200">{session.date} at {session.time}</p>
+        </div>
+        <button onClick={handleClose} className="p-3 rounded-xl hover:bg-white/10 transition-colors" title="Exit presenter view">
+          <FiX className="w-7 h-7" />
+        </button>
+      </div>
+
+      <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-10 items-center px-8 pb-10">
+        <div className="flex flex-col items-center justify-center text-center">
+          {status === 'open' && !gone ? (
+            <>
+              <p className="text-lg text-emerald-200 mb-2">Enter this code</p>
+              <p className="font-mono font-bold tracking-[0.25em] text-7xl md:text-8xl xl:text-9xl">{code ?? '------'}</p>
+              {rotating && (
+                <p className="mt-4 text-xl text-emerald-200 flex items-center gap-2">
+                  <FiRefreshCw className="w-5 h-5" />
+                  New code in {rotating.secondsLeft}s
+                </p>
+              )}
+              {unavailable && <p className="mt-4 text-xl text-emerald-200">{unavailable}</p>}
+            </>
+          ) : (
+            <p className="text-5xl font-bold">
+              {gone
+                ? 'This session no longer exists'
+                : status === 'scheduled' ? 'Check-in has not opened yet' : status === 'cancelled' ? 'Session cancelled' : 'Check-in closed'}
+            </p>
+          )}
+          <div className="mt-10 text-center">
+            <p className="text-sm uppercase tracking-widest text-emerald-200">
+              {status === 'open' ? 'Closes in' : status === 'scheduled' ? 'Opens in' : 'Closed at'}
+            </p>
+            <p className="font-mono text-5xl font-semibold mt-1">
+              {status === 'open'
+                ? formatCountdown(checkInWindow.end.getTime() - now.getTime())
+                : status === 'scheduled'
+                  ? formatCountdown(checkInWindow.start.getTime() - now.getTime())
+                  : formatClock(checkInWindow.end)}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-col items-center justify-center gap-8">
+          {qrUrl && (
+            <div className="rounded-3xl bg-white p-4 shadow-2xl">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={qrUrl} alt={`QR code for check-in code ${code}`} className="w-64 h-64 xl:w-80 xl:h-80" />
+            </div>
+          )}
+          <div className="w-full max-w-md text-center">
+            <p className="text-sm uppercase tracking-widest text-emerald-200 flex items-center justify-center gap-2">
+              <FiUsers className="w-4 h-4" />
+              Checked in
+            </p>
+            <p className="text-6xl font-bold mt-1">
+              {checkedIn}
+              <span className="text-3xl text-emerald-200 font-semibold"> / {enrolled ?? '--'}</span>
+            </p>
+            <div className="mt-4 h-3 rounded-full bg-white/20 overflow-hidden">
+              <div className="h-full rounded-full bg-emerald-300 transition-all duration-700" style={{ width: `${pct}%` }} />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function formatClock(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+function SessionCard({
+  session,
+  status,
+  copied,
+  busy,
+  onCopy,
+  onShowQr,
+  onPresent,
+  onRegister,
+  onAction,
+  subjects,
+}: {
+  session: AttendanceSession
+  status: SessionStatus
+  copied: boolean
+  busy: boolean
+  onCopy: (code: string) => void
+  onShowQr: () => void
+  onPresent: () => void
+  onRegister: () => void
+  onAction: (action: SessionAction) => void
+  subjects: Subject[]
+}) {
+  const s = session
+  const checkInWindow = getSessionWindow(s)
+  const { live: rotating, unavailable } = useRotatingCode(s, status === 'open')
+  const displayCode = s.rotation ? rotating?.code ?? '------' : s.code
+  return (
+    <div className="p-4 rounded-lg bg-emerald-50/50 border border-emerald-100">
+      <div className="flex justify-between items-start">
+        <div>
+          <div className="flex items-center gap-1.5">
+            <span className={`text-xs font-medium px-2 py-0.5 rounded-full border ${getSubjectLightColor(subjects, s.subject)}`}>
+              {s.subject}
+            </span>
+            {s.section && (
+              <span className="text-xs font-medium px-2 py-0.5 rounded-full border bg-white text-gray-600 border-gray-200">
+                Sec {s.section}
+              </span>
+            )}
+            <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${SESSION_STATUS_STYLES[status].className}`}>
+              {SESSION_STATUS_STYLES[status].label}
+            </span>
+          </div>
+          <p className="text-sm text-gray-600 mt-1.5">
+            {s.date} at {s.time} ({s.duration} min)
+          </p>
+          <p className="text-xs text-gray-400 mt-0.5">
+            {status === 'open' ? `Closes at ${formatClock(checkInWindow.end)}` : `Opens at ${formatClock(checkInWindow.start)}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="text-right">
+            <span className="font-mono text-lg font-bold text-emerald-700 tracking-wider">{displayCode}</span>
+            {s.rotation && (
+              <p className="text-[11px] text-gray-400 flex items-center justify-end gap-1">
+                <FiRefreshCw className="w-3 h-3" />
+                {rotating ? `Changes in ${rotating.secondsLeft}s` : `Rotates every ${s.rotation.period}s`}
+              </p>
+            )}
+            {unavailable && <p className="text-[11px] text-amber-600 max-w-[180px]">{unavailable}</p>}
+          </div>
+          <button
+            onClick={() => onCopy(displayCode)}
+            disabled={!!s.rotation && !rotating}
+            className="p-1.5 rounded-lg hover:bg-emerald-100 transition-colors text-emerald-600 disabled:opacity-40"
+            title="Copy code"
+          >
+            {copied ? (
+              <FiCheckCircle className="w-4 h-4" />
+            ) : (
+              <FiCopy className="w-4 h-4" />
+            )}
+          </button>
+          <button
+            onClick={onShowQr}
+            className="p-1.5 rounded-lg hover:bg-emerald-100 transition-colors text-emerald-600"
+            title="Show QR code"
+          >
+            <FiGrid className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onPresent}
+            className="p-1.5 rounded-lg hover:bg-emerald-100 transition-colors text-emerald-600"
+            title="Presenter view"
+          >
+            <FiMonitor className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRegister}
+            className="p-1.5 rounded-lg hover:bg-emerald-100 transition-colors text-emerald-600"
+            title="Take register"
+          >
+            <FiClipboard className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1 text-xs text-gray-400">
+          <FiUsers className="w-3 h-3" />
+          {s.attendees.length} checked in
+        </div>
+        <div className="flex items-center gap-1.5">
+          {status === 'scheduled' && (
+            <button
+              onClick={() => onAction('open')}
+              disabled={busy}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+            >
+              <FiPlay className="w-3 h-3" />
+              Open now
+            </button>
+          )}
+          {status === 'open' && (
+            <button
+              onClick={() => onAction('close')}
+              disabled={busy}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium bg-gray-700 text-white hover:bg-gray-800 disabled:opacity-50 transition-colors"
+            >
+              <FiSquare className="w-3 h-3" />
+              Close now
+            </button>
+          )}
+          <button
+            onClick={() => onAction('cancel')}
+            disabled={busy}
+            className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-50 transition-colors"
+          >
+            <FiSlash className="w-3 h-3" />
+            Cancel
+          </button>
+        </div>
+      </div>
+      {Array.isArray(s.proxy_flags) && s.proxy_flags.length > 0 && (
+        <div className="mt-2 p-2.5 rounded-lg bg-amber-50 border border-amber-200 space-y-1">
+          <p className="text-xs font-semibold text-amber-800 flex items-center gap-1">
+            <FiAlertTriangle className="w-3.5 h-3.5" />
+            Possible proxy check-ins ({s.proxy_flags.length} device{s.proxy_flags.length === 1 ? '' : 's'})
+          </p>
+          {s.proxy_flags.map(flag => (
+            <p key={flag.deviceId} className="text-xs text-amber-700">
+              One device checked in roll nos. {flag.rollNumbers.join(', ')}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Edit or delete one attendance record. Both need the teacher's name and a
+ * reason, which go to the audit log with the before/after values.
+ */
+function RecordCorrectionDialog({
+  record,
+  mode,
+  useSample,
+  onClose,
+  onDone,
+}: {
+  record: AttendanceRecord
+  mode: 'edit' | 'delete'
+  useSample: boolean
+  onClose: () => void
+  onDone: (result: AttendanceRecord | null) => void
+}) {
+  const [status, setStatus] = useState<AttendanceStatus>(recordStatus(record))
+  const [sessionId, setSessionId] = useState(record.sessionId ?? '')
+  const [sessions, setSessions] = useState<AttendanceSession[]>([])
+  const [actor, setActor] = useState(() => getTeacherName())
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (mode !== 'edit') return
+    if (useSample) {
+      setSessions(SAMPLE_SESSIONS)
+      return
+    }
+    listSessions().then(res => {
+      if (res.success) setSessions(res.sessions.filter(s => !s.cancelled_at))
+    })
+  }, [mode, useSample])
+
+  const handleSubmit = useCallback(async () => {
+    if (!actor.trim()) {
+      setError('Enter your name so the change is attributed.')
+      return
+    }
+    if (reason.trim().length < 3) {
+      setError('Give a reason for this correction.')
+      return
+    }
+    const changes: { status?: AttendanceStatus; sessionId?: string } = {}
+    if (status !== recordStatus(record)) changes.status = status
+    if (sessionId && sessionId !== record.sessionId) changes.sessionId = sessionId
+    if (mode === 'edit' && Object.keys(changes).length === 0) {
+      setError('Nothing has changed.')
+      return
+    }
+    setTeacherName(actor.trim())
+
+    if (useSample) {
+      const target = sessions.find(s => s.id === changes.sessionId)
+      onDone(mode === 'delete'
+        ? null
+        : { ...record, ...changes, ...(target ? { subject: target.subject, code: target.code } : {}), markedBy: actor.trim() })
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      if (mode === 'delete') {
+        const res = await deleteRecord(record.id, actor.trim(), reason.trim())
+        if (res.success) onDone(null)
+        else setError(res.error ?? 'Failed to delete the record.')
+      } else {
+        const res = await updateRecord(record.id, changes, actor.trim(), reason.trim())
+        if (res.success && res.record) onDone(res.record)
+        else setError(res.error ?? 'Failed to update the record.')
+      }
+    } finally {
+      setSaving(false)
+    }
+  }, [actor, reason, status, sessionId, record, mode, useSample, sessions, onDone])
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div className="w-full max-w-md rounded-2xl bg-white p-6 shadow-xl space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-base font-semibold text-gray-800">
+              {mode === 'delete' ? 'Delete record' : 'Correct record'}
+            </h3>
+            <p className="text-xs text-gray-500">
+              {record.name} ({record.rollNumber}) · {record.subject} · {new Date(record.timestamp).toLocaleString()}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500" title="Close">
+            <FiX className="w-5 h-5" />
+          </button>
+        </div>
+
+        {mode === 'edit' && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Status</label>
+              <div className="flex gap-1.5">
+                {ATTENDANCE_STATUS_ORDER.map(st => (
+                  <button
+                    key={st}
+                    type="button"
+                    onClick={() => setStatus(st)}
+                    className={`flex-1 py-1.5 rounded-lg text-xs font-medium border transition-colors ${status === st ? ATTENDANCE_STATUS_STYLES[st].activeClassName : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'}`}
+                  >
+                    {ATTENDANCE_STATUS_STYLES[st].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Session</label>
+              <select
+                value={sessionId}
+                onChange={e => setSessionId(e.target.value)}
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+              >
+                {!sessions.some(s => s.id === record.sessionId) && (
+                  <option value={record.sessionId ?? ''}>{record.subject} · current session</option>
+                )}
+                {sessions.map(s => (
+                  <option key={s.id} value={s.id}>{s.subject} · {s.date} {s.time}</option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1.5">Reason</label>
+          <textarea
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            rows={2}
+            placeholder={mode === 'delete' ? 'e.g. Duplicate entry' : 'e.g. Checked in to the wrong session'}
+            className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm resize-none"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1.5">Your name</label>
+          <input
+            type="text"
+            value={actor}
+            onChange={e => setActor(e.target.value)}
+            className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+          />
+        </div>
+
+        {error && <InlineMessage type="error" message={error} onDismiss={() => setError(null)} />}
+
+        <button
+          onClick={handleSubmit}
+          disabled={saving}
+          className={`w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-all ${mode === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-emerald-600 hover:bg-emerald-700'}`}
+        >
+          {saving ? <FiLoader className="w-4 h-4 animate-spin" /> : mode === 'delete' ? <FiTrash2 className="w-4 h-4" /> : <FiCheckCircle className="w-4 h-4" />}
+          {mode === 'delete' ? 'Delete record' : 'Save correction'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface RegisterRow {
+  rollNumber: string
+  name: string
+  saved: AttendanceStatus | null
+  selfCheckIn: boolean
+  record: AttendanceRecord | null
+}
+
+/**
+ * Teacher register for one session: the enrolled roster with a status toggle
+ * per student. Arrow keys move between rows (and cycle the status sideways);
+ * P / L / A / E set a status directly. Saved records can be corrected or
+ * deleted from here, with a reason for the audit log.
+ */
+function SessionRegister({
+  session,
+  useSample,
+  onClose,
+  onSaved,
+}: {
+  session: AttendanceSession
+  useSample: boolean
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const [rows, setRows] = useState<RegisterRow[]>([])
+  const [marks, setMarks] = useState<Record<string, AttendanceStatus>>({})
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+  const [focusIndex, setFocusIndex] = useState(0)
+  const [teacher, setTeacher] = useState(() => getTeacherName())
+  const [correcting, setCorrecting] = useState<{ record: AttendanceRecord; mode: 'edit' | 'delete' } | null>(null)
+  const rowRefs = useRef<(HTMLTableRowElement | null)[]>([])
+
+  const buildRows = useCallback((students: Student[], records: AttendanceRecord[]): RegisterRow[] => {
+    const byRoll = new Map(records.map(r => [r.rollNumber, r]))
+    const enrolled = students
+      .filter(st => isExpectedAt(st, { subject: session.subject, section: session.section }))
+      .map(st => {
+        const record = byRoll.get(st.rollNumber)
+        return {
+          rollNumber: st.rollNumber,
+          name: st.name,
+          saved: record ? record.status ?? 'present' : null,
+          selfCheckIn: record?.source !== 'register' && !!record,
+          record: record ?? null,
+        }
+      })
+    // Keep records for students who have since left the roster visible
+    const extra = records
+      .filter(r => !enrolled.some(row => row.rollNumber === r.rollNumber))
+      .map(r => ({ rollNumber: r.rollNumber, name: r.name, saved: r.status ?? 'present', selfCheckIn: r.source !== 'register', record: r }))
+    return [...enrolled, ...extra].sort((a, b) => a.rollNumber.localeCompare(b.rollNumber, undefined, { numeric: true }))
+  }, [session.subject, session.section])
+
+  const load = useCallback(async () => {
+    if (useSample) {
+      setRows(buildRows(SAMPLE_STUDENTS, SAMPLE_RECORDS.filter(r => r.sessionId === session.id)))
+      return
+    }
+    setLoading(true)
+    const [studentsRes, recordsRes] = await Promise.all([
+      listStudents({ subject: session.subject }),
+      listCheckIns({ sessionId: session.id }),
+    ])
+    if (studentsRes.success && recordsRes.success) {
+      setRows(buildRows(studentsRes.students, recordsRes.records))
+    } else {
+      setFeedback({ type: 'error', message: studentsRes.error ?? recordsRes.error ?? 'Failed to load the register.' })
+    }
+    setLoading(false)
+  }, [useSample, buildRows, session.id, session.subject])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  useEffect(() => {
+    rowRefs.current[focusIndex]?.scrollIntoView({ block: 'nearest' })
+  }, [focusIndex])
+
+  const statusOf = (row: RegisterRow) => marks[row.rollNumber] ?? row.saved
+  const changed = rows.filter(row => marks[row.rollNumber] && marks[row.rollNumber] !== row.saved)
+
+  const setMark = useCallback((rollNumber: string, status: AttendanceStatus) => {
+    setMarks(prev => ({ ...prev, [rollNumber]: status }))
+  }, [])
+
+  const handleMarkAllPresent = useCallback(() => {
+    setMarks(Object.fromEntries(rows.map(row => [row.rollNumber, 'present' as AttendanceStatus])))
+  }, [rows])
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    const row = rows[focusIndex]
+    if (!row) return
+    const key = e.key.toUpperCase()
+    const direct = ATTENDANCE_STATUS_ORDER.find(st => ATTENDANCE_STATUS_STYLES[st].key === key)
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      setFocusIndex(i => Math.min(rows.length - 1, Math.max(0, i + (e.key === 'ArrowDown' ? 1 : -1))))
+    } else if (e.key === 'ArrowRight' || e.key === 'ArrowLeft') {
+      e.preventDefault()
+      const current = marks[row.rollNumber] ?? row.saved
+      const step = e.key === 'ArrowRight' ? 1 : ATTENDANCE_STATUS_ORDER.length - 1
+      const next = current
+        ? ATTENDANCE_STATUS_ORDER[(ATTENDANCE_STATUS_ORDER.indexOf(current) + step) % ATTENDANCE_STATUS_ORDER.length]
+        : 'present'
+      setMark(row.rollNumber, next)
+    } else if (direct && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      e.preventDefault()
+      setMark(row.rollNumber, direct)
+      setFocusIndex(i => Math.min(rows.length - 1, i + 1))
+    }
+  }, [rows, marks, focusIndex, setMark])
+
+  const handleSave = useCallback(async () => {
+    if (!teacher.trim()) {
+      setFeedback({ type: 'error', message: 'Enter your name so the register records who marked it.' })
+      return
+    }
+    if (changed.length === 0) {
+      setFeedback({ type: 'error', message: 'No changes to save.' })
+      return
+    }
+    setTeacherName(teacher.trim())
+    if (useSample) {
+      setRows(prev => prev.map(row => (marks[row.rollNumber] ? { ...row, saved: marks[row.rollNumber] } : row)))
+      setMarks({})
+      setFeedback({ type: 'success', message: `Saved ${changed.length} mark${changed.length === 1 ? '' : 's'}.` })
+      return
+    }
+    setSaving(true)
+    setFeedback(null)
+    try {
+      const res = await saveRegister({
+        sessionId: session.id,
+        markedBy: teacher.trim(),
+        entries: changed.map(row => ({ rollNumber: row.rollNumber, status: marks[row.rollNumber] })),
+      })
+      if (res.success) {
+        setMarks({})
+        await load()
+        const skipped = res.skipped.length > 0 ? ` ${res.skipped.length} skipped: ${res.skipped.map(sk => sk.rollNumber).join(', ')}.` : ''
+        setFeedback({ type: 'success', message: `Register saved: ${res.created} added, ${res.updated} updated.${skipped}` })
+        onSaved()
+      } else {
+        setFeedback({ type: 'error', message: res.error ?? 'Failed to save the register.' })
+      }
+    } finally {
+      setSaving(false)
+    }
+  }, [teacher, changed, useSample, marks, session.id, load, onSaved])
+
+  const handleCorrected = useCallback(async (result: AttendanceRecord | null) => {
+    if (!correcting) return
+    const { record, mode } = correcting
+    setCorrecting(null)
+    setMarks(prev => {
+      const next = { ...prev }
+      delete next[record.rollNumber]
+      return next
+    })
+    if (useSample) {
+      // A record moved to another session no longer belongs on this register
+      const kept = result && result.sessionId === session.id ? result : null
+      setRows(prev => prev.map(row => (row.rollNumber === record.rollNumber
+        ? { ...row, saved: kept ? recordStatus(kept) : null, record: kept }
+        : row)))
+    } else {
+      await load()
+      onSaved()
+    }
+    setFeedback({ type: 'success', message: mode === 'delete' ? `Deleted the record for ${record.name}.` : `Updated the record for ${record.name}.` })
+  }, [correcting, useSample, session.id, load, onSaved])
+
+  const counts = ATTENDANCE_STATUS_ORDER.map(st => ({ status: st, count: rows.filter(row => statusOf(row) === st).length }))
+  const unmarked = rows.filter(row => !statusOf(row)).length
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+        <div className="w-full max-w-3xl max-h-[90vh] flex flex-col rounded-2xl bg-white shadow-xl" onClick={e => e.stopPropagation()}>
+          <div className="flex items-start justify-between gap-4 p-6 pb-4 border-b border-gray-100">
+            <div>
+              <h3 className="text-base font-semibold text-gray-800 flex items-center gap-2">
+                <FiClipboard className="w-5 h-5 text-emerald-600" />
+                Register — {session.subject}
+              </h3>
+              <p className="text-xs text-gray-500 mt-0.5">{session.date} at {session.time}</p>
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {counts.map(({ status, count }) => (
+                  <span key={status} className={`text-xs font-medium px-2 py-0.5 rounded-full ${ATTENDANCE_STATUS_STYLES[status].className}`}>
+                    {ATTENDANCE_STATUS_STYLES[status].label} {count}
+                  </span>
+                ))}
+                {unmarked > 0 && (
+                  <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">Unmarked {unmarked}</span>
+                )}
+              </div>
+            </div>
+            <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500" title="Close">
+              <FiX className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3">
+            <button
+              onClick={handleMarkAllPresent}
+              disabled={rows.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-emerald-200 text-emerald-700 hover:bg-emerald-50 disabled:opacity-50 transition-colors"
+            >
+              <FiCheckCircle className="w-3.5 h-3.5" />
+              Mark all present
+            </button>
+            <p className="text-[11px] text-gray-400">
+              ↑/↓ move · ←/→ cycle · {ATTENDANCE_STATUS_ORDER.map(st => `${ATTENDANCE_STATUS_STYLES[st].key} ${ATTENDANCE_STATUS_STYLES[st].label.toLowerCase()}`).join(' · ')}
+            </p>
+          </div>
+
+          <div
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            className="flex-1 overflow-y-auto px-6 outline-none focus-visible:ring-2 focus-visible:ring-emerald-300 rounded-lg"
+          >
+            {loading ? (
+              <LoadingSkeleton lines={6} />
+            ) : rows.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="border-b border-gray-100 text-left text-xs text-gray-500 uppercase tracking-wide">
+                    <th className="py-2 pr-3 font-medium">Roll No.</th>
+                    <th className="py-2 pr-3 font-medium">Name</th>
+                    <th className="py-2 font-medium text-right">Status</th>
+                    <th className="py-2 pl-2 w-16"><span className="sr-only">Corrections</span></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, i) => {
+                    const status = statusOf(row)
+                    const dirty = !!marks[row.rollNumber] && marks[row.rollNumber] !== row.saved
+                    return (
+                      <tr
+                        key={row.rollNumber}
+                        ref={el => { rowRefs.current[i] = el }}
+                        onClick={() => setFocusIndex(i)}
+                        className={`border-b border-gray-50 last:border-0 ${i === focusIndex ? 'bg-emerald-50/70' : ''}`}
+                      >
+                        <td className="py-2 pr-3 font-mono text-gray-700">{row.rollNumber}</td>
+                        <td className="py-2 pr-3 text-gray-800">
+                          {row.name}
+                          {row.selfCheckIn && <span className="ml-2 text-[11px] text-gray-400">self check-in</span>}
+                          {dirty && <span className="ml-2 text-[11px] text-amber-600">unsaved</span>}
+                        </td>
+                        <td className="py-2">
+                          <div className="flex justify-end gap-1">
+                            {ATTENDANCE_STATUS_ORDER.map(st => (
+                              <button
+                                key={st}
+                                type="button"
+                                tabIndex={-1}
+                                onClick={() => {
+                                  setFocusIndex(i)
+                                  setMark(row.rollNumber, st)
+                                }}
+                                title={ATTENDANCE_STATUS_STYLES[st].label}
+                                className={`w-8 h-7 rounded-md text-xs font-semibold border transition-colors ${status === st ? ATTENDANCE_STATUS_STYLES[st].activeClassName : 'bg-white text-gray-500 border-gray-200 hover:border-gray-300'}`}
+                              >
+                                {ATTENDANCE_STATUS_STYLES[st].key}
+                              </button>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="py-2 pl-2">
+                          {row.record && (
+                            <div className="flex justify-end gap-0.5">
+                              <button
+                                type="button"
+                                tabIndex={-1}
+                                onClick={() => setCorrecting({ record: row.record, mode: 'edit' })}
+                                className="p-1.5 rounded-lg hover:bg-emerald-100 text-gray-400 hover:text-emerald-700 transition-colors"
+                                title="Correct record"
+                              >
+                                <FiEdit2 className="w-3.5 h-3.5" />
+                              </button>
+                              <button
+                                type="button"
+                                tabIndex={-1}
+                                onClick={() => setCorrecting({ record: row.record, mode: 'delete' })}
+                                className="p-1.5 rounded-lg hover:bg-red-50 text-gray-400 hover:text-red-600 transition-colors"
+                                title="Delete record"
+                              >
+                                <FiTrash2 className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-center py-10 text-gray-400">
+                <FiUsers className="w-10 h-10 mx-auto mb-2 opacity-40" />
+                <p className="text-sm">No students are enrolled in {session.subject}</p>
+                <p className="text-xs mt-1">Add them from the Roster tab</p>
+              </div>
+            )}
+          </div>
+
+          <div className="p-6 pt-4 border-t border-gray-100 space-y-3">
+            {feedback && (
+              <InlineMessage type={feedback.type} message={feedback.message} onDismiss={() => setFeedback(null)} />
+            )}
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="text"
+                value={teacher}
+                onChange={e => setTeacher(e.target.value)}
+                placeholder="Marked by (your name)"
+                className="flex-1 min-w-[180px] px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+              />
+              <button
+                onClick={handleSave}
+                disabled={saving || changed.length === 0}
+                className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                {saving ? <FiLoader className="w-4 h-4 animate-spin" /> : <FiCheckCircle className="w-4 h-4" />}
+                Save {changed.length > 0 ? `${changed.length} change${changed.length === 1 ? '' : 's'}` : 'register'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {correcting && (
+        <RecordCorrectionDialog
+          record={correcting.record}
+          mode={correcting.mode}
+          useSample={useSample}
+          onClose={() => setCorrecting(null)}
+          onDone={handleCorrected}
+        />
+      )}
+    </>
+  )
+}
+
+/** Same alphabet as lib/sessionCode, which is server-only. */
+const SAMPLE_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+/** A static-code session that only lives in the page, for sample mode. */
+function createSampleSession(params: { subject: string; section: string; date: string; time: string; duration: number }): AttendanceSession {
+  let code = ''
+  for (let i = 0; i < 6; i++) code += SAMPLE_CODE_CHARS[Math.floor(Math.random() * SAMPLE_CODE_CHARS.length)]
+  return {
+    id: `sample-${params.date}-${Date.now()}`,
+    subject: params.subject,
+    section: params.section || undefined,
+    code,
+    date: params.date,
+    time: params.time,
+    duration: params.duration,
+    attendees: [],
+    created_at: new Date().toISOString(),
+  }
+}
+
+function CreateSessionTab({
+  useSample,
+  subjects,
+  termScope,
+  calendar,
+}: {
+  useSample: boolean
+  subjects: Subject[]
+  termScope: TermScope
+  calendar: CalendarEntry[]
+}) {
+  const [subject, setSubject] = useState('')
+  const [section, setSection] = useState('')
+  const [sections, setSections] = useState<string[]>([])
+  const [date, setDate] = useState('')
+  const [time, setTime] = useState('')
+  const [duration, setDuration] = useState('60')
+  const [rotatingCode, setRotatingCode] = useState(false)
+  const [rotationPeriod, setRotationPeriod] = useState(30)
+  const [repeatWeekly, setRepeatWeekly] = useState(false)
+  const [repeatUntil, setRepeatUntil] = useState('')
+  const [sessions, setSessions] = useState<AttendanceSession[]>([])
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error' | 'info'; message: string } | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [sessionsLoading, setSessionsLoading] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [actingId, setActingId] = useState<string | null>(null)
+  const [qrSessionId, setQrSessionId] = useState<string | null>(null)
+  const [kioskSessionId, setKioskSessionId] = useState<string | null>(null)
+
+  // Default to the first catalog subject, and move off one that was removed
+  useEffect(() => {
+    if (subjects.length > 0 && !subjects.some(s => s.code === subject)) setSubject(subjects[0].code)
+  }, [subjects, subject])
+  const [registerSessionId, setRegisterSessionId] = useState<string | null>(null)
+  const [now, setNow] = useState(() => new Date())
+
+  // Re-evaluate statuses so sessions open and close on schedule without a reload
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 15_000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const readOnly = isArchived(termScope.term)
+  const dayEntries = useMemo(() => (date ? entriesOn(calendar, date) : []), [calendar, date])
+  const blockedBy = dayEntries.find(e => e.blocking) ?? null
+  // Weekly classes run to the chosen date, or to the end of the term
+  const until = repeatUntil || termScope.term?.end || ''
+  const projection = useMemo(
+    () => (repeatWeekly && date && until ? recurringDates(date, until, calendar) : null),
+    [repeatWeekly, date, until, calendar]
+  )
+  const withStatus = useMemo(
+    () => sessionsInTerm(sessions, termScope.terms, termScope.term).map(session => ({ session, status: getSessionStatus(session, now) })),
+    [sessions, termScope, now]
+  )
+  const activeSessions = withStatus.filter(({ status }) => status === 'scheduled' || status === 'open')
+  const pastSessions = withStatus.filter(({ status }) => status === 'closed' || status === 'cancelled')
+  const qrSession = withStatus.find(({ session }) => session.id === qrSessionId)
+  const kioskSession = sessions.find(session => session.id === kioskSessionId)
+  const registerSession = sessions.find(session => session.id === registerSessionId)
+
+  const handleKioskClose = useCallback((latest: AttendanceSession) => {
+    setSessions(prev => prev.map(s => (s.id === latest.id ? latest : s)))
+    setKioskSessionId(null)
+  }, [])
+
+  const loadSessions = useCallback(async () => {
+    setSessionsLoading(true)
+    const res = await listSessions()
+    if (res.success) {
+      setSessions(res.sessions)
+    } else {
+      setFeedback({ type: 'error', message: res.error ?? 'Failed to load sessions.' })
+    }
+    setSessionsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (useSample) {
+      setSessions(SAMPLE_SESSIONS)
+    } else {
+      setSessions([])
+      loadSessions()
+    }
+  }, [useSample, loadSessions])
+
+  useEffect(() => {
+    if (useSample) {
+      setSections(listSections(SAMPLE_STUDENTS))
+      return
+    }
+    listStudents().then(res => {
+      if (res.success) setSections(listSections(res.students))
+    })
+  }, [useSample])
+
+  const handleCreate = useCallback(async () => {
+    if (!date || !time) {
+      setFeedback({ type: 'error', message: 'Please select a date and time.' })
+      return
+    }
+    if (projection && projection.dates.length === 0) {
+      setFeedback({ type: 'error', message: 'Every week in that range falls on a calendar day; nothing to create.' })
+      return
+    }
+    if (projection && projection.dates.length > MAX_WEEKLY_REPEATS) {
+      setFeedback({ type: 'error', message: `Repeat for at most ${MAX_WEEKLY_REPEATS} weeks at a time.` })
+      return
+    }
+    setCreating(true)
+    setFeedback(null)
+    try {
+      const params = {
+        subject,
+        section,
+        time,
+        duration: parseInt(duration) || 60,
+        rotating: rotatingCode,
+        rotationPeriod: rotatingCode ? rotationPeriod : undefined,
+      }
+
+      if (useSample) {
+        // Newest first, like the list
+        const created = (projection ? projection.dates : [date]).map(day => createSampleSession({ ...params, date: day })).reverse()
+        setSessions(prev => [...created, ...prev])
+        const message = created.length === 1 ? `Session created! Code: ${created[0].code}` : `Created ${created.length} weekly session(s).`
+        setFeedback(
+          rotatingCode
+            ? { type: 'info', message: `${message} Sample sessions use a static code; rotating codes need the server.` }
+            : { type: 'success', message }
+        )
+        setDate('')
+        setTime('')
+        return
+      }
+
+      if (!projection) {
+        const res = await createSession({ ...params, date })
+        if (res.success && res.session) {
+          const created = res.session
+          setSessions(prev => [created, ...prev])
+          const message = created.rotation
+            ? `Session created! The code rotates every ${created.rotation.period}s once the session opens.`
+            : `Session created! Code: ${created.code}`
+          setFeedback(
+            res.warnings && res.warnings.length > 0
+              ? { type: 'info', message: `${message} Note: ${res.warnings.join('; ')}` }
+              : { type: 'success', message }
+          )
+          setDate('')
+          setTime('')
+        } else {
+          setFeedback({ type: 'error', message: res.error ?? 'Failed to create session.' })
+        }
+        return
+      }
+
+      // One session per week; the server still refuses any blocking day added since the preview
+      const created: AttendanceSession[] = []
+      const failures: string[] = []
+      for (const day of projection.dates) {
+        const res = await createSession({ ...params, date: day })
+        if (res.success && res.session) created.push(res.session)
+        else failures.push(`${day}: ${res.error ?? 'failed'}`)
+      }
+      setSessions(prev => [...created.reverse(), ...prev])
+      const skipped = projection.skipped.length > 0 ? ` Skipped ${projection.skipped.length} calendar day(s).` : ''
+      if (failures.length > 0) {
+        setFeedback({ type: 'error', message: `Created ${created.length} session(s).${skipped} Failed: ${failures.join('; ')}` })
+      } else {
+        setFeedback({ type: 'success', message: `Created ${created.length} weekly session(s).${skipped}` })
+        setDate('')
+        setTime('')
+      }
+    } finally {
+      setCreating(false)
+    }
+  }, [subject, section, date, time, duration, rotatingCode, rotationPeriod, projection, useSample])
+
+  const handleAction = useCallback(async (session: AttendanceSession, action: SessionAction) => {
+    if (action === 'cancel' && !confirm(`Cancel the ${session.subject} session on ${session.date}? Students will no longer be able to check in.`)) {
+      return
+    }
+    if (useSample) {
+      const at = new Date().toISOString()
+      const patch: Partial<AttendanceSession> =
+        action === 'open' ? { opened_at: at, closed_at: undefined } : action === 'close' ? { closed_at: at } : { cancelled_at: at }
+      setSessions(prev => prev.map(s => (s.id === session.id ? { ...s, ...patch } : s)))
+      setNow(new Date())
+      return
+    }
+    setActingId(session.id)
+    setFeedback(null)
+    try {
+      const res = await setSessionState(session.id, action)
+      const updated = res.session
+      if (updated) {
+        setSessions(prev => prev.map(s => (s.id === updated.id ? updated : s)))
+      }
+      setNow(new Date())
+      if (!res.success) {
+        setFeedback({ type: 'error', message: res.error ?? 'Failed to update the session.' })
+      }
+    } finally {
+      setActingId(null)
+    }
+  }, [useSample])
+
+  const handleCopy = useCallback((sessionCode: string, sessionId: string) => {
+    navigator.clipboard.writeText(sessionCode).then(() => {
+      setCopiedId(sessionId)
+      setTimeout(() => setCopiedId(null), 2000)
+    }).catch(() => {
+      // fallback
+    })
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight text-gray-900">Create Session</h2>
+        <p className="text-gray-500 mt-1">Set up a new attendance session and generate a check-in code</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <GlassCard className="p-6">
+          <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+            <FiPlus className="w-5 h-5 text-emerald-600" />
+            New Session
+          </h3>
+          <div className="space-y-4">
+            {readOnly && termScope.term && (
+              <InlineMessage type="info" message={`${termScope.term.name} is archived. Switch to the current term to create sessions.`} />
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">Subject</label>
+                <select
+                  value={subject}
+                  onChange={e => setSubject(e.target.value)}
+                  className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                >
+                  {subjects.map(s => (
+                    <option key={s.code} value={s.code}>{s.code} — {s.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">Section / Batch</label>
+                <select
+                  value={section}
+                  onChange={e => setSection(e.target.value)}
+                  className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                >
+                  <option value="">All sections</option>
+                  {sections.map(sec => (
+                    <option key={sec} value={sec}>Section {sec}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">Date</label>
+                <input
+                  type="date"
+                  value={date}
+                  onChange={e => setDate(e.target.value)}
+                  className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">Time</label>
+                <input
+                  type="time"
+                  value={time}
+                  onChange={e => setTime(e.target.value)}
+                  className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                />
+              </div>
+            </div>
+
+            {dayEntries.length > 0 && !repeatWeekly && (
+              <InlineMessage
+                type={blockedBy ? 'error' : 'info'}
+                message={
+                  blockedBy
+                    ? `No classes on ${date}: ${describeEntry(blockedBy)}.`
+                    : `${date} is on the calendar: ${dayEntries.map(describeEntry).join('; ')}. The session can still be created.`
+                }
+              />
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Duration (minutes)</label>
+              <input
+                type="number"
+                value={duration}
+                onChange={e => setDuration(e.target.value)}
+                min={15}
+                max={180}
+                step={15}
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+              />
+            </div>
+
+            <div className="p-3 rounded-xl border border-gray-200 bg-white/60">
+              <label className="flex items-start gap-2.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={repeatWeekly}
+                  onChange={e => setRepeatWeekly(e.target.checked)}
+                  className="mt-0.5 w-4 h-4 accent-emerald-600"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-700">Repeat weekly</span>
+                  <span className="block text-xs text-gray-400">
+                    Same day and time every week; holidays, exam weeks and cancelled days are skipped
+                  </span>
+                </span>
+              </label>
+              {repeatWeekly && (
+                <div className="mt-3 pl-6 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-500">Until</span>
+                    <input
+                      type="date"
+                      value={repeatUntil}
+                      min={date || undefined}
+                      onChange={e => setRepeatUntil(e.target.value)}
+                      className="px-3 py-1.5 rounded-lg border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-xs"
+                    />
+                    {!repeatUntil && termScope.term && (
+                      <span className="text-xs text-gray-400">end of {termScope.term.name} ({termScope.term.end})</span>
+                    )}
+                  </div>
+                  {projection ? (
+                    <div className="text-xs text-gray-600 space-y-1">
+                      <p>
+                        <span className="font-semibold text-gray-800">{projection.dates.length}</span> class(es) from {date} to {until}
+                        {projection.skipped.length > 0 && `, leaving out ${projection.skipped.length} calendar day(s):`}
+                      </p>
+                      {projection.skipped.length > 0 && (
+                        <ul className="space-y-0.5">
+                          {projection.skipped.map(({ date: day, entry }) => (
+                            <li key={day} className="flex items-center gap-2">
+                              <span className={`px-1.5 py-0.5 rounded-full ${CALENDAR_KIND_STYLES[entry.kind].className}`}>
+                                {CALENDAR_KIND_STYLES[entry.kind].label}
+                              </span>
+                              {day} — {entry.label}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-400">Pick a start date and an end date to see the classes that will be created.</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="p-3 rounded-xl border border-gray-200 bg-white/60">
+              <label className="flex items-start gap-2.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rotatingCode}
+                  onChange={e => setRotatingCode(e.target.checked)}
+                  className="mt-0.5 w-4 h-4 accent-emerald-600"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-700">Rotating code</span>
+                  <span className="block text-xs text-gray-400">
+                    The code changes on screen so forwarded codes stop working
+                  </span>
+                </span>
+              </label>
+              {rotatingCode && (
+                <div className="mt-3 flex items-center gap-2 pl-6">
+                  <span className="text-xs text-gray-500">Change every</span>
+                  {ROTATION_PERIOD_OPTIONS.map(p => (
+                    <button
+                      key={p}
+                      type="button"
+                      onClick={() => setRotationPeriod(p)}
+                      className={`px-2.5 py-1 rounded-lg text-xs font-medium border transition-colors ${rotationPeriod === p ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-white text-gray-600 border-gray-200 hover:border-emerald-300'}`}
+                    >
+                      {p}s
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {feedback && (
+              <InlineMessage type={feedback.type} message={feedback.message} onDismiss={() => setFeedback(null)} />
+            )}
+
+            <button
+              onClick={handleCreate}
+              disabled={creating || readOnly || (!repeatWeekly && !!blockedBy)}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-emerald-600 text-white font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
+            >
+              {creating ? (
+                <>
+                  <FiLoader className="w-4 h-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <FiPlus className="w-4 h-4" />
+                  {projection ? `Create ${projection.dates.length} Sessions` : 'Create Session'}
+                </>
+              )}
+            </button>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-base font-semibold text-gray-800 flex items-center gap-2">
+              <FiCalendar className="w-5 h-5 text-emerald-600" />
+              Active Sessions
+            </h3>
+            {!useSample && (
+              <button onClick={loadSessions} disabled={sessionsLoading} className="text-emerald-600 hover:text-emerald-700" title="Refresh sessions">
+                <FiRefreshCw className={`w-3.5 h-3.5 ${sessionsLoading ? 'animate-spin' : ''}`} />
+              </button>
+            )}
+          </div>
+          {sessionsLoading ? (
+            <LoadingSkeleton lines={4} />
+          ) : activeSessions.length > 0 ? (
+            <div className="space-y-3 max-h-[400px] overflow-y-auto pr-1">
+              {activeSessions.map(({ session, status }) => (
+                <SessionCard
+                  key={session.id}
+                  session={session}
+                  status={status}
+                  copied={copiedId === session.id}
+                  busy={actingId === session.id}
+                  onCopy={code => handleCopy(code, session.id)}
+                  onShowQr={() => setQrSessionId(session.id)}
+                  onPresent={() => setKioskSessionId(session.id)}
+                  onRegister={() => setRegisterSessionId(session.id)}
+                  onAction={action => handleAction(session, action)}
+                  subjects={subjects}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-10 text-gray-400">
+              <FiCalendar className="w-10 h-10 mx-auto mb-2 opacity-40" />
+              <p className="text-sm">No active sessions</p>
+              <p className="text-xs mt-1">Create a session to generate an attendance code</p>
+            </div>
+          )}
+        </GlassCard>
+      </div>
+
+      {registerSession && (
+        <SessionRegister
+          session={registerSession}
+          useSample={useSample}
+          onClose={() => setRegisterSessionId(null)}
+          onSaved={loadSessions}
+        />
+      )}
+
+      {kioskSession && (
+        <SessionKiosk session={kioskSession} useSample={useSample} onClose={handleKioskClose} />
+      )}
+
+      {qrSession && (
+        <SessionQrModal session={qrSession.session} status={qrSession.status} onClose={() => setQrSessionId(null)} />
+      )}
+
+      {pastSessions.length > 0 && (
+        <GlassCard className="p-6">
+          <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+            <FiClock className="w-5 h-5 text-emerald-600" />
+            Session History
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100 text-left text-xs text-gray-500 uppercase tracking-wide">
+                  <th className="py-2 pr-3 font-medium">Subject</th>
+                  <th className="py-2 pr-3 font-medium">Date</th>
+                  <th className="py-2 pr-3 font-medium">Code</th>
+                  <th className="py-2 pr-3 font-medium">Checked In</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2 font-medium text-right"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {pastSessions.map(({ session: s, status }) => (
+                  <tr key={s.id} className="border-b border-gray-50 last:border-0">
+                    <td className="py-2.5 pr-3 font-medium text-gray-800">{s.subject}</td>
+                    <td className="py-2.5 pr-3 text-gray-600">{s.date} at {s.time}</td>
+                    <td className="py-2.5 pr-3 font-mono text-gray-500">{s.rotation ? `rotating (${s.rotation.period}s)` : s.code}</td>
+                    <td className="py-2.5 pr-3 text-gray-600">{s.attendees.length}</td>
+                    <td className="py-2.5 pr-3">
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${SESSION_STATUS_STYLES[status].className}`}>
+                        {SESSION_STATUS_STYLES[status].label}
+                      </span>
+                    </td>
+                    <td className="py-2.5 text-right">
+                      {status === 'closed' && !readOnly && (
+                        <div className="flex justify-end gap-3">
+                          <button
+                            onClick={() => setRegisterSessionId(s.id)}
+                            className="text-xs font-medium text-emerald-600 hover:text-emerald-700"
+                          >
+                            Register
+                          </button>
+                          <button
+                            onClick={() => handleAction(s, 'open')}
+                            disabled={actingId === s.id}
+                            className="text-xs font-medium text-emerald-600 hover:text-emerald-700 disabled:opacity-50"
+                          >
+                            Reopen
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </GlassCard>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// Calendar Tab
+// ============================================================================
+
+function CalendarTab({
+  useSample,
+  entries,
+  loading,
+  termScope,
+  onChanged,
+}: {
+  useSample: boolean
+  entries: CalendarEntry[]
+  loading: boolean
+  termScope: TermScope
+  onChanged: () => Promise<void>
+}) {
+  const { term } = termScope
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(undefined)
+  const [kind, setKind] = useState<CalendarDayKind>('holiday')
+  const [label, setLabel] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [blocking, setBlocking] = useState(DEFAULT_BLOCKING.holiday)
+  const [saving, setSaving] = useState(false)
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+
+  // Open on today when it is in the term, else on the term's first month
+  const defaultMonth = useMemo(() => {
+    const today = toLocalDate(new Date())
+    if (!term || (term.start <= today && today <= term.end)) return new Date()
+    return new Date(`${term.start}T00:00:00`)
+  }, [term])
+
+  const modifiers = useMemo(
+    () => Object.fromEntries(
+      CALENDAR_DAY_KINDS.map(k => [k, (day: Date) => entriesOn(entries, toLocalDate(day)).some(e => e.kind === k)])
+    ),
+    [entries]
+  )
+  const modifiersClassNames = useMemo(
+    () => Object.fromEntries(CALENDAR_DAY_KINDS.map(k => [k, CALENDAR_KIND_STYLES[k].dayClassName])),
+    []
+  )
+
+  const selectedDate = selectedDay ? toLocalDate(selectedDay) : ''
+  const selectedEntries = selectedDate ? entriesOn(entries, selectedDate) : []
+  const listed = term ? entries.filter(e => e.from <= term.end && term.start <= e.to) : entries
+
+  const handleSelectDay = useCallback((day: Date | undefined) => {
+    setSelectedDay(day)
+    if (day) {
+      setFrom(toLocalDate(day))
+      setTo(toLocalDate(day))
+    }
+  }, [])
+
+  const handleKind = useCallback((next: CalendarDayKind) => {
+    setKind(next)
+    setBlocking(DEFAULT_BLOCKING[next])
+  }, [])
+
+  const handleAdd = useCallback(async () => {
+    if (!label.trim() || !from) {
+      setFeedback({ type: 'error', message: 'A label and a start date are required.' })
+      return
+    }
+    setSaving(true)
+    setFeedback(null)
+    try {
+      const res = await createCalendarEntry({ kind, label: label.trim(), from, to: to || from, blocking })
+      if (res.success && res.entry) {
+        setFeedback({ type: 'success', message: `Added ${describeEntry(res.entry)}.` })
+        setLabel('')
+        await onChanged()
+      } else {
+        setFeedback({ type: 'error', message: res.error ?? 'Failed to add the calendar entry.' })
+      }
+    } finally {
+      setSaving(false)
+    }
+  }, [kind, label, from, to, blocking, onChanged])
+
+  const handleDelete = useCallback(async (entry: CalendarEntry) => {
+    if (!confirm(`Remove ${describeEntry(entry)} from the calendar? Sessions already created are kept.`)) return
+    const res = await deleteCalendarEntry(entry.id)
+    if (res.success) {
+      await onChanged()
+    } else {
+      setFeedback({ type: 'error', message: res.error ?? 'Failed to remove the calendar entry.' })
+    }
+  }, [onChanged])
+
+  const inputClass = 'w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm disabled:opacity-60'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight text-gray-900">Institution Calendar</h2>
+        <p className="text-gray-500 mt-1">Holidays, exam weeks and cancelled days that sessions and weekly classes work around</p>
+      </div>
+
+      {useSample && (
+        <InlineMessage type="info" message="Sample data shows an example calendar. Turn off Sample Data to edit it." />
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <GlassCard className="p-6 h-fit">
+          <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+            <FiCalendar className="w-5 h-5 text-emerald-600" />
+            {term ? term.name : 'Calendar'}
+          </h3>
+          <Calendar
+            key={term?.id ?? 'all'}
+            mode="single"
+            selected={selectedDay}
+            onSelect={handleSelectDay}
+            defaultMonth={defaultMonth}
+            modifiers={modifiers}
+            modifiersClassNames={modifiersClassNames}
+            className="mx-auto rounded-xl bg-white/60"
+          />
+          <div className="flex flex-wrap gap-2 mt-4">
+            {CALENDAR_DAY_KINDS.map(k => (
+              <span key={k} className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${CALENDAR_KIND_STYLES[k].className}`}>
+                {CALENDAR_KIND_STYLES[k].label}
+              </span>
+            ))}
+          </div>
+          {selectedDate && (
+            <div className="mt-4 text-sm">
+              <p className="font-medium text-gray-700">{selectedDate}</p>
+              {selectedEntries.length > 0 ? (
+                <ul className="mt-1 space-y-1">
+                  {selectedEntries.map(e => (
+                    <li key={e.id} className="text-gray-600">
+                      {e.label} <span className="text-xs text-gray-400">({e.blocking ? 'no classes' : 'classes allowed'})</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-400 mt-1">A regular teaching day.</p>
+              )}
+            </div>
+          )}
+        </GlassCard>
+
+        <GlassCard className="p-6 h-fit">
+          <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+            <FiPlus className="w-5 h-5 text-emerald-600" />
+            Add Day or Range
+          </h3>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">Kind</label>
+                <select
+                  value={kind}
+                  onChange={e => handleKind(e.target.value as CalendarDayKind)}
+                  disabled={useSample}
+                  className={inputClass}
+                >
+                  {CALENDAR_DAY_KINDS.map(k => (
+                    <option key={k} value={k}>{CALENDAR_KIND_STYLES[k].label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">Label</label>
+                <input
+                  type="text"
+                  value={label}
+                  onChange={e => setLabel(e.target.value)}
+                  disabled={useSample}
+                  placeholder="e.g. Diwali"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">From</label>
+                <input type="date" value={from} onChange={e => setFrom(e.target.value)} disabled={useSample} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">To</label>
+                <input
+                  type="date"
+                  value={to}
+                  min={from || undefined}
+                  onChange={e => setTo(e.target.value)}
+                  disabled={useSample}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-start gap-2.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={blocking}
+                onChange={e => setBlocking(e.target.checked)}
+                disabled={useSample}
+                className="mt-0.5 w-4 h-4 accent-emerald-600"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">No classes</span>
+                <span className="block text-xs text-gray-400">
+                  Block new sessions on these days. Otherwise creating one only shows a warning.
+                </span>
+              </span>
+            </label>
+
+            {feedback && (
+              <InlineMessage type={feedback.type} message={feedback.message} onDismiss={() => setFeedback(null)} />
+            )}
+
+            <button
+              onClick={handleAdd}
+              disabled={saving || useSample}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-emerald-600 text-white font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
+            >
+              {saving ? <FiLoader className="w-4 h-4 animate-spin" /> : <FiPlus className="w-4 h-4" />}
+              Add to Calendar
+            </button>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-6">
+          <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+            <FiClipboard className="w-5 h-5 text-emerald-600" />
+            {term ? `In ${term.name}` : 'All Entries'} ({listed.length})
+          </h3>
+          {loading && entries.length === 0 ? (
+            <LoadingSkeleton lines={4} />
+          ) : listed.length > 0 ? (
+            <div className="space-y-2 max-h-[480px] overflow-y-auto pr-1">
+              {listed.map(entry => (
+                <div key={entry.id} className="flex items-start justify-between gap-2 p-3 rounded-xl border border-gray-100 bg-white/60">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${CALENDAR_KIND_STYLES[entry.kind].className}`}>
+                        {CALENDAR_KIND_STYLES[entry.kind].label}
+                      </span>
+                      <span className="text-sm font-medium text-gray-800 truncate">{entry.label}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {entry.from === entry.to ? entry.from : `${entry.from} to ${entry.to}`} · {entry.blocking ? 'No classes' : 'Classes allowed'}
+                    </p>
+                  </div>
+                  {!useSample && (
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      className="p-1.5 rounded-lg hover:bg-red-50 transition-colors text-red-500"
+                      title="Remove from calendar"
+                    >
+                      <FiTrash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-10 text-gray-400">
+              <FiCalendar className="w-10 h-10 mx-auto mb-2 opacity-40" />
+              <p className="text-sm">No holidays or exam weeks yet</p>
+              <p className="text-xs mt-1">Pick a day on the calendar to add one</p>
+            </div>
+          )}
+        </GlassCard>
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// Roster Tab
+// ============================================================================
+
+const IMPORT_KIND_STYLES: Record<ImportRowKind, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-emerald-100 text-emerald-700' },
+  updated: { label: 'Updated', className: 'bg-blue-100 text-blue-700' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-600' },
+  conflict: { label: 'Conflict', className: 'bg-amber-100 text-amber-800' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-700' },
+}
+
+function RosterImportPanel({
+  roster,
+  subjects,
+  onImported,
+  onClose,
+}: {
+  roster: Student[]
+  subjects: Subject[]
+  onImported: (message: string) => void
+  onClose: () => void
+}) {
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<ColumnMapping>({ rollNumber: null, name: null, section: null, subjects: null })
+  const [reading, setReading] = useState(false)
+  const [committing, setCommitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [kindFilter, setKindFilter] = useState<ImportRowKind | 'all'>('all')
+
+  const headers = rows[0] ?? []
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.key] === null)
+  const mappingReady = missingRequired.length === 0
+
+  const preview = useMemo(
+    () => (rows.length > 1 && mappingReady ? buildImportPreview(rows, mapping, roster, subjects.map(s => s.code)) : null),
+    [rows, mapping, roster, subjects, mappingReady]
+  )
+
+  const handleFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setReading(true)
+    setError(null)
+    try {
+      const parsed = await readSpreadsheet(file)
+      if (parsed.length < 2) {
+        setError('The file needs a header row and at least one student row.')
+        setRows([])
+      } else {
+        setRows(parsed)
+        setMapping(guessColumnMapping(parsed[0] ?? []))
+        setFileName(file.name)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file.')
+      setRows([])
+    } finally {
+      setReading(false)
+    }
+  }, [])
+
+  const handleCommit = useCallback(async () => {
+    if (!preview) return
+    const toSave = preview.rows.filter(r => r.kind === 'new' || r.kind === 'updated').map(r => r.student)
+    if (toSave.length === 0) return
+    setCommitting(true)
+    setError(null)
+    try {
+      const res = await importStudents(toSave)
+      if (res.success) {
+        const skipped = res.skipped.length > 0 ? `, ${res.skipped.length} skipped` : ''
+        onImported(`Imported ${fileName}: ${res.created} added, ${res.updated} updated${skipped}.`)
+        setRows([])
+        setFileName('')
+      } else {
+        setError(res.error ?? 'Import failed.')
+      }
+    } finally {
+      setCommitting(false)
+    }
+  }, [preview, fileName, onImported])
+
+  const visibleRows = preview ? preview.rows.filter(r => kindFilter === 'all' || r.kind === kindFilter) : []
+  const commitCount = preview ? preview.counts.new + preview.counts.updated : 0
+
+  return (
+    <GlassCard className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-base font-semibold text-gray-800 flex items-center gap-2">
+          <FiUpload className="w-5 h-5 text-emerald-600" />
+          Import Roster
+        </h3>
+        <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500" title="Close import">
+          <FiX className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <label className="flex flex-col items-center justify-center gap-2 p-6 rounded-xl border-2 border-dashed border-emerald-200 bg-emerald-50/40 cursor-pointer hover:border-emerald-400 transition-colors">
+          {reading ? <FiLoader className="w-6 h-6 text-emerald-500 animate-spin" /> : <FiUpload className="w-6 h-6 text-emerald-500" />}
+          <span className="text-sm font-medium text-gray-700">{fileName || 'Choose a CSV or XLSX class list'}</span>
+          <span className="text-xs text-gray-400">Parsed in your browser. Columns: roll number, name, section, subjects</span>
+          <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+
+        {error && <InlineMessage type="error" message={error} onDismiss={() => setError(null)} />}
+
+        {headers.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  {field.label}{field.required ? ' *' : ''}
+                </label>
+                <select
+                  value={mapping[field.key] ?? ''}
+                  onChange={e => {
+                    const value = e.target.value === '' ? null : parseInt(e.target.value)
+                    setMapping(prev => ({ ...prev, [field.key as ImportField]: value }))
+                  }}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 outline-none text-sm"
+                >
+                  <option value="">Not mapped</option>
+                  {headers.map((h, i) => (
+                    <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {headers.length > 0 && missingRequired.length > 0 && (
+          <InlineMessage type="info" message={`Map the ${missingRequired.map(f => f.label).join(' and ')} column to preview the import.`} />
+        )}
+
+        {preview && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setKindFilter('all')}
+                className={`text-xs font-medium px-3 py-1 rounded-full border ${kindFilter === 'all' ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-600 border-gray-200'}`}
+              >
+                All ({preview.rows.length})
+              </button>
+              {(Object.keys(IMPORT_KIND_STYLES) as ImportRowKind[]).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setKindFilter(kind)}
+                  className={`text-xs font-medium px-3 py-1 rounded-full border ${kindFilter === kind ? 'border-gray-800' : 'border-transparent'} ${IMPORT_KIND_STYLES[kind].className}`}
+                >
+                  {IMPORT_KIND_STYLES[kind].label} ({preview.counts[kind]})
+                </button>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto max-h-[360px] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Row</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Roll No</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Name</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Section</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Subjects</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Status</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map(r => (
+                    <tr key={r.line} className="border-b border-gray-100 last:border-0 align-top">
+                      <td className="py-2 px-2 text-gray-400">{r.line}</td>
+                      <td className="py-2 px-2 font-mono text-gray-700">{r.student.rollNumber || '--'}</td>
+                      <td className="py-2 px-2 text-gray-800">{r.student.name || '--'}</td>
+                      <td className="py-2 px-2 text-gray-600">{r.student.section || '--'}</td>
+                      <td className="py-2 px-2 text-gray-600">{r.student.subjects.join(', ') || '--'}</td>
+                      <td className="py-2 px-2">
+                        <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${IMPORT_KIND_STYLES[r.kind].className}`}>
+                          {IMPORT_KIND_STYLES[r.kind].label}
+                        </span>
+                      </td>
+                      <td className="py-2 px-2 text-xs">
+                        {r.errors.map((err, i) => (
+                          <p key={i} className={r.kind === 'invalid' ? 'text-red-600' : 'text-amber-700'}>{err}</p>
+                        ))}
+                        {r.changes.map((c, i) => (
+                          <p key={i} className="text-blue-700">{c}</p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <p className="text-xs text-gray-500">
+                Conflicting and invalid rows are not imported. Fix them in the file and upload it again.
+              </p>
+              <button
+                onClick={handleCommit}
+                disabled={committing || commitCount === 0}
+                className="flex items-center justify-center gap-2 px-5 py-2.5 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
+              >
+                {committing ? <FiLoader className="w-4 h-4 animate-spin" /> : <FiCheckCircle className="w-4 h-4" />}
+                Import {commitCount} student{commitCount === 1 ? '' : 's'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </GlassCard>
+  )
+}
+
+function RosterTab({ useSample, subjects: catalog }: { useSample: boolean; subjects: Subject[] }) {
+  const [students, setStudents] = useState<Student[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+  const [search, setSearch] = useState('')
+  const [sectionFilter, setSectionFilter] = useState(ALL_SECTIONS)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [rollNumber, setRollNumber] = useState('')
+  const [name, setName] = useState('')
+  const [section, setSection] = useState('')
+  const [subjects, setSubjects] = useState<string[]>([])
+  const [showImport, setShowImport] = useState(false)
+
+  const loadStudents = useCallback(async () => {
+    setLoading(true)
+    const res = await listStudents()
+    if (res.success) {
+      setStudents(res.students)
+    } else {
+      setFeedback({ type: 'error', message: res.error ?? 'Failed to load roster.' })
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (useSample) {
+      setStudents(SAMPLE_STUDENTS)
+    } else {
+      setStudents([])
+      loadStudents()
+    }
+  }, [useSample, loadStudents])
+
+  const resetForm = useCallback(() => {
+    setEditingId(null)
+    setRollNumber('')
+    setName('')
+    setSection('')
+    setSubjects([])
+  }, [])
+
+  const toggleSubject = useCallback((subject: string) => {
+    setSubjects(prev => (prev.includes(subject) ? prev.filter(s => s !== subject) : [...prev, subject]))
+  }, [])
+
+  const handleEdit = useCallback((student: Student) => {
+    setEditingId(student.id)
+    setRollNumber(student.rollNumber)
+    setName(student.name)
+    setSection(student.section)
+    setSubjects(student.subjects)
+    setFeedback(null)
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    if (!rollNumber.trim() || !name.trim()) {
+      setFeedback({ type: 'error', message: 'Roll number and name are required.' })
+      return
+    }
+    setSaving(true)
+    setFeedback(null)
+    try {
+      const fields = { rollNumber: rollNumber.trim(), name: name.trim(), section: section.trim(), subjects }
+      const res = editingId ? await updateStudent(editingId, fields) : await createStudent(fields)
+      if (res.success && res.student) {
+        const saved = res.student
+        setStudents(prev => {
+          const rest = prev.filter(s => s.id !== saved.id)
+          return [...rest, saved].sort((a, b) => a.rollNumber.localeCompare(b.rollNumber, undefined, { numeric: true }))
+        })
+        setFeedback({ type: 'success', message: editingId ? `Updated ${saved.name}.` : `Added ${saved.name} to the roster.` })
+        resetForm()
+      } else {
+        setFeedback({ type: 'error', message: res.error ?? 'Failed to save student.' })
+      }
+    } finally {
+      setSaving(false)
+    }
+  }, [editingId, rollNumber, name, section, subjects, resetForm])
+
+  const handleDelete = useCallback(async (student: Student) => {
+    if (!confirm(`Remove ${student.name} (${student.rollNumber}) from the roster?`)) return
+    const res = await deleteStudent(student.id)
+    if (res.success) {
+      setStudents(prev => prev.filter(s => s.id !== student.id))
+      if (editingId === student.id) resetForm()
+    } else {
+      setFeedback({ type: 'error', message: res.error ?? 'Failed to remove student.' })
+    }
+  }, [editingId, resetForm])
+
+  const handleImported = useCallback((message: string) => {
+    setFeedback({ type: 'success', message })
+    setShowImport(false)
+    loadStudents()
+  }, [loadStudents])
+
+  const sections = useMemo(() => listSections(students), [students])
+  const term = search.trim().toLowerCase()
+  const inSection = sectionFilter === ALL_SECTIONS ? students : students.filter(s => s.section === sectionFilter)
+  const visible = term
+    ? inSection.filter(s =>
+        s.name.toLowerCase().includes(term) ||
+        s.rollNumber.toLowerCase().includes(term) ||
+        s.section.toLowerCase().includes(term)
+      )
+    : inSection
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight text-gray-900">Student Roster</h2>
+          <p className="text-gray-500 mt-1">Manage students and their subject enrolment</p>
+        </div>
+        {!showImport && (
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/80 border border-emerald-200 text-emerald-700 text-sm font-medium hover:bg-emerald-50 transition-all"
+          >
+            <FiUpload className="w-4 h-4" />
+            Import CSV / XLSX
+          </button>
+        )}
+      </div>
+
+      {showImport && (
+        <RosterImportPanel roster={students} subjects={catalog} onImported={handleImported} onClose={() => setShowImport(false)} />
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <GlassCard className="p-6 h-fit">
+          <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+            {editingId ? <FiEdit2 className="w-5 h-5 text-emerald-600" /> : <FiPlus className="w-5 h-5 text-emerald-600" />}
+            {editingId ? 'Edit Student' : 'Add Student'}
+          </h3>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Roll Number</label>
+              <input
+                type="text"
+                value={rollNumber}
+                onChange={e => setRollNumber(e.target.value)}
+                placeholder="e.g. 101"
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="e.g. Rahul Sharma"
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Section</label>
+              <input
+                type="text"
+                value={section}
+                onChange={e => setSection(e.target.value.toUpperCase())}
+                placeholder="e.g. A"
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Enrolled Subjects</label>
+              <div className="flex flex-wrap gap-2">
+                {catalog.map(({ code, name }) => (
+                  <button
+                    key={code}
+                    type="button"
+                    title={name}
+                    onClick={() => toggleSubject(code)}
+                    className={`text-xs font-medium px-3 py-1 rounded-full border transition-all ${subjects.includes(code) ? getSubjectLightColor(catalog, code) : 'bg-white text-gray-400 border-gray-200 hover:border-emerald-300'}`}
+                  >
+                    {code}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {feedback && (
+              <InlineMessage type={feedback.type} message={feedback.message} onDismiss={() => setFeedback(null)} />
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-emerald-600 text-white font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
+              >
+                {saving ? <FiLoader className="w-4 h-4 animate-spin" /> : <FiCheckCircle className="w-4 h-4" />}
+                {editingId ? 'Save Changes' : 'Add Student'}
+              </button>
+              {editingId && (
+                <button
+                  onClick={resetForm}
+                  className="px-4 py-3 rounded-xl border border-gray-200 text-gray-600 text-sm font-medium hover:bg-gray-50 transition-all"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-6 lg:col-span-2">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <h3 className="text-base font-semibold text-gray-800 flex items-center gap-2">
+              <FiUsers className="w-5 h-5 text-emerald-600" />
+              Students ({students.length})
+            </h3>
+            <div className="flex items-center gap-2">
+              <select
+                value={sectionFilter}
+                onChange={e => setSectionFilter(e.target.value)}
+                className="px-3 py-2 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+              >
+                <option value={ALL_SECTIONS}>All Sections</option>
+                {sections.map(sec => (
+                  <option key={sec} value={sec}>Section {sec}</option>
+                ))}
+              </select>
+              <div className="relative sm:w-64">
+                <FiSearch className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={e => setSearch(e.target.value)}
+                  placeholder="Search name, roll no, section"
+                  className="w-full pl-10 pr-4 py-2 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                />
+            </div>
+            </div>
+          </div>
+
+          {loading ? (
+            <LoadingSkeleton lines={5} />
+          ) : visible.length > 0 ? (
+            <div className="overflow-x-auto max-h-[500px] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Roll No</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Name</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Section</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Subjects</th>
+                    <th className="py-2 px-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map(student => (
+                    <tr key={student.id} className={`border-b border-gray-100 last:border-0 ${editingId === student.id ? 'bg-emerald-50/60' : ''}`}>
+                      <td className="py-2.5 px-2 font-mono text-gray-700">{student.rollNumber}</td>
+                      <td className="py-2.5 px-2 font-medium text-gray-800">{student.name}</td>
+                      <td className="py-2.5 px-2 text-gray-600">{student.section || '--'}</td>
+                      <td className="py-2.5 px-2">
+                        <div className="flex flex-wrap gap-1">
+                          {student.subjects.length > 0 ? student.subjects.map(sub => (
+                            <span key={sub} className={`text-xs font-medium px-2 py-0.5 rounded-full border ${getSubjectLightColor(catalog, sub)}`}>
+                              {sub}
+                            </span>
+                          )) : <span className="text-xs text-gray-400">None</span>}
+                        </div>
+                      </td>
+                      <td className="py-2.5 px-2">
+                        <div className="flex justify-end gap-1">
+                          <button
+                            onClick={() => handleEdit(student)}
+                            className="p-1.5 rounded-lg hover:bg-emerald-100 transition-colors text-emerald-600"
+                            title="Edit student"
+                          >
+                            <FiEdit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(student)}
+                            className="p-1.5 rounded-lg hover:bg-red-50 transition-colors text-red-500"
+                            title="Remove student"
+                          >
+                            <FiTrash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-10 text-gray-400">
+              <FiUsers className="w-10 h-10 mx-auto mb-2 opacity-40" />
+              <p className="text-sm">{students.length > 0 ? 'No students match your search' : 'No students on the roster'}</p>
+              <p className="text-xs mt-1">Students must be enrolled in a subject to check in to its sessions</p>
+            </div>
+          )}
+        </GlassCard>
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// Subjects Tab
+// ============================================================================
+
+function SubjectsTab({
+  useSample,
+  subjects,
+  loading,
+  onChanged,
+}: {
+  useSample: boolean
+  subjects: Subject[]
+  loading: boolean
+  onChanged: () => Promise<void>
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [code, setCode] = useState('')
+  const [name, setName] = useState('')
+  const [credits, setCredits] = useState('3')
+  const [faculty, setFaculty] = useState('')
+  const [color, setColor] = useState<SubjectColor>(SUBJECT_COLORS[0])
+  const [saving, setSaving] = useState(false)
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+
+  // New subjects get the first colour nobody uses yet
+  const nextColor = useCallback(
+    () => SUBJECT_COLORS.find(c => !subjects.some(s => s.color === c)) ?? SUBJECT_COLORS[subjects.length % SUBJECT_COLORS.length],
+    [subjects]
+  )
+
+  const resetForm = useCallback(() => {
+    setEditingId(null)
+    setCode('')
+    setName('')
+    setCredits('3')
+    setFaculty('')
+    setColor(nextColor())
+  }, [nextColor])
+
+  useEffect(() => {
+    if (!editingId) setColor(nextColor())
+  }, [editingId, nextColor])
+
+  const handleEdit = useCallback((subject: Subject) => {
+    setEditingId(subject.id)
+    setCode(subject.code)
+    setName(subject.name)
+    setCredits(String(subject.credits))
+    setFaculty(subject.faculty)
+    setColor(isSubjectColor(subject.color) ? subject.color : SUBJECT_COLORS[0])
+    setFeedback(null)
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    if (!code.trim() || !name.trim()) {
+      setFeedback({ type: 'error', message: 'Code and name are required.' })
+      return
+    }
+    setSaving(true)
+    setFeedback(null)
+    try {
+      const fields = { name: name.trim(), credits: Number(credits || 0), faculty: faculty.trim(), color }
+      const res = editingId ? await updateSubject(editingId, fields) : await createSubject({ ...fields, code: code.trim() })
+      if (res.success && res.subject) {
+        const saved = editingId ? `Updated ${res.subject.code}.` : `Added ${res.subject.code} to the catalog.`
+        resetForm()
+        await onChanged()
+        // The scheduled alert message lists the catalog's subjects
+        const scheduleRes = await syncAlertSchedule()
+        setFeedback(
+          scheduleRes.success
+            ? { type: 'success', message: saved }
+            : { type: 'error', message: `${saved} The alert schedule was not updated: ${scheduleRes.error ?? 'unknown error'}` }
+        )
+      } else {
+        setFeedback({ type: 'error', message: res.error ?? 'Failed to save subject.' })
+      }
+    } finally {
+      setSaving(false)
+    }
+  }, [editingId, code, name, credits, faculty, color, resetForm, onChanged])
+
+  const handleDelete = useCallback(async (subject: Subject) => {
+    if (!confirm(`Remove ${subject.code} (${subject.name}) from the catalog?`)) return
+    const res = await deleteSubject(subject.id)
+    if (res.success) {
+      if (editingId === subject.id) resetForm()
+      await onChanged()
+      const scheduleRes = await syncAlertSchedule()
+      if (!scheduleRes.success) {
+        setFeedback({ type: 'error', message: `Removed ${subject.code}, but the alert schedule was not updated: ${scheduleRes.error ?? 'unknown error'}` })
+      }
+    } else {
+      setFeedback({ type: 'error', message: res.error ?? 'Failed to remove subject.' })
+    }
+  }, [editingId, resetForm, onChanged])
+
+  const inputClass = 'w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm disabled:opacity-60'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight text-gray-900">Subject Catalog</h2>
+        <p className="text-gray-500 mt-1">Subjects offered for sessions, enrolment, reports and alerts</p>
+      </div>
+
+      {useSample && (
+        <InlineMessage type="info" message="Sample data shows the default catalog. Turn off Sample Data to edit subjects." />
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <GlassCard className="p-6 h-fit">
+          <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+            {editingId ? <FiEdit2 className="w-5 h-5 text-emerald-600" /> : <FiPlus className="w-5 h-5 text-emerald-600" />}
+            {editingId ? 'Edit Subject' : 'Add Subject'}
+          </h3>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Code</label>
+              <input
+                type="text"
+                value={code}
+                onChange={e => setCode(e.target.value.toUpperCase())}
+                disabled={useSample || editingId !== null}
+                placeholder="e.g. DBMS"
+                maxLength={12}
+                className={inputClass}
+              />
+              {editingId && (
+                <p className="text-xs text-gray-400 mt-1.5">Codes are fixed once created; sessions and enrolments refer to them.</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                disabled={useSample}
+                placeholder="e.g. Database Management Systems"
+                className={inputClass}
+              />
+            </div>
 
             <div className="grid grid-cols-2 gap-3">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1.5">Date</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">Credits</label>
                 <input
-                  type="date"
-                  value={date}
-                  onChange={e => setDate(e.target.value)}
-                  className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                  type="number"
+                  value={credits}
+                  onChange={e => setCredits(e.target.value)}
+                  disabled={useSample}
+                  min={0}
+                  max={20}
+                  className={inputClass}
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1.5">Time</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">Faculty</label>
                 <input
-                  type="time"
-                  value={time}
-                  onChange={e => setTime(e.target.value)}
-                  className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                  type="text"
+                  value={faculty}
+                  onChange={e => setFaculty(e.target.value)}
+                  disabled={useSample}
+                  placeholder="e.g. Dr. Rao"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Colour</label>
+              <div className="flex flex-wrap gap-2">
+                {SUBJECT_COLORS.map(c => (
+                  <button
+                    key={c}
+                    type="button"
+                    title={c}
+                    disabled={useSample}
+                    onClick={() => setColor(c)}
+                    className={`w-7 h-7 rounded-full ${SUBJECT_COLOR_CLASSES[c].solid} transition-all ${color === c ? 'ring-2 ring-offset-2 ring-gray-700' : 'opacity-70 hover:opacity-100'}`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            {feedback && (
+              <InlineMessage type={feedback.type} message={feedback.message} onDismiss={() => setFeedback(null)} />
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={saving || useSample}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-emerald-600 text-white font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
+              >
+                {saving ? <FiLoader className="w-4 h-4 animate-spin" /> : <FiCheckCircle className="w-4 h-4" />}
+                {editingId ? 'Save Changes' : 'Add Subject'}
+              </button>
+              {editingId && (
+                <button
+                  onClick={resetForm}
+                  className="px-4 py-3 rounded-xl border border-gray-200 text-gray-600 text-sm font-medium hover:bg-gray-50 transition-all"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-6 lg:col-span-2">
+          <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+            <FiBook className="w-5 h-5 text-emerald-600" />
+            Subjects ({subjects.length})
+          </h3>
+
+          {loading && subjects.length === 0 ? (
+            <LoadingSkeleton lines={5} />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Code</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Name</th>
+                    <th className="text-center py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Credits</th>
+                    <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Faculty</th>
+                    <th className="py-2 px-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {subjects.map(subject => (
+                    <tr key={subject.id} className={`border-b border-gray-100 last:border-0 ${editingId === subject.id ? 'bg-emerald-50/60' : ''}`}>
+                      <td className="py-2.5 px-2">
+                        <span className={`text-xs font-medium px-2 py-0.5 rounded-full border ${getSubjectLightColor(subjects, subject.code)}`}>
+                          {subject.code}
+                        </span>
+                      </td>
+                      <td className="py-2.5 px-2 font-medium text-gray-800">{subject.name}</td>
+                      <td className="py-2.5 px-2 text-center text-gray-600">{subject.credits}</td>
+                      <td className="py-2.5 px-2 text-gray-600">{subject.faculty || '--'}</td>
+                      <td className="py-2.5 px-2">
+                        {!useSample && (
+                          <div className="flex justify-end gap-1">
+                            <button
+                              onClick={() => handleEdit(subject)}
+                              className="p-1.5 rounded-lg hover:bg-emerald-100 transition-colors text-emerald-600"
+                              title="Edit subject"
+                            >
+                              <FiEdit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(subject)}
+                              className="p-1.5 rounded-lg hover:bg-red-50 transition-colors text-red-500"
+                              title="Remove subject"
+                            >
+                              <FiTrash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-400 mt-3">A subject can only be removed once no session or student uses it.</p>
+            </div>
+          )}
+        </GlassCard>
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// Leave Requests Tab
+// ============================================================================
+
+const LEAVE_STATUS_STYLES: Record<LeaveStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-amber-100 text-amber-700' },
+  approved: { label: 'Approved', className: 'bg-emerald-100 text-emerald-700' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-700' },
+}
+
+function formatLeaveRange(leave: Pick<LeaveRequest, 'from' | 'to'>): string {
+  return leave.from === leave.to ? leave.from : `${leave.from} → ${leave.to}`
+}
+
+function LeaveRequestCard({
+  leave,
+  subjects,
+  busy,
+  onReview,
+}: {
+  leave: LeaveRequest
+  subjects: Subject[]
+  busy?: boolean
+  onReview?: (action: 'approve' | 'reject', note: string) => void
+}) {
+  const [note, setNote] = useState('')
+  return (
+    <div className="p-4 rounded-xl bg-gray-50/80 border border-gray-100 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-gray-800">{leave.name} <span className="text-gray-400 font-normal">({leave.rollNumber})</span></p>
+          <p className="text-xs text-gray-500 flex items-center gap-1 mt-0.5">
+            <FiCalendar className="w-3 h-3" /> {formatLeaveRange(leave)}
+          </p>
+        </div>
+        <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${LEAVE_STATUS_STYLES[leave.status].className}`}>
+          {LEAVE_STATUS_STYLES[leave.status].label}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {leave.subjects.map(sub => (
+          <span key={sub} className={`text-xs font-medium px-2 py-0.5 rounded-full border ${getSubjectLightColor(subjects, sub)}`}>
+            {sub}
+          </span>
+        ))}
+      </div>
+      <p className="text-sm text-gray-700">{leave.reason}</p>
+      {leave.attachments.map(a => (
+        <p key={a.asset_id} className="text-xs text-gray-500 flex items-center gap-1" title={`Asset ${a.asset_id}`}>
+          <FiPaperclip className="w-3 h-3" /> {a.file_name || a.asset_id}
+        </p>
+      ))}
+      {leave.reviewedBy && (
+        <p className="text-xs text-gray-400">
+          {LEAVE_STATUS_STYLES[leave.status].label} by {leave.reviewedBy}
+          {leave.reviewed_at ? ` · ${new Date(leave.reviewed_at).toLocaleString()}` : ''}
+          {leave.reviewNote ? ` — ${leave.reviewNote}` : ''}
+        </p>
+      )}
+      {onReview && (
+        <div className="flex flex-col sm:flex-row gap-2 pt-1">
+          <input
+            type="text"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="flex-1 px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-sm focus:ring-2 focus:ring-emerald-400 outline-none"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => onReview('approve', note)}
+              disabled={busy}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-emerald-600 text-white text-xs font-medium hover:bg-emerald-700 disabled:opacity-50"
+            >
+              <FiCheckCircle className="w-3.5 h-3.5" /> Approve
+            </button>
+            <button
+              onClick={() => onReview('reject', note)}
+              disabled={busy}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white border border-red-200 text-red-600 text-xs font-medium hover:bg-red-50 disabled:opacity-50"
+            >
+              <FiX className="w-3.5 h-3.5" /> Reject
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function LeaveTab({ useSample, subjects: catalog }: { useSample: boolean; subjects: Subject[] }) {
+  const [leaves, setLeaves] = useState<LeaveRequest[]>([])
+  const [loading, setLoading] = useState(false)
+  const [rollNumber, setRollNumber] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [subjects, setSubjects] = useState<string[]>([])
+  const [reason, setReason] = useState('')
+  const [certificate, setCertificate] = useState<File | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [reviewer, setReviewer] = useState(() => getTeacherName())
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const res = await listLeaveRequests()
+    if (res.success) setLeaves(res.leaves)
+    else setFeedback({ type: 'error', message: res.error ?? 'Failed to load leave requests.' })
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (useSample) setLeaves(SAMPLE_LEAVES)
+    else load()
+  }, [useSample, load])
+
+  const resetForm = () => {
+    setRollNumber('')
+    setFrom('')
+    setTo('')
+    setSubjects([])
+    setReason('')
+    setCertificate(null)
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleSubmit = useCallback(async () => {
+    if (!rollNumber.trim() || !from || !to || !reason.trim() || subjects.length === 0) {
+      setFeedback({ type: 'error', message: 'Fill in your roll number, dates, subjects and a reason.' })
+      return
+    }
+    if (from > to) {
+      setFeedback({ type: 'error', message: 'The leave must end on or after its first day.' })
+      return
+    }
+
+    if (useSample) {
+      const attachments: LeaveAttachment[] = certificate ? [{ asset_id: 'sample-upload', file_name: certificate.name }] : []
+      setLeaves(prev => [
+        {
+          id: `sample-${Date.now()}`, rollNumber: rollNumber.trim(), name: `Student ${rollNumber.trim()}`, from, to, subjects,
+          reason: reason.trim(), attachments, status: 'pending', submitted_at: new Date().toISOString(),
+        },
+        ...prev,
+      ])
+      resetForm()
+      setFeedback({ type: 'success', message: 'Leave request submitted for review.' })
+      return
+    }
+
+    setSubmitting(true)
+    setFeedback(null)
+    try {
+      let attachments: LeaveAttachment[] = []
+      if (certificate) {
+        const upload = await uploadFiles(certificate)
+        if (!upload.success || upload.asset_ids.length === 0) {
+          setFeedback({ type: 'error', message: `Certificate upload failed: ${upload.error ?? upload.message ?? 'unknown error'}` })
+          return
+        }
+        attachments = upload.files
+          .filter(f => f.success && f.asset_id)
+          .map(f => ({ asset_id: f.asset_id, file_name: f.file_name || certificate.name }))
+      }
+
+      const res = await submitLeaveRequest({ rollNumber: rollNumber.trim(), from, to, subjects, reason: reason.trim(), attachments })
+      if (res.success && res.leave) {
+        setLeaves(prev => [res.leave as LeaveRequest, ...prev])
+        resetForm()
+        setFeedback({ type: 'success', message: 'Leave request submitted for review.' })
+      } else {
+        setFeedback({ type: 'error', message: res.error ?? 'Failed to submit the leave request.' })
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }, [rollNumber, from, to, subjects, reason, certificate, useSample])
+
+  const handleReview = useCallback(async (leave: LeaveRequest, action: 'approve' | 'reject', note: string) => {
+    if (!reviewer.trim()) {
+      setFeedback({ type: 'error', message: 'Enter your name before reviewing requests.' })
+      return
+    }
+    setTeacherName(reviewer.trim())
+    const verb = action === 'approve' ? 'Approved' : 'Rejected'
+
+    if (useSample) {
+      setLeaves(prev => prev.map(l => (l.id === leave.id
+        ? { ...l, status: action === 'approve' ? 'approved' : 'rejected', reviewedBy: reviewer.trim(), reviewed_at: new Date().toISOString(), reviewNote: note.trim() || undefined }
+        : l)))
+      setFeedback({ type: 'success', message: `${verb} leave for ${leave.name}.` })
+      return
+    }
+
+    setReviewingId(leave.id)
+    setFeedback(null)
+    try {
+      const res = await reviewLeaveRequest(leave.id, action, reviewer.trim(), note.trim() || undefined)
+      if (res.leave) setLeaves(prev => prev.map(l => (l.id === leave.id ? res.leave as LeaveRequest : l)))
+      if (res.success) {
+        const excused = res.excused ? ` ${res.excused} recorded absence${res.excused === 1 ? '' : 's'} marked excused.` : ''
+        setFeedback({ type: 'success', message: `${verb} leave for ${leave.name}.${excused}` })
+      } else {
+        setFeedback({ type: 'error', message: res.error ?? 'Failed to review the request.' })
+      }
+    } finally {
+      setReviewingId(null)
+    }
+  }, [reviewer, useSample])
+
+  const pending = leaves.filter(l => l.status === 'pending')
+  const reviewed = leaves.filter(l => l.status !== 'pending')
+  const inputClass = 'w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight text-gray-900">Leave Requests</h2>
+        <p className="text-gray-500 mt-1">Request medical or official leave, and review pending requests</p>
+      </div>
+
+      {feedback && <InlineMessage type={feedback.type} message={feedback.message} onDismiss={() => setFeedback(null)} />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <GlassCard className="p-6 space-y-4">
+          <h3 className="text-base font-semibold text-gray-800 flex items-center gap-2">
+            <FiFilePlus className="w-5 h-5 text-emerald-600" />
+            Request Leave
+          </h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Roll number</label>
+            <input type="text" value={rollNumber} onChange={e => setRollNumber(e.target.value)} placeholder="e.g. 101" className={inputClass} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">From</label>
+              <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">To</label>
+              <input type="date" value={to} min={from || undefined} onChange={e => setTo(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Subjects</label>
+            <div className="flex flex-wrap gap-2">
+              {catalog.map(({ code: sub }) => {
+                const selected = subjects.includes(sub)
+                return (
+                  <button
+                    key={sub}
+                    type="button"
+                    onClick={() => setSubjects(prev => (selected ? prev.filter(s => s !== sub) : [...prev, sub]))}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${selected ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'}`}
+                  >
+                    {sub}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Reason</label>
+            <textarea
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              rows={3}
+              placeholder="e.g. Hospitalised with dengue"
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Certificate (optional)</label>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*,.pdf"
+              onChange={e => setCertificate(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-emerald-50 file:text-emerald-700 file:text-sm file:font-medium"
+            />
+          </div>
+          <button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
+          >
+            {submitting ? <FiLoader className="w-4 h-4 animate-spin" /> : <FiSend className="w-4 h-4" />}
+            Submit Request
+          </button>
+        </GlassCard>
+
+        <GlassCard className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-base font-semibold text-gray-800 flex items-center gap-2">
+              <FiClipboard className="w-5 h-5 text-emerald-600" />
+              Approval Queue
+              {pending.length > 0 && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 font-medium">{pending.length}</span>
+              )}
+            </h3>
+            {!useSample && (
+              <button onClick={load} className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500" title="Refresh">
+                <FiRefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              </button>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Reviewing as</label>
+            <input type="text" value={reviewer} onChange={e => setReviewer(e.target.value)} placeholder="Your name" className={inputClass} />
+          </div>
+          {loading && leaves.length === 0 ? (
+            <LoadingSkeleton lines={3} />
+          ) : pending.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-6">No requests waiting for review</p>
+          ) : (
+            <div className="space-y-3 max-h-[480px] overflow-y-auto">
+              {pending.map(leave => (
+                <LeaveRequestCard
+                  key={leave.id}
+                  leave={leave}
+                  subjects={catalog}
+                  busy={reviewingId === leave.id}
+                  onReview={(action, note) => handleReview(leave, action, note)}
                 />
+              ))}
+            </div>
+          )}
+        </GlassCard>
+      </div>
+
+      {reviewed.length > 0 && (
+        <GlassCard className="p-6">
+          <h3 className="text-base font-semibold text-gray-800 mb-4">Reviewed</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {reviewed.map(leave => <LeaveRequestCard key={leave.id} leave={leave} subjects={catalog} />)}
+          </div>
+        </GlassCard>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// Audit Log Tab
+// ============================================================================
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, { label: string; className: string }> = {
+  update: { label: 'Corrected', className: 'bg-blue-100 text-blue-700' },
+  delete: { label: 'Deleted', className: 'bg-red-100 text-red-700' },
+  register: { label: 'Register', className: 'bg-emerald-100 text-emerald-700' },
+  check_in: { label: 'Check-in', className: 'bg-gray-100 text-gray-600' },
+  leave: { label: 'Leave', className: 'bg-amber-100 text-amber-700' },
+}
+
+function describeSnapshot(snapshot: AuditSnapshot | null): string {
+  if (!snapshot) return '—'
+  return `${ATTENDANCE_STATUS_STYLES[snapshot.status ?? 'present'].label} · ${snapshot.subject}`
+}
+
+/** Local calendar date ("YYYY-MM-DD") to the ISO instant of its midnight, optionally a day later. */
+function localDayToIso(date: string, addDays = 0): string | undefined {
+  const parsed = new Date(`${date}T00:00:00`)
+  if (isNaN(parsed.getTime())) return undefined
+  parsed.setDate(parsed.getDate() + addDays)
+  return parsed.toISOString()
+}
+
+function AuditTab({ useSample }: { useSample: boolean }) {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [sessions, setSessions] = useState<AttendanceSession[]>([])
+  const [rollNumber, setRollNumber] = useState('')
+  const [sessionId, setSessionId] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    const filters = {
+      rollNumber: rollNumber.trim() || undefined,
+      sessionId: sessionId || undefined,
+      from: from ? localDayToIso(from) : undefined,
+      to: to ? localDayToIso(to, 1) : undefined,
+    }
+    if (useSample) {
+      setEntries(SAMPLE_AUDIT.filter(e =>
+        (!filters.rollNumber || e.rollNumber === filters.rollNumber) &&
+        (!filters.sessionId || [e.sessionId, e.before?.sessionId, e.after?.sessionId].includes(filters.sessionId)) &&
+        (!filters.from || new Date(e.at) >= new Date(filters.from)) &&
+        (!filters.to || new Date(e.at) < new Date(filters.to))
+      ))
+      return
+    }
+    setLoading(true)
+    setError(null)
+    const res = await listAuditEntries(filters)
+    if (res.success) setEntries(res.entries)
+    else setError(res.error ?? 'Failed to load the audit log.')
+    setLoading(false)
+  }, [useSample, rollNumber, sessionId, from, to])
+
+  useEffect(() => {
+    if (useSample) {
+      setSessions(SAMPLE_SESSIONS)
+      return
+    }
+    listSessions().then(res => {
+      if (res.success) setSessions(res.sessions)
+    })
+  }, [useSample])
+
+  useEffect(() => {
+    load()
+    // Re-query when the session or date filters change; roll number waits for Apply
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [useSample, sessionId, from, to])
+
+  const sessionLabel = useCallback((id?: string) => {
+    const session = sessions.find(s => s.id === id)
+    return session ? `${session.subject} · ${session.date} ${session.time}` : '—'
+  }, [sessions])
+
+  const inputClass = 'px-3 py-2 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight text-gray-900">Audit Log</h2>
+        <p className="text-gray-500 mt-1">Every change to attendance records, with who made it and why</p>
+      </div>
+
+      <GlassCard className="p-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Roll number</label>
+            <input
+              type="text"
+              value={rollNumber}
+              onChange={e => setRollNumber(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') load() }}
+              placeholder="Any"
+              className={`w-full ${inputClass}`}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Session</label>
+            <select value={sessionId} onChange={e => setSessionId(e.target.value)} className={`w-full ${inputClass}`}>
+              <option value="">All sessions</option>
+              {sessions.map(s => (
+                <option key={s.id} value={s.id}>{s.subject} · {s.date} {s.time}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+            <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={`w-full ${inputClass}`} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+            <input type="date" value={to} onChange={e => setTo(e.target.value)} className={`w-full ${inputClass}`} />
+          </div>
+          <button
+            onClick={load}
+            disabled={loading}
+            className="flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 transition-all"
+          >
+            {loading ? <FiLoader className="w-4 h-4 animate-spin" /> : <FiRefreshCw className="w-4 h-4" />}
+            Apply
+          </button>
+        </div>
+      </GlassCard>
+
+      {error && <InlineMessage type="error" message={error} onDismiss={() => setError(null)} />}
+
+      <GlassCard className="p-0 overflow-hidden">
+        {loading ? (
+          <div className="p-6"><LoadingSkeleton lines={4} /></div>
+        ) : entries.length === 0 ? (
+          <div className="p-10 text-center text-gray-400">
+            <FiShield className="w-10 h-10 mx-auto mb-3 opacity-40" />
+            <p className="text-sm">No changes match these filters</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-50/80 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                  <th className="px-4 py-3">When</th>
+                  <th className="px-4 py-3">By</th>
+                  <th className="px-4 py-3">Action</th>
+                  <th className="px-4 py-3">Student</th>
+                  <th className="px-4 py-3">Session</th>
+                  <th className="px-4 py-3">Before → After</th>
+                  <th className="px-4 py-3">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {entries.map(e => (
+                  <tr key={e.id} className="hover:bg-gray-50/50 align-top">
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-600">{new Date(e.at).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-gray-800">{e.actor}</td>
+                    <td className="px-4 py-3">
+                      <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${AUDIT_ACTION_LABELS[e.action].className}`}>
+                        {AUDIT_ACTION_LABELS[e.action].label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-800">{e.name}</p>
+                      <p className="text-xs text-gray-500">{e.rollNumber}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {sessionLabel(e.sessionId)}
+                      {e.before?.sessionId && e.after?.sessionId && e.before.sessionId !== e.after.sessionId && (
+                        <p className="text-xs text-gray-400">moved to {sessionLabel(e.after.sessionId)}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                      {describeSnapshot(e.before)} → {describeSnapshot(e.after)}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{e.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </GlassCard>
+    </div>
+  )
+}
+
+// ============================================================================
+// Settings Tab
+// ============================================================================
+
+const SEVERITY_RULE_FIELDS: { key: keyof SeverityRules; label: string }[] = [
+  { key: 'warningWithin', label: 'Warning within' },
+  { key: 'criticalWithin', label: 'Critical within' },
+  { key: 'atRiskWithin', label: 'At Risk within' },
+]
+
+function toRuleInputs(rules: SeverityRules): Record<keyof SeverityRules, string> {
+  return {
+    warningWithin: String(rules.warningWithin),
+    criticalWithin: String(rules.criticalWithin),
+    atRiskWithin: String(rules.atRiskWithin),
+  }
+}
+
+/** The rules typed into the inputs, or null while any band is blank or out of range. */
+function fromRuleInputs(inputs: Record<keyof SeverityRules, string>): SeverityRules | null {
+  const rules = { ...DEFAULT_SEVERITY_RULES }
+  for (const { key } of SEVERITY_RULE_FIELDS) {
+    const value = Number(inputs[key])
+    if (!inputs[key].trim() || !Number.isFinite(value) || value < 0 || value > 100) return null
+    rules[key] = value
+  }
+  return rules
+}
+
+/** Percentage range of each alert severity for one threshold, e.g. "70–75%". */
+function severityBands(threshold: number, rules: SeverityRules): { severity: AlertSeverity; range: string }[] {
+  const warningFloor = Math.max(0, threshold - rules.warningWithin)
+  const criticalFloor = Math.max(0, threshold - rules.criticalWithin)
+  return [
+    { severity: 'Warning', range: `${warningFloor}–${threshold}%` },
+    { severity: 'Critical', range: `${criticalFloor}–${warningFloor}%` },
+    { severity: 'Severe', range: `below ${criticalFloor}%` },
+  ]
+}
+
+/**
+ * Rebuild the daily alert schedule's message from the stored thresholds (as
+ * they apply in the current term), the severity bands and the subject catalog.
+ * The scheduled run reads its rules from that message alone, so this follows
+ * every change to any of them.
+ */
+async function syncAlertSchedule(): Promise<{ success: boolean; error?: string }> {
+  const [settingsRes, termsRes, subjectsRes] = await Promise.all([getSettings(), listTerms(), listSubjects()])
+  const failed = [settingsRes, termsRes, subjectsRes].find(res => !res.success)
+  if (failed) return { success: false, error: failed.error }
+  if (!settingsRes.thresholds || !settingsRes.severity) return { success: false, error: 'Alert rules are missing from the settings' }
+  const message = buildScheduledAlertMessage(
+    thresholdsForTerm(settingsRes.thresholds, termsRes.current),
+    settingsRes.severity,
+    subjectsRes.subjects.map(s => s.code)
+  )
+  const res = await updateSchedule(SCHEDULE_ID, { message })
+  return { success: res.success, error: res.error }
+}
+
+/**
+ * Thresholds (a default plus per-subject overrides, for every term or for one
+ * term; a blank value uses the level above) and the severity and status bands
+ * measured from them.
+ */
+function AlertRulesCard({ useSample, subjects, terms }: { useSample: boolean; subjects: Subject[]; terms: AcademicTerm[] }) {
+  const [stored, setStored] = useState<ThresholdSettings>(DEFAULT_THRESHOLD_SETTINGS)
+  // '' edits the thresholds for every term, otherwise those of the term with this id
+  const [level, setLevel] = useState('')
+  const [defaultInput, setDefaultInput] = useState(String(DEFAULT_THRESHOLD_SETTINGS.defaultThreshold))
+  const [overrideInputs, setOverrideInputs] = useState<Record<string, string>>({})
+  const [ruleInputs, setRuleInputs] = useState<Record<keyof SeverityRules, string>>(toRuleInputs(DEFAULT_SEVERITY_RULES))
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+
+  const loadRules = useCallback(async () => {
+    setLoading(true)
+    const res = await getSettings()
+    if (res.thresholds) setStored(res.thresholds)
+    if (res.severity) setRuleInputs(toRuleInputs(res.severity))
+    if (!res.success) setFeedback({ type: 'error', message: res.error ?? 'Failed to load alert rules.' })
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (useSample) {
+      setStored(DEFAULT_THRESHOLD_SETTINGS)
+      setRuleInputs(toRuleInputs(DEFAULT_SEVERITY_RULES))
+    } else {
+      loadRules()
+    }
+  }, [useSample, loadRules])
+
+  // A term removed while selected falls back to every term
+  useEffect(() => {
+    if (level && !terms.some(t => t.id === level)) setLevel('')
+  }, [terms, level])
+
+  // The selected level's own values; blank inputs show what they fall back to
+  useEffect(() => {
+    const own: TermThresholds = level ? stored.terms?.[level] ?? {} : stored
+    setDefaultInput(own.defaultThreshold === undefined ? '' : String(own.defaultThreshold))
+    setOverrideInputs(Object.fromEntries(Object.entries(own.subjects ?? {}).map(([subject, value]) => [subject, String(value)])))
+  }, [stored, level])
+  const effectiveDefault = defaultInput.trim() || (level ? String(stored.defaultThreshold) : '')
+
+  // Example bands for the default threshold, kept in step with the inputs
+  const preview = useMemo(() => {
+    const threshold = Number(effectiveDefault)
+    const rules = fromRuleInputs(ruleInputs)
+    if (!effectiveDefault || !Number.isFinite(threshold) || !rules) return null
+    return { threshold, rules }
+  }, [effectiveDefault, ruleInputs])
+
+  const handleSave = useCallback(async () => {
+    const isThreshold = (value: number) => Number.isFinite(value) && value > 0 && value <= 100
+    const defaultThreshold = Number(defaultInput)
+    if (defaultInput.trim() ? !isThreshold(defaultThreshold) : !level) {
+      setFeedback({ type: 'error', message: 'Default threshold must be above 0 and at most 100.' })
+      return
+    }
+    const overrides: Record<string, number> = {}
+    for (const { code: subject } of subjects) {
+      const input = (overrideInputs[subject] ?? '').trim()
+      if (!input) continue
+      const value = Number(input)
+      if (!isThreshold(value)) {
+        setFeedback({ type: 'error', message: `${subject} threshold must be above 0 and at most 100.` })
+        return
+      }
+      overrides[subject] = value
+    }
+    const rules = fromRuleInputs(ruleInputs)
+    if (!rules) {
+      setFeedback({ type: 'error', message: 'Each band must be between 0 and 100 points.' })
+      return
+    }
+    if (rules.criticalWithin <= rules.warningWithin) {
+      setFeedback({ type: 'error', message: 'The Critical band must reach further below the threshold than the Warning band.' })
+      return
+    }
+
+    const own: TermThresholds = { subjects: overrides }
+    if (defaultInput.trim()) own.defaultThreshold = defaultThreshold
+    const patch: Partial<ThresholdSettings> = level ? { terms: { [level]: own } } : { defaultThreshold, subjects: overrides }
+    if (useSample) {
+      setStored(prev => mergeThresholdSettings(prev, patch))
+      setFeedback({ type: 'success', message: 'Alert rules updated for this sample session.' })
+      return
+    }
+    setSaving(true)
+    setFeedback(null)
+    try {
+      const thresholdsRes = await updateThresholdSettings(patch)
+      if (!thresholdsRes.success || !thresholdsRes.thresholds) {
+        setFeedback({ type: 'error', message: thresholdsRes.error ?? 'Failed to save thresholds.' })
+        return
+      }
+      setStored(thresholdsRes.thresholds)
+      const rulesRes = await updateSeverityRules(rules)
+      if (!rulesRes.success || !rulesRes.severity) {
+        setFeedback({ type: 'error', message: `Thresholds saved, but the bands were not: ${rulesRes.error ?? 'unknown error'}` })
+        return
+      }
+      setRuleInputs(toRuleInputs(rulesRes.severity))
+      const scheduleRes = await syncAlertSchedule()
+      setFeedback(
+        scheduleRes.success
+          ? { type: 'success', message: 'Alert rules saved and the daily alert schedule updated.' }
+          : { type: 'error', message: `Alert rules saved, but the alert schedule was not updated: ${scheduleRes.error ?? 'unknown error'}` }
+      )
+    } finally {
+      setSaving(false)
+    }
+  }, [defaultInput, overrideInputs, ruleInputs, subjects, level, useSample])
+
+  return (
+    <GlassCard className="p-6 max-w-2xl">
+      <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <FiAlertTriangle className="w-5 h-5 text-emerald-600" />
+        Alert Rules
+      </h3>
+      {loading ? (
+        <LoadingSkeleton lines={4} />
+      ) : (
+        <div className="space-y-5">
+          {terms.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Applies to</label>
+              <select
+                value={level}
+                onChange={e => setLevel(e.target.value)}
+                className="px-3 py-2 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+              >
+                <option value="">Every term</option>
+                {terms.map(term => (
+                  <option key={term.id} value={term.id}>{term.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-400 mt-1.5">
+                A term&apos;s own values replace the ones for every term; leave them blank to keep those.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Default threshold (%)</label>
+            <input
+              type="number"
+              value={defaultInput}
+              onChange={e => setDefaultInput(e.target.value)}
+              placeholder={effectiveDefault}
+              min={1}
+              max={100}
+              className="w-40 px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+            />
+            <p className="text-xs text-gray-400 mt-1.5">
+              Students below this percentage in a subject are flagged by alerts and profiles.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Per-subject overrides (%)</label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {subjects.map(({ code: subject }) => (
+                <div key={subject} className="flex items-center gap-2">
+                  <span className="text-xs font-medium text-gray-600 w-14">{subject}</span>
+                  <input
+                    type="number"
+                    value={overrideInputs[subject] ?? ''}
+                    onChange={e => setOverrideInputs(prev => ({ ...prev, [subject]: e.target.value }))}
+                    placeholder={level ? String(stored.subjects[subject] ?? effectiveDefault) : effectiveDefault}
+                    min={1}
+                    max={100}
+                    className="w-20 px-3 py-2 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-1.5">Leave blank to use the value shown.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Bands (points below the threshold)</label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {SEVERITY_RULE_FIELDS.map(({ key, label }) => (
+                <div key={key} className="flex items-center gap-2">
+                  <span className="text-xs font-medium text-gray-600 w-24">{label}</span>
+                  <input
+                    type="number"
+                    value={ruleInputs[key]}
+                    onChange={e => setRuleInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                    min={0}
+                    max={100}
+                    className="w-20 px-3 py-2 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+            {preview && (
+              <div className="mt-3 flex flex-wrap gap-1.5">
+                {severityBands(preview.threshold, preview.rules).map(band => (
+                  <span key={band.severity} className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${getSeverityBadge(band.severity)}`}>
+                    {band.severity} {band.range}
+                  </span>
+                ))}
               </div>
+            )}
+            <p className="text-xs text-gray-400 mt-1.5">
+              Alert severity is measured from each subject&apos;s threshold; a student&apos;s overall status from the default.
+              {preview && ` ${describeStatusRules(preview.rules)}`}
+            </p>
+          </div>
+
+          {feedback && (
+            <InlineMessage type={feedback.type} message={feedback.message} onDismiss={() => setFeedback(null)} />
+          )}
+
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center justify-center gap-2 px-5 py-2.5 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
+          >
+            {saving ? <FiLoader className="w-4 h-4 animate-spin" /> : <FiCheckCircle className="w-4 h-4" />}
+            Save Alert Rules
+          </button>
+        </div>
+      )}
+    </GlassCard>
+  )
+}
+
+function AcademicTermsCard({
+  useSample,
+  terms,
+  onChanged,
+}: {
+  useSample: boolean
+  terms: AcademicTerm[]
+  onChanged: () => Promise<void>
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [start, setStart] = useState('')
+  const [end, setEnd] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+
+  const resetForm = useCallback(() => {
+    setEditingId(null)
+    setName('')
+    setStart('')
+    setEnd('')
+  }, [])
+
+  const handleEdit = useCallback((term: AcademicTerm) => {
+    setEditingId(term.id)
+    setName(term.name)
+    setStart(term.start)
+    setEnd(term.end)
+    setFeedback(null)
+  }, [])
+
+  const handleSave = useCallback(async () => {
+    if (!name.trim() || !start || !end) {
+      setFeedback({ type: 'error', message: 'Name, start and end are required.' })
+      return
+    }
+    setSaving(true)
+    setFeedback(null)
+    try {
+      const fields = { name: name.trim(), start, end }
+      const res = editingId ? await updateTerm(editingId, fields) : await createTerm(fields)
+      if (res.success && res.term) {
+        setFeedback({ type: 'success', message: editingId ? `Updated ${res.term.name}.` : `Added ${res.term.name}.` })
+        resetForm()
+        await onChanged()
+      } else {
+        setFeedback({ type: 'error', message: res.error ?? 'Failed to save term.' })
+      }
+    } finally {
+      setSaving(false)
+    }
+  }, [editingId, name, start, end, resetForm, onChanged])
+
+  const handleDelete = useCallback(async (term: AcademicTerm) => {
+    if (!confirm(`Remove ${term.name}?`)) return
+    const res = await deleteTerm(term.id)
+    if (res.success) {
+      if (editingId === term.id) resetForm()
+      await onChanged()
+    } else {
+      setFeedback({ type: 'error', message: res.error ?? 'Failed to remove term.' })
+    }
+  }, [editingId, resetForm, onChanged])
+
+  const inputClass = 'w-full px-3 py-2 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm disabled:opacity-60'
+
+  return (
+    <GlassCard className="p-6 max-w-2xl">
+      <h3 className="text-base font-semibold text-gray-800 mb-1 flex items-center gap-2">
+        <FiCalendar className="w-5 h-5 text-emerald-600" />
+        Academic Terms
+      </h3>
+      <p className="text-xs text-gray-400 mb-4">
+        Every session belongs to the term covering its date. Once a term ends it is archived and its sessions and records become read-only.
+      </p>
+
+      {terms.length > 0 ? (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Term</th>
+                <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Dates</th>
+                <th className="text-left py-2 px-2 text-xs font-semibold text-gray-500 uppercase">Status</th>
+                <th className="py-2 px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {terms.map(term => {
+                const status = termStatus(term)
+                return (
+                  <tr key={term.id} className={`border-b border-gray-100 last:border-0 ${editingId === term.id ? 'bg-emerald-50/60' : ''}`}>
+                    <td className="py-2.5 px-2 font-medium text-gray-800">{term.name}</td>
+                    <td className="py-2.5 px-2 text-gray-600">{term.start} to {term.end}</td>
+                    <td className="py-2.5 px-2">
+                      <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${TERM_STATUS_STYLES[status].className}`}>
+                        {TERM_STATUS_STYLES[status].label}
+                      </span>
+                    </td>
+                    <td className="py-2.5 px-2">
+                      {!useSample && status !== 'archived' && (
+                        <div className="flex justify-end gap-1">
+                          <button
+                            onClick={() => handleEdit(term)}
+                            className="p-1.5 rounded-lg hover:bg-emerald-100 transition-colors text-emerald-600"
+                            title="Edit term"
+                          >
+                            <FiEdit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(term)}
+                            className="p-1.5 rounded-lg hover:bg-red-50 transition-colors text-red-500"
+                            title="Remove term"
+                          >
+                            <FiTrash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 mb-4">No terms yet. Until one is added, sessions are not grouped by term.</p>
+      )}
+
+      {useSample ? (
+        <InlineMessage type="info" message="Turn off Sample Data to manage terms." />
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+              <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Odd Semester 2025" className={inputClass} />
             </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Start</label>
+              <input type="date" value={start} onChange={e => setStart(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">End</label>
+              <input type="date" value={end} onChange={e => setEnd(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          {feedback && (
+            <InlineMessage type={feedback.type} message={feedback.message} onDismiss={() => setFeedback(null)} />
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center justify-center gap-2 px-5 py-2.5 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
+            >
+              {saving ? <FiLoader className="w-4 h-4 animate-spin" /> : editingId ? <FiCheckCircle className="w-4 h-4" /> : <FiPlus className="w-4 h-4" />}
+              {editingId ? 'Save Term' : 'Add Term'}
+            </button>
+            {editingId && (
+              <button
+                onClick={resetForm}
+                className="px-4 py-2.5 rounded-xl border border-gray-200 text-gray-600 text-sm font-medium hover:bg-gray-50 transition-all"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </GlassCard>
+  )
+}
+
+function SettingsTab({
+  useSample,
+  subjects,
+  terms,
+  onTermsChanged,
+}: {
+  useSample: boolean
+  subjects: Subject[]
+  terms: AcademicTerm[]
+  onTermsChanged: () => Promise<void>
+}) {
+  const [policy, setPolicy] = useState<AttendancePolicy>(DEFAULT_ATTENDANCE_POLICY)
+  const [graceInput, setGraceInput] = useState(String(DEFAULT_ATTENDANCE_POLICY.lateGraceMinutes))
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+  const [retryAgents, setRetryAgents] = useState(false)
+
+  useEffect(() => {
+    setRetryAgents(getAgentRetryEnabled())
+  }, [])
+
+  const loadPolicy = useCallback(async () => {
+    setLoading(true)
+    const res = await getAttendancePolicy()
+    if (res.success && res.policy) {
+      setPolicy(res.policy)
+      setGraceInput(String(res.policy.lateGraceMinutes))
+    } else {
+      setFeedback({ type: 'error', message: res.error ?? 'Failed to load settings.' })
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (useSample) {
+      setPolicy(DEFAULT_ATTENDANCE_POLICY)
+      setGraceInput(String(DEFAULT_ATTENDANCE_POLICY.lateGraceMinutes))
+    } else {
+      loadPolicy()
+    }
+  }, [useSample, loadPolicy])
+
+  const handleSave = useCallback(async () => {
+    const grace = parseInt(graceInput)
+    if (!Number.isInteger(grace) || grace < 0 || grace > 240) {
+      setFeedback({ type: 'error', message: 'Grace period must be between 0 and 240 minutes.' })
+      return
+    }
+    const next = { ...policy, lateGraceMinutes: grace }
+    if (useSample) {
+      setPolicy(next)
+      setFeedback({ type: 'success', message: 'Policy updated for this sample session.' })
+      return
+    }
+    setSaving(true)
+    setFeedback(null)
+    try {
+      const res = await updateAttendancePolicy(next)
+      if (res.success && res.policy) {
+        setPolicy(res.policy)
+        setGraceInput(String(res.policy.lateGraceMinutes))
+        setFeedback({ type: 'success', message: 'Attendance policy saved.' })
+      } else {
+        setFeedback({ type: 'error', message: res.error ?? 'Failed to save settings.' })
+      }
+    } finally {
+      setSaving(false)
+    }
+  }, [graceInput, policy, useSample])
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight text-gray-900">Settings</h2>
+        <p className="text-gray-500 mt-1">How check-ins are classified, how attendance is counted and when students are flagged</p>
+      </div>
 
+      <GlassCard className="p-6 max-w-2xl">
+        <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <FiSettings className="w-5 h-5 text-emerald-600" />
+          Attendance Policy
+        </h3>
+        {loading ? (
+          <LoadingSkeleton lines={3} />
+        ) : (
+          <div className="space-y-5">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1.5">Duration (minutes)</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Late grace period (minutes)</label>
               <input
                 type="number"
-                value={duration}
-                onChange={e => setDuration(e.target.value)}
-                min={15}
-                max={180}
-                step={15}
-                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
+                value={graceInput}
+                onChange={e => setGraceInput(e.target.value)}
+                min={0}
+                max={240}
+                className="w-40 px-4 py-2.5 rounded-xl border border-gray-200 bg-white/80 focus:ring-2 focus:ring-emerald-400 focus:border-emerald-400 outline-none transition-all text-sm"
               />
+              <p className="text-xs text-gray-400 mt-1.5">
+                Check-ins more than this long after the session opens are recorded as late.
+              </p>
             </div>
 
+            <label className="flex items-start gap-2.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={policy.lateCountsAsPresent}
+                onChange={e => setPolicy(prev => ({ ...prev, lateCountsAsPresent: e.target.checked }))}
+                className="mt-0.5 w-4 h-4 accent-emerald-600"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">Count late as present</span>
+                <span className="block text-xs text-gray-400">
+                  When off, late marks count against a student&apos;s percentage. Excused sessions are always left out.
+                </span>
+              </span>
+            </label>
+
             {feedback && (
               <InlineMessage type={feedback.type} message={feedback.message} onDismiss={() => setFeedback(null)} />
             )}
 
             <button
-              onClick={handleCreate}
-              className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-emerald-600 text-white font-medium hover:bg-emerald-700 transition-all shadow-md shadow-emerald-200"
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center justify-center gap-2 px-5 py-2.5 rounded-xl bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-200"
             >
-              <FiPlus className="w-4 h-4" />
-              Create Session
+              {saving ? <FiLoader className="w-4 h-4 animate-spin" /> : <FiCheckCircle className="w-4 h-4" />}
+              Save Policy
             </button>
           </div>
-        </GlassCard>
+        )}
+      </GlassCard>
 
-        <GlassCard className="p-6">
-          <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
-            <FiCalendar className="w-5 h-5 text-emerald-600" />
-            Active Sessions
-          </h3>
-          {sessions.length > 0 ? (
-            <div className="space-y-3 max-h-[400px] overflow-y-auto pr-1">
-              {sessions.map(s => (
-                <div key={s.id} className="p-4 rounded-lg bg-emerald-50/50 border border-emerald-100">
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full border ${getSubjectLightColor(SUBJECTS.indexOf(s.subject as typeof SUBJECTS[number]))}`}>
-                        {s.subject}
-                      </span>
-                      <p className="text-sm text-gray-600 mt-1.5">
-                        {s.date} at {s.time} ({s.duration} min)
-                      </p>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <span className="font-mono text-lg font-bold text-emerald-700 tracking-wider">{s.code}</span>
-                      <button
-                        onClick={() => handleCopy(s.code, s.id)}
-                        className="p-1.5 rounded-lg hover:bg-emerald-100 transition-colors text-emerald-600"
-                        title="Copy code"
-                      >
-                        {copiedId === s.id ? (
-                          <FiCheckCircle className="w-4 h-4" />
-                        ) : (
-                          <FiCopy className="w-4 h-4" />
-                        )}
-                      </button>
-                    </div>
-                  </div>
-                  <div className="mt-2 flex items-center gap-1 text-xs text-gray-400">
-                    <FiUsers className="w-3 h-3" />
-                    {s.attendees.length} checked in
-                  </div>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="text-center py-10 text-gray-400">
-              <FiCalendar className="w-10 h-10 mx-auto mb-2 opacity-40" />
-              <p className="text-sm">No active sessions</p>
-              <p className="text-xs mt-1">Create a session to generate an attendance code</p>
-            </div>
-          )}
-        </GlassCard>
-      </div>
+      <AlertRulesCard useSample={useSample} subjects={subjects} terms={terms} />
+
+      <AcademicTermsCard useSample={useSample} terms={terms} onChanged={onTermsChanged} />
+
+      <GlassCard className="p-6 max-w-2xl">
+        <h3 className="text-base font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <FiActivity className="w-5 h-5 text-emerald-600" />
+          AI Agents
+        </h3>
+        <label className="flex items-start gap-2.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={retryAgents}
+            onChange={e => {
+              setRetryAgents(e.target.checked)
+              setAgentRetryEnabled(e.target.checked)
+            }}
+            className="mt-0.5 w-4 h-4 accent-emerald-600"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-700">Re-ask when a response contradicts itself</span>
+            <span className="block text-xs text-gray-400">
+              When a report, profile or alert summary fails its consistency checks (for example, a percentage that does not match its counts), the agent is asked once more with the problems listed. Saved in this browser.
+            </span>
+          </span>
+        </label>
+      </GlassCard>
     </div>
   )
 }
@@ -1733,23 +6263,54 @@ function AgentInfoSection({ activeAgentId }: { activeAgentId: string | null }) {
     { id: AGENT_IDS.STUDENT_PROFILE, name: 'Student Profile Agent', purpose: 'Retrieves individual student attendance profiles' },
     { id: AGENT_IDS.ATTENDANCE_ALERT, name: 'Attendance Alert Agent', purpose: 'Checks attendance thresholds and generates alerts' },
   ]
+  const [stats, setStats] = useState<AgentCheckStats[]>([])
+
+  // Refresh once no agent is running, so a just-finished check is counted
+  useEffect(() => {
+    if (activeAgentId) return
+    getAgentCheckStats().then(res => {
+      if (res.success) setStats(res.stats)
+    })
+  }, [activeAgentId])
 
   return (
     <GlassCard className="p-4 mt-6">
       <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-3">AI Agents</h3>
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-        {agents.map(a => (
-          <div
-            key={a.id}
-            className={`flex items-start gap-2.5 p-2.5 rounded-lg transition-all ${activeAgentId === a.id ? 'bg-emerald-50 border border-emerald-200' : 'bg-gray-50/50'}`}
-          >
-            <div className={`w-2 h-2 rounded-full mt-1.5 flex-shrink-0 ${activeAgentId === a.id ? 'bg-emerald-500 animate-pulse' : 'bg-gray-300'}`} />
-            <div className="min-w-0">
-              <p className="text-xs font-medium text-gray-800 truncate">{a.name}</p>
-              <p className="text-xs text-gray-400 leading-tight mt-0.5">{a.purpose}</p>
+        {agents.map(a => {
+          const agentStats = stats.find(st => st.agentId === a.id)
+          return (
+            <div
+              key={a.id}
+              className={`flex items-start gap-2.5 p-2.5 rounded-lg transition-all ${activeAgentId === a.id ? 'bg-emerald-50 border border-emerald-200' : 'bg-gray-50/50'}`}
+            >
+              <div className={`w-2 h-2 rounded-full mt-1.5 flex-shrink-0 ${activeAgentId === a.id ? 'bg-emerald-500 animate-pulse' : 'bg-gray-300'}`} />
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-medium text-gray-800 truncate">{a.name}</p>
+                <p className="text-xs text-gray-400 leading-tight mt-0.5">{a.purpose}</p>
+                {agentStats && agentStats.checks > 0 && (
+                  <div className="mt-1.5">
+                    <p className={`text-xs ${agentStats.flagged > 0 ? 'text-amber-600' : 'text-emerald-600'}`}>
+                      {Math.round((agentStats.flagged / agentStats.checks) * 100)}% of {agentStats.checks} responses had figure mismatches
+                    </p>
+                    {agentStats.daily.length > 1 && (
+                      <div className="flex items-end gap-0.5 h-4 mt-1" title="Responses with mismatches per day">
+                        {agentStats.daily.map(d => (
+                          <div
+                            key={d.date}
+                            title={`${d.date}: ${d.flagged} of ${d.checks} flagged`}
+                            className={`w-1.5 rounded-sm ${d.flagged > 0 ? 'bg-amber-400' : 'bg-emerald-300'}`}
+                            style={{ height: `${Math.max(20, (d.flagged / d.checks) * 100)}%` }}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
-        ))}
+          )
+        })}
       </div>
     </GlassCard>
   )
@@ -1764,6 +6325,34 @@ export default function Page() {
   const [useSample, setUseSample] = useState(false)
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [activeAgentId, setActiveAgentId] = useState<string | null>(null)
+  const [linkedCode, setLinkedCode] = useState('')
+  const catalog = useSubjectCatalog(useSample)
+  const { terms, current: currentTermId, ...termCatalog } = useAcademicTerms(useSample)
+  const calendar = useInstitutionCalendar(useSample)
+  const [termId, setTermId] = useState<string | null>(null)
+
+  // Open on the current term, and fall back to it when the selected term goes away
+  useEffect(() => {
+    if (!terms.some(t => t.id === termId)) setTermId(currentTermId)
+  }, [terms, currentTermId, termId])
+  const termScope = useMemo<TermScope>(
+    () => ({ terms, term: terms.find(t => t.id === termId) ?? null }),
+    [terms, termId]
+  )
+
+  // Deep links such as /?tab=attendance&code=DB3X7K (the session QR code)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const tab = params.get('tab')
+    if (tab && (NAV_TABS as readonly string[]).includes(tab)) {
+      setActiveTab(tab as NavTab)
+    }
+    const code = parseCheckInPayload(params.get('code') ?? '')
+    if (code) setLinkedCode(code)
+    if (tab || code) {
+      window.history.replaceState(null, '', window.location.pathname)
+    }
+  }, [])
 
   const navItems: { key: NavTab; label: string; icon: React.ReactNode }[] = [
     { key: 'dashboard', label: 'Dashboard', icon: <FiHome className="w-4 h-4" /> },
@@ -1772,6 +6361,12 @@ export default function Page() {
     { key: 'profiles', label: 'Student Profiles', icon: <FiUser className="w-4 h-4" /> },
     { key: 'alerts', label: 'Alerts', icon: <FiBell className="w-4 h-4" /> },
     { key: 'sessions', label: 'Create Session', icon: <FiPlus className="w-4 h-4" /> },
+    { key: 'calendar', label: 'Calendar', icon: <FiCalendar className="w-4 h-4" /> },
+    { key: 'roster', label: 'Roster', icon: <FiUsers className="w-4 h-4" /> },
+    { key: 'subjects', label: 'Subjects', icon: <FiBook className="w-4 h-4" /> },
+    { key: 'leave', label: 'Leave Requests', icon: <FiFilePlus className="w-4 h-4" /> },
+    { key: 'audit', label: 'Audit Log', icon: <FiShield className="w-4 h-4" /> },
+    { key: 'settings', label: 'Settings', icon: <FiSettings className="w-4 h-4" /> },
   ]
 
   return (
@@ -1841,12 +6436,48 @@ export default function Page() {
           {/* Main Content */}
           <main className="flex-1 min-h-screen lg:min-w-0">
             <div className="p-4 sm:p-6 lg:p-8 max-w-6xl mx-auto">
-              {activeTab === 'dashboard' && <DashboardTab useSample={useSample} />}
-              {activeTab === 'attendance' && <MarkAttendanceTab useSample={useSample} />}
-              {activeTab === 'reports' && <ReportsTab useSample={useSample} setActiveAgent={setActiveAgentId} />}
-              {activeTab === 'profiles' && <StudentProfilesTab useSample={useSample} setActiveAgent={setActiveAgentId} />}
-              {activeTab === 'alerts' && <AlertsTab useSample={useSample} setActiveAgent={setActiveAgentId} />}
-              {activeTab === 'sessions' && <CreateSessionTab useSample={useSample} />}
+              {catalog.error && (
+                <div className="mb-4">
+                  <InlineMessage type="error" message={`Subject catalog: ${catalog.error}`} />
+                </div>
+              )}
+              {termCatalog.error && (
+                <div className="mb-4">
+                  <InlineMessage type="error" message={`Academic terms: ${termCatalog.error}`} />
+                </div>
+              )}
+              {calendar.error && (
+                <div className="mb-4">
+                  <InlineMessage type="error" message={`Institution calendar: ${calendar.error}`} />
+                </div>
+              )}
+              <TermSwitcher scope={termScope} onSelect={setTermId} />
+              {activeTab === 'dashboard' && <DashboardTab useSample={useSample} subjects={catalog.subjects} termScope={termScope} />}
+              {activeTab === 'attendance' && <MarkAttendanceTab useSample={useSample} initialCode={linkedCode} />}
+              {activeTab === 'reports' && <ReportsTab useSample={useSample} subjects={catalog.subjects} termScope={termScope} setActiveAgent={setActiveAgentId} />}
+              {activeTab === 'profiles' && <StudentProfilesTab useSample={useSample} subjects={catalog.subjects} termScope={termScope} setActiveAgent={setActiveAgentId} />}
+              {activeTab === 'alerts' && <AlertsTab useSample={useSample} subjects={catalog.subjects} termScope={termScope} setActiveAgent={setActiveAgentId} />}
+              {activeTab === 'sessions' && (
+                <CreateSessionTab useSample={useSample} subjects={catalog.subjects} termScope={termScope} calendar={calendar.entries} />
+              )}
+              {activeTab === 'calendar' && (
+                <CalendarTab
+                  useSample={useSample}
+                  entries={calendar.entries}
+                  loading={calendar.loading}
+                  termScope={termScope}
+                  onChanged={calendar.reload}
+                />
+              )}
+              {activeTab === 'roster' && <RosterTab useSample={useSample} subjects={catalog.subjects} />}
+              {activeTab === 'subjects' && (
+                <SubjectsTab useSample={useSample} subjects={catalog.subjects} loading={catalog.loading} onChanged={catalog.reload} />
+              )}
+              {activeTab === 'leave' && <LeaveTab useSample={useSample} subjects={catalog.subjects} />}
+              {activeTab === 'audit' && <AuditTab useSample={useSample} />}
+              {activeTab === 'settings' && (
+                <SettingsTab useSample={useSample} subjects={catalog.subjects} terms={terms} onTermsChanged={termCatalog.reload} />
+              )}
 
               <AgentInfoSection activeAgentId={activeAgentId} />
             </div>
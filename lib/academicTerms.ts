@@ -0,0 +1,74 @@
+/**
+ * Academic Terms
+ *
+ * Pure helpers for the term calendar: which term a date or session falls in,
+ * whether a term is upcoming, current or archived, and which term the UI
+ * opens on. Shared by the API routes and the UI.
+ *
+ * A term is archived once its last day has passed; from then on its sessions
+ * and records are read-only.
+ */
+
+import { toLocalDate } from '@/lib/sessionTime'
+import type { AcademicTerm, AttendanceSession, TermStatus } from '@/lib/attendanceTypes'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function termStatus(term: Pick<AcademicTerm, 'start' | 'end'>, today: string = toLocalDate(new Date())): TermStatus {
+  if (today < term.start) return 'upcoming'
+  return today > term.end ? 'archived' : 'current'
+}
+
+export function isArchived(term: AcademicTerm | null | undefined, today?: string): boolean {
+  return !!term && termStatus(term, today) === 'archived'
+}
+
+/** The term whose dates cover `date`, or null. */
+export function termForDate(terms: AcademicTerm[], date: string): AcademicTerm | null {
+  return terms.find(t => t.start <= date && date <= t.end) ?? null
+}
+
+/** A session's term: its `termId`, or for sessions created before terms existed, the term covering its date. */
+export function termOfSession(
+  terms: AcademicTerm[],
+  session: Pick<AttendanceSession, 'termId' | 'date'>
+): AcademicTerm | null {
+  if (session.termId) return terms.find(t => t.id === session.termId) ?? null
+  return termForDate(terms, session.date)
+}
+
+/** Sessions that belong to `term`; every session when there is no term. */
+export function sessionsInTerm<T extends Pick<AttendanceSession, 'termId' | 'date'>>(
+  sessions: T[],
+  terms: AcademicTerm[],
+  term: AcademicTerm | null
+): T[] {
+  if (!term) return sessions
+  return sessions.filter(s => termOfSession(terms, s)?.id === term.id)
+}
+
+/** The term to open on: the current one, else the latest that has started, else the first upcoming one. */
+export function defaultTerm(terms: AcademicTerm[], today: string = toLocalDate(new Date())): AcademicTerm | null {
+  const sorted = [...terms].sort((a, b) => a.start.localeCompare(b.start))
+  const started = sorted.filter(t => t.start <= today)
+  return sorted.find(t => termStatus(t, today) === 'current') ?? started[started.length - 1] ?? sorted[0] ?? null
+}
+
+/** Validate a term's fields; returns an error message or null. */
+export function validateTermFields(fields: Pick<AcademicTerm, 'name' | 'start' | 'end'>): string | null {
+  if (!fields.name) return 'name cannot be empty'
+  if (!DATE_PATTERN.test(fields.start) || !DATE_PATTERN.test(fields.end)) {
+    return 'start and end must be in YYYY-MM-DD format'
+  }
+  if (fields.end < fields.start) return 'end must be on or after start'
+  return null
+}
+
+/** A term other than `ignoreId` that shares at least one day with `start`–`end`. */
+export function overlappingTerm(
+  terms: AcademicTerm[],
+  range: Pick<AcademicTerm, 'start' | 'end'>,
+  ignoreId?: string
+): AcademicTerm | null {
+  return terms.find(t => t.id !== ignoreId && t.start <= range.end && range.start <= t.end) ?? null
+}
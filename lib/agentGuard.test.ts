@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { checkAlerts, checkProfile, checkReport } from '@/lib/agentGuard'
+
+const computedReport = {
+  subject: 'DBMS',
+  total_students: 3,
+  present_count: 2,
+  absent_count: 1,
+  attendance_percentage: 66.7,
+  absentee_list: ['Ravi Kumar (21A02)'],
+}
+
+describe('checkReport', () => {
+  it('agrees with a matching response, within percentage rounding', () => {
+    const result = checkReport({ ...computedReport, attendance_percentage: 67 }, computedReport)
+    expect(result).toEqual({ fieldsChecked: 5, discrepancies: [] })
+  })
+
+  it('only checks the fields the agent returned', () => {
+    expect(checkReport({ present_count: 2 }, computedReport)).toEqual({ fieldsChecked: 1, discrepancies: [] })
+  })
+
+  it('accepts absentees by name or roll number and reports invented ones', () => {
+    expect(checkReport({ absentee_list: ['ravi kumar'] }, computedReport).discrepancies).toEqual([])
+    expect(checkReport({ absentee_list: ['21A02'] }, computedReport).discrepancies).toEqual([])
+    expect(checkReport({ absentee_list: ['Ravi Kumar (21A02)', 'Meena (21A03)'] }, computedReport).discrepancies).toEqual([
+      { field: 'absentee_list', agent: { extra: ['21a03'], missing: [] }, expected: ['Ravi Kumar (21A02)'] },
+    ])
+  })
+
+  it('reports counts that differ', () => {
+    expect(checkReport({ absent_count: 4 }, computedReport).discrepancies).toEqual([{ field: 'absent_count', agent: 4, expected: 1 }])
+  })
+})
+
+describe('checkProfile', () => {
+  const computed = {
+    roll_number: '21A01',
+    overall_attendance_percentage: 80,
+    status: 'Good Standing',
+    subject_wise_attendance: [{ subject: 'DBMS', classes_attended: 8, total_classes: 10, percentage: 80 }],
+  }
+
+  it('compares per-subject figures and flags subjects that do not exist', () => {
+    const agent = {
+      roll_number: '21A01',
+      status: 'good standing',
+      subject_wise_attendance: [
+        { subject: 'dbms', classes_attended: 9, total_classes: 10, percentage: 80 },
+        { subject: 'OS', classes_attended: 1, total_classes: 1, percentage: 100 },
+      ],
+    }
+    expect(checkProfile(agent, computed).discrepancies.map(d => d.field)).toEqual([
+      'subject_wise_attendance',
+      'subject_wise_attendance.DBMS.classes_attended',
+    ])
+  })
+})
+
+describe('checkAlerts', () => {
+  const computed = {
+    threshold_percentage: 75,
+    total_alerts: 1,
+    alerts: [{ roll_number: '21A01', subject: 'DBMS', attendance_percentage: 62.5, classes_missed: 3, severity: 'Severe' }],
+  }
+
+  it('matches alerts by student and subject', () => {
+    const agent = {
+      threshold_percentage: 75,
+      total_alerts: 2,
+      alerts: [
+        { roll_number: '21A01', subject: 'dbms', attendance_percentage: 62.5, classes_missed: 3, severity: 'Critical' },
+        { roll_number: '21A02', subject: 'OS', attendance_percentage: 70, severity: 'Warning' },
+      ],
+    }
+    expect(checkAlerts(agent, computed).discrepancies.map(d => d.field)).toEqual([
+      'total_alerts',
+      'alerts',
+      'alerts.21A01.DBMS.severity',
+    ])
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Agent Guard
+ *
+ * Cross-checks the figures in a parsed agent response against the ones
+ * computed from recorded attendance (lib/attendanceReports). Fields the agent
+ * left out are not counted; everything it did return is compared, so a
+ * response that invents a number or a student shows up as a discrepancy.
+ */
+
+import type {
+  AlertItem,
+  AlertResponse,
+  AttendanceReport,
+  FieldDiscrepancy,
+  StudentProfile,
+} from '@/lib/attendanceTypes'
+
+/** Percentages within this many points are treated as the same rounding. */
+const PERCENT_TOLERANCE = 0.5
+
+export interface GuardResult {
+  fieldsChecked: number
+  discrepancies: FieldDiscrepancy[]
+}
+
+/** Accumulates compared fields and mismatches for one response. */
+function createComparison() {
+  let fieldsChecked = 0
+  const discrepancies: FieldDiscrepancy[] = []
+
+  const record = (field: string, agent: unknown, expected: unknown, same: boolean) => {
+    fieldsChecked++
+    if (!same) discrepancies.push({ field, agent, expected })
+  }
+
+  return {
+    count(field: string, agent: unknown, expected: number | undefined) {
+      if (agent === undefined || agent === null || expected === undefined) return
+      record(field, agent, expected, Number(agent) === expected)
+    },
+
+    percent(field: string, agent: unknown, expected: number | undefined) {
+      if (agent === undefined || agent === null || expected === undefined) return
+      const value = Number(agent)
+      record(field, agent, expected, Number.isFinite(value) && Math.abs(value - expected) <= PERCENT_TOLERANCE)
+    },
+
+    label(field: string, agent: unknown, expected: string | undefined) {
+      if (typeof agent !== 'string' || !agent.trim() || expected === undefined) return
+      record(field, agent, expected, agent.trim().toLowerCase() === expected.toLowerCase())
+    },
+
+    /**
+     * Compare two lists as sets of keys; reports what the agent added and what
+     * it missed. `shown` is the readable form of the expected list.
+     */
+    set(field: string, agent: string[], expected: string[], shown: unknown[] = expected) {
+      const agentKeys = new Set(agent)
+      const expectedKeys = new Set(expected)
+      const extra = agent.filter(k => !expectedKeys.has(k))
+      const missing = expected.filter(k => !agentKeys.has(k))
+      record(field, { extra, missing }, shown, extra.length === 0 && missing.length === 0)
+    },
+
+    result(): GuardResult {
+      return { fieldsChecked, discrepancies }
+    },
+  }
+}
+
+/** "Rahul Sharma (101)" → "101"; bare names are compared case-insensitively. */
+function studentKey(entry: unknown): string {
+  const text = String(entry ?? '').trim()
+  const roll = text.match(/\(([^)]+)\)\s*$/)
+  return (roll ? roll[1] : text).trim().toLowerCase()
+}
+
+export function checkReport(agent: AttendanceReport, computed: AttendanceReport): GuardResult {
+  const c = createComparison()
+  c.count('total_students', agent.total_students, computed.total_students)
+  c.count('present_count', agent.present_count, computed.present_count)
+  c.count('absent_count', agent.absent_count, computed.absent_count)
+  c.percent('attendance_percentage', agent.attendance_percentage, computed.attendance_percentage)
+  if (Array.isArray(agent.absentee_list)) {
+    const expected = computed.absentee_list ?? []
+    // Accept either the roll number or the full name for each absentee
+    const names = new Map(expected.map(e => [String(e).replace(/\s*\([^)]*\)\s*$/, '').trim().toLowerCase(), studentKey(e)]))
+    const keys = agent.absentee_list.map(e => names.get(String(e).trim().toLowerCase()) ?? studentKey(e))
+    c.set('absentee_list', keys, expected.map(studentKey), expected)
+  }
+  return c.result()
+}
+
+export function checkProfile(agent: StudentProfile, computed: StudentProfile): GuardResult {
+  const c = createComparison()
+  c.label('roll_number', agent.roll_number, computed.roll_number)
+  c.percent('overall_attendance_percentage', agent.overall_attendance_percentage, computed.overall_attendance_percentage)
+  c.label('status', agent.status, computed.status)
+
+  const expected = new Map((computed.subject_wise_attendance ?? []).map(s => [String(s.subject).toUpperCase(), s]))
+  const agentSubjects = Array.isArray(agent.subject_wise_attendance) ? agent.subject_wise_attendance : []
+  if (agentSubjects.length > 0) {
+    c.set('subject_wise_attendance', agentSubjects.map(s => String(s?.subject ?? '').toUpperCase()), Array.from(expected.keys()))
+  }
+  for (const sub of agentSubjects) {
+    const subject = String(sub?.subject ?? '').toUpperCase()
+    const truth = expected.get(subject)
+    if (!truth) continue
+    c.count(`subject_wise_attendance.${subject}.classes_attended`, sub.classes_attended, truth.classes_attended)
+    c.count(`subject_wise_attendance.${subject}.total_classes`, sub.total_classes, truth.total_classes)
+    c.percent(`subject_wise_attendance.${subject}.percentage`, sub.percentage, truth.percentage)
+  }
+  return c.result()
+}
+
+function alertKey(alert: AlertItem): string {
+  return `${String(alert.roll_number ?? '').trim()} ${String(alert.subject ?? '').trim().toUpperCase()}`
+}
+
+export function checkAlerts(agent: AlertResponse, computed: AlertResponse): GuardResult {
+  const c = createComparison()
+  c.percent('threshold_percentage', agent.threshold_percentage, computed.threshold_percentage)
+  c.count('total_alerts', agent.total_alerts, computed.total_alerts)
+
+  if (Array.isArray(agent.alerts)) {
+    const expected = computed.alerts ?? []
+    c.set('alerts', agent.alerts.map(alertKey), expected.map(alertKey))
+    const truth = new Map(expected.map(a => [alertKey(a), a]))
+    for (const alert of agent.alerts) {
+      const match = truth.get(alertKey(alert))
+      if (!match) continue
+      const field = `alerts.${alert.roll_number}.${String(alert.subject).toUpperCase()}`
+      c.percent(`${field}.attendance_percentage`, alert.attendance_percentage, match.attendance_percentage)
+      c.count(`${field}.classes_missed`, alert.classes_missed, match.classes_missed)
+      c.label(`${field}.severity`, alert.severity, match.severity)
+    }
+  }
+  return c.result()
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { checkAlertInvariants, checkProfileInvariants, checkReportInvariants } from '@/lib/agentInvariants'
+
+const fields = (violations: { field: string }[]) => violations.map(v => v.field)
+
+describe('checkReportInvariants', () => {
+  it('accepts a consistent report', () => {
+    const report = { total_students: 40, present_count: 34, absent_count: 6, attendance_percentage: 85, absentee_list: ['Ravi (21A02)'] }
+    expect(checkReportInvariants(report)).toEqual([])
+  })
+
+  it('flags counts that do not add up to total_students', () => {
+    const report = { total_students: 40, present_count: 34, absent_count: 4, attendance_percentage: 85 }
+    expect(fields(checkReportInvariants(report))).toEqual(['absent_count'])
+  })
+
+  it('flags a percentage that disagrees with the counts beyond rounding', () => {
+    expect(checkReportInvariants({ total_students: 3, present_count: 2, absent_count: 1, attendance_percentage: 66.7 })).toEqual([])
+    expect(checkReportInvariants({ total_students: 3, present_count: 2, absent_count: 1, attendance_percentage: 67 })).toEqual([])
+    expect(fields(checkReportInvariants({ total_students: 3, present_count: 2, absent_count: 1, attendance_percentage: 90 }))).toEqual([
+      'attendance_percentage',
+    ])
+  })
+
+  it('flags out-of-range percentages and an absentee list longer than absent_count', () => {
+    expect(fields(checkReportInvariants({ attendance_percentage: 120 }))).toEqual(['attendance_percentage'])
+    expect(fields(checkReportInvariants({ absent_count: 1, absentee_list: ['A (1)', 'B (2)'] }))).toEqual(['absentee_list'])
+  })
+
+  it('skips missing fields', () => {
+    expect(checkReportInvariants({})).toEqual([])
+  })
+})
+
+describe('checkProfileInvariants', () => {
+  const profile = {
+    overall_attendance_percentage: 70,
+    status: 'At Risk',
+    subject_wise_attendance: [
+      { subject: 'DBMS', classes_attended: 8, total_classes: 10, percentage: 80 },
+      { subject: 'OS', classes_attended: 6, total_classes: 10, percentage: 60 },
+    ],
+  }
+
+  it('accepts a consistent profile', () => {
+    expect(checkProfileInvariants(profile, 75)).toEqual([])
+  })
+
+  it('holds the status to the bands', () => {
+    expect(fields(checkProfileInvariants({ ...profile, status: 'Good Standing' }, 75))).toEqual(['status'])
+  })
+
+  it('flags an overall percentage that disagrees with the subject totals', () => {
+    expect(fields(checkProfileInvariants({ ...profile, overall_attendance_percentage: 90, status: 'Good Standing' }, 75))).toEqual([
+      'overall_attendance_percentage',
+    ])
+  })
+})
+
+describe('checkAlertInvariants', () => {
+  it('flags a total that does not match the list and a wrong severity', () => {
+    const response = {
+      threshold_percentage: 75,
+      total_alerts: 2,
+      alerts: [{ roll_number: '21A01', subject: 'DBMS', attendance_percentage: 68, classes_missed: 4, severity: 'Warning' }],
+    }
+    expect(fields(checkAlertInvariants(response))).toEqual(['total_alerts', 'alerts.21A01.DBMS.severity'])
+  })
+
+  it('uses per-subject thresholds when given', () => {
+    const response = {
+      threshold_percentage: 75,
+      total_alerts: 1,
+      alerts: [{ roll_number: '21A01', subject: 'JAVA', attendance_percentage: 78, severity: 'Warning' }],
+    }
+    expect(fields(checkAlertInvariants(response))).toEqual(['alerts.21A01.JAVA.attendance_percentage'])
+    expect(checkAlertInvariants(response, { defaultThreshold: 75, subjects: { JAVA: 80 } })).toEqual([])
+  })
+})
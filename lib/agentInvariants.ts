@@ -0,0 +1,220 @@
+/**
+ * Agent Invariants
+ *
+ * Self-consistency rules for parsed agent responses. Unlike lib/agentGuard,
+ * these need no recorded attendance: they only check that a payload agrees
+ * with itself (counts against percentages, totals against list lengths,
+ * severities and statuses against the thresholds and bands). Missing fields
+ * are skipped.
+ */
+
+import {
+  ALERT_SEVERITIES,
+  DEFAULT_SEVERITY_RULES,
+  STUDENT_STATUSES,
+  alertSeverity,
+  studentStatus,
+  thresholdFor,
+} from '@/lib/attendanceReports'
+import type {
+  AlertResponse,
+  AttendanceReport,
+  SeverityRules,
+  StudentProfile,
+  ThresholdSettings,
+} from '@/lib/attendanceTypes'
+
+/** Rounding slack, in percentage points, when a percentage is re-derived from counts. */
+const PERCENT_TOLERANCE = 1
+
+export interface InvariantViolation {
+  /** Dotted path, same form as FieldDiscrepancy.field */
+  field: string
+  message: string
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+/** Accumulates violations for one payload. */
+function createRules() {
+  const violations: InvariantViolation[] = []
+  const fail = (field: string, message: string) => violations.push({ field, message })
+
+  return {
+    fail,
+
+    percentage(field: string, value: unknown) {
+      if (value === undefined || value === null) return
+      if (!isNumber(value)) fail(field, `is ${JSON.stringify(value)}, not a number`)
+      else if (value < 0 || value > 100) fail(field, `is ${value}, outside 0-100`)
+    },
+
+    count(field: string, value: unknown) {
+      if (value === undefined || value === null) return
+      if (!isNumber(value) || !Number.isInteger(value) || value < 0) {
+        fail(field, `is ${JSON.stringify(value)}, not a whole number of 0 or more`)
+      }
+    },
+
+    /** `percentage` should equal part / whole × 100 when both counts are present. */
+    ratio(field: string, percentage: unknown, part: unknown, whole: unknown, parts: string) {
+      if (!isNumber(percentage) || !isNumber(part) || !isNumber(whole) || whole <= 0) return
+      const derived = Math.round((part / whole) * 1000) / 10
+      if (Math.abs(derived - percentage) > PERCENT_TOLERANCE) {
+        fail(field, `is ${percentage}%, but ${parts} give ${derived}%`)
+      }
+    },
+
+    oneOf(field: string, value: unknown, allowed: readonly string[]) {
+      if (typeof value !== 'string' || !value.trim()) return
+      if (!allowed.some(a => a.toLowerCase() === value.trim().toLowerCase())) {
+        fail(field, `is "${value}", expected one of ${allowed.join(', ')}`)
+      }
+    },
+
+    result(): InvariantViolation[] {
+      return violations
+    },
+  }
+}
+
+/**
+ * Report rules. present_count and absent_count are the students counted on
+ * the latest class day, so they must add up to total_students, and
+ * attendance_percentage must match present_count / total_students.
+ */
+export function checkReportInvariants(report: AttendanceReport): InvariantViolation[] {
+  const r = createRules()
+  r.count('total_students', report.total_students)
+  r.count('present_count', report.present_count)
+  r.count('absent_count', report.absent_count)
+  r.percentage('attendance_percentage', report.attendance_percentage)
+
+  const { present_count: present, absent_count: absent, total_students: total } = report
+  if (isNumber(present) && isNumber(absent) && isNumber(total) && present + absent !== total) {
+    r.fail('absent_count', `present_count (${present}) + absent_count (${absent}) is ${present + absent}, not total_students (${total})`)
+  }
+  r.ratio('attendance_percentage', report.attendance_percentage, present, total, 'present_count and total_students')
+
+  if (report.absentee_list !== undefined && !Array.isArray(report.absentee_list)) {
+    r.fail('absentee_list', 'is not a list')
+  } else if (Array.isArray(report.absentee_list)) {
+    if (isNumber(report.total_students) && report.absentee_list.length > report.total_students) {
+      r.fail('absentee_list', `names ${report.absentee_list.length} students, more than total_students (${report.total_students})`)
+    }
+    if (isNumber(absent) && report.absentee_list.length > absent) {
+      r.fail('absentee_list', `names ${report.absentee_list.length} students, more than absent_count (${absent})`)
+    }
+  }
+  return r.result()
+}
+
+/**
+ * Profile rules. With `threshold`, a status is also held to the status bands
+ * in `rules` for the stated overall percentage.
+ */
+export function checkProfileInvariants(
+  profile: StudentProfile,
+  threshold?: number,
+  rules: SeverityRules = DEFAULT_SEVERITY_RULES
+): InvariantViolation[] {
+  const r = createRules()
+  r.percentage('overall_attendance_percentage', profile.overall_attendance_percentage)
+  r.oneOf('status', profile.status, STUDENT_STATUSES)
+
+  const overall = profile.overall_attendance_percentage
+  const status = typeof profile.status === 'string' ? profile.status.trim().toLowerCase() : ''
+  const banded = STUDENT_STATUSES.some(s => s !== 'No Data' && s.toLowerCase() === status)
+  if (isNumber(threshold) && isNumber(overall) && banded) {
+    const expected = studentStatus(overall, threshold, rules)
+    if (status !== expected.toLowerCase()) {
+      r.fail('status', `is ${profile.status}, but ${overall}% against ${threshold}% is ${expected}`)
+    }
+  }
+
+  if (profile.subject_wise_attendance !== undefined && !Array.isArray(profile.subject_wise_attendance)) {
+    r.fail('subject_wise_attendance', 'is not a list')
+    return r.result()
+  }
+
+  const subjects = profile.subject_wise_attendance ?? []
+  const seen = new Set<string>()
+  let attended = 0
+  let total = 0
+  for (const sub of subjects) {
+    const subject = String(sub?.subject ?? '').toUpperCase()
+    const field = `subject_wise_attendance.${subject || '?'}`
+    if (seen.has(subject)) r.fail(field, 'is listed more than once')
+    seen.add(subject)
+
+    r.count(`${field}.classes_attended`, sub.classes_attended)
+    r.count(`${field}.total_classes`, sub.total_classes)
+    r.percentage(`${field}.percentage`, sub.percentage)
+    if (isNumber(sub.classes_attended) && isNumber(sub.total_classes)) {
+      if (sub.classes_attended > sub.total_classes) {
+        r.fail(`${field}.classes_attended`, `is ${sub.classes_attended}, more than total_classes (${sub.total_classes})`)
+      }
+      r.ratio(`${field}.percentage`, sub.percentage, sub.classes_attended, sub.total_classes, 'classes_attended and total_classes')
+      attended += sub.classes_attended
+      total += sub.total_classes
+    }
+  }
+
+  r.ratio('overall_attendance_percentage', profile.overall_attendance_percentage, attended, total, 'the subject totals')
+  return r.result()
+}
+
+/**
+ * Alert rules. Each alert is held to `threshold_percentage`, or to its
+ * subject's threshold when `thresholds` with per-subject overrides is given,
+ * and its severity to the bands in `rules`.
+ */
+export function checkAlertInvariants(
+  response: AlertResponse,
+  thresholds?: ThresholdSettings,
+  rules: SeverityRules = DEFAULT_SEVERITY_RULES
+): InvariantViolation[] {
+  const r = createRules()
+  r.percentage('threshold_percentage', response.threshold_percentage)
+  r.count('total_alerts', response.total_alerts)
+
+  if (response.alerts !== undefined && !Array.isArray(response.alerts)) {
+    r.fail('alerts', 'is not a list')
+    return r.result()
+  }
+
+  const alerts = response.alerts ?? []
+  if (isNumber(response.total_alerts) && response.total_alerts !== alerts.length) {
+    r.fail('total_alerts', `is ${response.total_alerts}, but the list has ${alerts.length}`)
+  }
+
+  const seen = new Set<string>()
+  for (const alert of alerts) {
+    const key = `${String(alert?.roll_number ?? '?').trim()}.${String(alert?.subject ?? '?').trim().toUpperCase()}`
+    const field = `alerts.${key}`
+    if (seen.has(key)) r.fail(field, 'is listed more than once')
+    seen.add(key)
+
+    r.percentage(`${field}.attendance_percentage`, alert.attendance_percentage)
+    r.count(`${field}.classes_missed`, alert.classes_missed)
+    r.oneOf(`${field}.severity`, alert.severity, ALERT_SEVERITIES)
+
+    const pct = alert.attendance_percentage
+    const threshold = thresholds && alert.subject
+      ? thresholdFor({ ...thresholds, defaultThreshold: response.threshold_percentage ?? thresholds.defaultThreshold }, alert.subject)
+      : response.threshold_percentage
+    if (isNumber(pct) && isNumber(threshold)) {
+      if (pct >= threshold) {
+        r.fail(`${field}.attendance_percentage`, `is ${pct}%, not below the ${threshold}% threshold`)
+      } else if (typeof alert.severity === 'string' && ALERT_SEVERITIES.some(s => s.toLowerCase() === alert.severity?.trim().toLowerCase())) {
+        const expected = alertSeverity(pct, threshold, rules)
+        if (alert.severity.trim().toLowerCase() !== expected.toLowerCase()) {
+          r.fail(`${field}.severity`, `is ${alert.severity}, but ${pct}% against ${threshold}% is ${expected}`)
+        }
+      }
+    }
+  }
+  return r.result()
+}
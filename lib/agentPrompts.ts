@@ -0,0 +1,330 @@
+/**
+ * Agent Prompts
+ *
+ * The report, profile and alert agents run without tools, so every fact they
+ * may use has to travel inside the message. These builders serialize the
+ * relevant slice of recorded attendance as compact JSON under a character
+ * budget: recent rows go in verbatim, older ones are rolled up into totals,
+ * and long lists are cut with a note of how much was left out.
+ */
+
+import { attendancePercentage, countStatuses, emptyCounts } from '@/lib/attendanceStats'
+import type { AttendanceMark, StatusCounts } from '@/lib/attendanceStats'
+import { ALL_SECTIONS, ALL_SUBJECTS, thresholdFor } from '@/lib/attendanceReports'
+import type { InvariantViolation } from '@/lib/agentInvariants'
+import type {
+  AlertResponse,
+  AttendancePolicy,
+  AttendanceReport,
+  SeverityRules,
+  Student,
+  StudentProfile,
+  Subject,
+  ThresholdSettings,
+} from '@/lib/attendanceTypes'
+
+/** Upper bound on a whole message, in characters. */
+export const PROMPT_CHAR_BUDGET = 12_000
+
+/** Starting row limits; halved until the message fits the budget. */
+const MAX_SESSION_ROWS = 40
+const MAX_HISTORY_ROWS = 60
+const MAX_ALERT_ROWS = 50
+const MAX_LOWEST_STUDENTS = 10
+const MAX_ROSTER_ROWS = 200
+
+interface SessionRow extends StatusCounts {
+  date: string
+  subject: string
+}
+
+interface MonthRow extends StatusCounts {
+  month: string
+  sessions: number
+}
+
+function addCounts(target: StatusCounts, source: StatusCounts) {
+  target.present += source.present
+  target.late += source.late
+  target.absent += source.absent
+  target.excused += source.excused
+}
+
+/** One row of status counts per session, oldest first. */
+function summarizeSessions(marks: AttendanceMark[]): SessionRow[] {
+  const bySession = new Map<string, SessionRow>()
+  for (const mark of marks) {
+    let row = bySession.get(mark.sessionId)
+    if (!row) {
+      row = { date: mark.date, subject: mark.subject, ...emptyCounts() }
+      bySession.set(mark.sessionId, row)
+    }
+    row[mark.status]++
+  }
+  return Array.from(bySession.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/** Keep the newest `limit` sessions as rows and fold the rest into monthly totals. */
+function rollUpSessions(rows: SessionRow[], limit: number): { months: MonthRow[]; sessions: SessionRow[] } {
+  const recent = rows.slice(-limit)
+  const months = new Map<string, MonthRow>()
+  for (const row of rows.slice(0, rows.length - recent.length)) {
+    const month = row.date.slice(0, 7)
+    const total = months.get(month) ?? { month, sessions: 0, ...emptyCounts() }
+    total.sessions++
+    addCounts(total, row)
+    months.set(month, total)
+  }
+  return { months: Array.from(months.values()), sessions: recent }
+}
+
+/**
+ * Render `build(limit)` with the largest row limit (halving from `start`)
+ * whose output fits PROMPT_CHAR_BUDGET. Falls back to the one-row version.
+ */
+function fitToBudget(start: number, build: (limit: number) => string): string {
+  let limit = start
+  let message = build(limit)
+  while (message.length > PROMPT_CHAR_BUDGET && limit > 1) {
+    limit = Math.max(1, Math.floor(limit / 2))
+    message = build(limit)
+  }
+  return message
+}
+
+function withData(instructions: string[], data: unknown): string {
+  return `${instructions.join('\n')}\n\nDATA (JSON):\n${JSON.stringify(data)}`
+}
+
+const GROUNDING_RULES = [
+  'Use ONLY the DATA below. It is the complete attendance record from our system; you have no other source.',
+  'Every number under "computed" is final. Copy those figures exactly and never recalculate or invent numbers.',
+]
+
+const SUBJECT_RULE = 'Subjects are identified by the codes in "subjects"; use the names there when writing about them.'
+
+/** The catalog as sent to agents: what a code stands for, without UI-only fields. */
+function catalogData(subjects: Subject[]) {
+  return subjects.map(s => ({ code: s.code, name: s.name, credits: s.credits, faculty: s.faculty || undefined }))
+}
+
+function describePolicy(policy: AttendancePolicy): string {
+  return `Late ${policy.lateCountsAsPresent ? 'counts' : 'does not count'} as attended. Excused sessions (including approved leave) are not counted.`
+}
+
+/** "75%" or "75% (DBMS 80%, OS 70%)" when subjects override the default. */
+export function describeThresholds(thresholds: ThresholdSettings): string {
+  const overrides = Object.keys(thresholds.subjects)
+    .sort()
+    .map(subject => `${subject} ${thresholdFor(thresholds, subject)}%`)
+  return overrides.length > 0
+    ? `${thresholds.defaultThreshold}% (${overrides.join(', ')})`
+    : `${thresholds.defaultThreshold}%`
+}
+
+function formatPoints(points: number): string {
+  return `${points} point${points === 1 ? '' : 's'}`
+}
+
+/** The alert severity bands, measured from each subject's threshold. */
+export function describeSeverityRules(rules: SeverityRules): string {
+  return [
+    `Severity is set by how far a percentage is below its threshold: up to ${formatPoints(rules.warningWithin)} below is Warning,`,
+    `up to ${formatPoints(rules.criticalWithin)} below is Critical, and further below is Severe.`,
+  ].join(' ')
+}
+
+/** The profile status bands, measured from the default threshold. */
+export function describeStatusRules(rules: SeverityRules): string {
+  return [
+    'Status is Good Standing at or above the threshold overall,',
+    `At Risk up to ${formatPoints(rules.atRiskWithin)} below it, and Critical further below; No Data when nothing has been counted.`,
+  ].join(' ')
+}
+
+/** " in section A", or nothing for ALL_SECTIONS. */
+function sectionScope(section?: string): string {
+  return section && section !== ALL_SECTIONS ? ` in section ${section}` : ''
+}
+
+/**
+ * Report for one subject (or ALL_SUBJECTS): per-session counts plus the
+ * students lowest in that subject. With a `section`, `marks` and `report`
+ * are expected to cover that section's students only.
+ */
+export function buildReportPrompt(params: {
+  subject: string
+  section?: string
+  report: AttendanceReport
+  marks: AttendanceMark[]
+  policy: AttendancePolicy
+  subjects: Subject[]
+}): string {
+  const { subject, section, report, policy, subjects } = params
+  const all = subject === ALL_SUBJECTS
+  const marks = all ? params.marks : params.marks.filter(m => m.subject === subject)
+
+  const byStudent = new Map<string, AttendanceMark[]>()
+  for (const mark of marks) byStudent.set(mark.rollNumber, [...(byStudent.get(mark.rollNumber) ?? []), mark])
+  const lowest = Array.from(byStudent.entries())
+    .map(([rollNumber, own]) => ({
+      name: own[0].name,
+      roll_number: rollNumber,
+      percentage: attendancePercentage(countStatuses(own), policy),
+    }))
+    .filter(s => s.percentage !== null)
+    .sort((a, b) => (a.percentage ?? 0) - (b.percentage ?? 0))
+    .slice(0, MAX_LOWEST_STUDENTS)
+
+  const rows = summarizeSessions(marks)
+  const instructions = [
+    all
+      ? `Generate an attendance report across all subjects${sectionScope(section)}.`
+      : `Generate an attendance report for ${subject}${sectionScope(section)}.`,
+    ...GROUNDING_RULES,
+    'Write trend_summary from how attendance changes across "sessions" (and "earlier_months", if present), and report_summary as an overall assessment with recommended follow-up.',
+    'The figures cover each section\'s latest class day: present_count and absent_count add up to total_students, excused students are left out, and attendance_percentage is present_count / total_students.',
+    SUBJECT_RULE,
+    describePolicy(policy),
+  ]
+
+  return fitToBudget(MAX_SESSION_ROWS, limit => {
+    const { months, sessions } = rollUpSessions(rows, limit)
+    const absentees = report.absentee_list ?? []
+    return withData(instructions, {
+      computed: { ...report, absentee_list: absentees.slice(0, limit) },
+      omitted_absentees: absentees.length > limit ? absentees.length - limit : undefined,
+      earlier_months: months.length > 0 ? months : undefined,
+      sessions,
+      lowest_attendance: lowest,
+      subjects: catalogData(subjects),
+    })
+  })
+}
+
+/**
+ * Profile question about one student. With a roster match the student's own
+ * history is attached; without one the agent gets a roster index so it can
+ * say which student it means.
+ */
+export function buildProfilePrompt(params: {
+  query: string
+  profile: StudentProfile | null
+  marks: AttendanceMark[]
+  students: Student[]
+  policy: AttendancePolicy
+  thresholds: ThresholdSettings
+  rules: SeverityRules
+  subjects: Subject[]
+}): string {
+  const { query, profile, policy, thresholds, rules, subjects } = params
+
+  if (!profile) {
+    const roster = params.students.slice(0, MAX_ROSTER_ROWS).map(s => ({ name: s.name, roll_number: s.rollNumber }))
+    return withData(
+      [
+        `Question: ${query}`,
+        'No student in our roster clearly matches this question. Identify the student from the roster below and return their name and roll_number; leave every number at 0 and explain in remarks if nobody matches.',
+      ],
+      {
+        roster,
+        omitted_students: Math.max(0, params.students.length - roster.length) || undefined,
+      }
+    )
+  }
+
+  const own = params.marks
+    .filter(m => m.rollNumber === profile.roll_number)
+    .sort((a, b) => a.date.localeCompare(b.date))
+  const instructions = [
+    `Question: ${query}`,
+    ...GROUNDING_RULES,
+    'Write remarks about this student\'s attendance pattern from "history" (and "earlier_by_subject", if present), with recommendations.',
+    `The minimum attendance threshold is ${describeThresholds(thresholds)}.`,
+    describeStatusRules(rules),
+    SUBJECT_RULE,
+    describePolicy(policy),
+  ]
+
+  return fitToBudget(MAX_HISTORY_ROWS, limit => {
+    const recent = own.slice(-limit)
+    const earlier: Record<string, StatusCounts> = {}
+    for (const mark of own.slice(0, own.length - recent.length)) {
+      earlier[mark.subject] = earlier[mark.subject] ?? emptyCounts()
+      earlier[mark.subject][mark.status]++
+    }
+    return withData(instructions, {
+      computed: profile,
+      earlier_by_subject: Object.keys(earlier).length > 0 ? earlier : undefined,
+      history: recent.map(m => ({ date: m.date, subject: m.subject, status: m.status })),
+      subjects: catalogData(subjects),
+    })
+  })
+}
+
+/**
+ * Below-threshold candidates, most severe first; the rest are counted by
+ * severity. With a `section`, `alerts` should only cover that section.
+ */
+export function buildAlertPrompt(params: {
+  alerts: AlertResponse
+  section?: string
+  policy: AttendancePolicy
+  thresholds: ThresholdSettings
+  rules: SeverityRules
+  subjects: Subject[]
+}): string {
+  const { alerts, section, policy, thresholds, rules, subjects } = params
+  const items = alerts.alerts ?? []
+  const bySeverity: Record<string, number> = {}
+  for (const item of items) {
+    const severity = item.severity ?? 'Unknown'
+    bySeverity[severity] = (bySeverity[severity] ?? 0) + 1
+  }
+
+  const instructions = [
+    `Summarize the attendance alerts for students${sectionScope(section)} below the ${describeThresholds(thresholds)} attendance threshold.`,
+    ...GROUNDING_RULES,
+    'Write summary with the most urgent cases first and recommended actions for each severity.',
+    describeSeverityRules(rules),
+    SUBJECT_RULE,
+    describePolicy(policy),
+  ]
+
+  return fitToBudget(MAX_ALERT_ROWS, limit => {
+    const listed = items.slice(0, limit)
+    return withData(instructions, {
+      computed: { ...alerts, alerts: listed },
+      alerts_by_severity: bySeverity,
+      omitted_alerts: items.length > listed.length ? items.length - listed.length : undefined,
+      subjects: catalogData(subjects),
+    })
+  })
+}
+
+/**
+ * Message for the scheduled alert run. The schedule stores it as plain text,
+ * so it is rebuilt and pushed to the scheduler whenever thresholds, severity
+ * bands or the subject catalog change.
+ */
+export function buildScheduledAlertMessage(
+  thresholds: ThresholdSettings,
+  rules: SeverityRules,
+  subjects: readonly string[]
+): string {
+  return [
+    `Check all student attendance records against the ${describeThresholds(thresholds)} threshold.`,
+    `Identify students below the threshold in each subject (${subjects.join(', ')}).`,
+    'Generate alert summaries with student names, roll numbers, attendance percentages, and severity levels.',
+    describeSeverityRules(rules),
+  ].join(' ')
+}
+
+/**
+ * Re-ask after a response contradicted itself: the original message again,
+ * followed by each violation, so the agent has the data it needs to fix them.
+ */
+export function buildCorrectionPrompt(message: string, violations: InvariantViolation[]): string {
+  const listed = violations.map(v => `- ${v.field} ${v.message}`).join('\n')
+  return `${message}\n\nYour previous answer to this request contradicted itself:\n${listed}\nReturn the complete JSON again with these fields corrected from the DATA above.`
+}
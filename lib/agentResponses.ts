@@ -0,0 +1,168 @@
+/**
+ * Agent Responses
+ *
+ * Runtime schemas for the agents' JSON responses, built from the
+ * response_schemas/*.json files rather than copied by hand, and `callAgent`,
+ * which calls an agent and validates what comes back against its schema.
+ *
+ * Every field is optional (agents routinely leave some out) but a field that
+ * is present must have the declared type. Payloads go through parseLLMJson
+ * (lib/jsonParser) with the agent's schema, which repairs values that only
+ * differ from it in representation; the response is then returned as
+ * `coerced`, with one warning per change.
+ */
+
+import { z } from 'zod'
+import { callAIAgent } from '@/lib/aiAgent'
+import parseLLMJson from '@/lib/jsonParser'
+import type { Coercion } from '@/lib/jsonParser'
+import { ALERT_SEVERITIES } from '@/lib/attendanceReports'
+import type { AIAgentResponse } from '@/lib/aiAgent'
+import alertSchemaFile from '@/response_schemas/attendance_alert_agent_response.json'
+import reportSchemaFile from '@/response_schemas/attendance_report_agent_response.json'
+import profileSchemaFile from '@/response_schemas/student_profile_agent_response.json'
+import type {
+  AlertItem,
+  AlertResponse,
+  AttendanceReport,
+  StudentProfile,
+  SubjectAttendance,
+} from '@/lib/attendanceTypes'
+
+/** A field type as written in response_schemas: "string", "number", [item] or an object of fields. */
+type SchemaShape = string | SchemaShape[] | { [field: string]: SchemaShape }
+
+interface ResponseSchemaFile {
+  agent_name: string
+  agent_id: string
+  accessor: string
+  response_schema: Record<string, SchemaShape>
+}
+
+export type CoercionWarning = Coercion
+
+export type AgentCallResult<T> =
+  | { kind: 'valid'; data: T; raw: unknown }
+  | { kind: 'coerced'; data: T; warnings: CoercionWarning[]; raw: unknown }
+  | { kind: 'invalid'; issues: string[]; raw: unknown }
+  | { kind: 'error'; error: string }
+
+// The interfaces in attendanceTypes are the static view of these files. JSON
+// imports keep their field names, so a field added to or dropped from either
+// side fails to compile here.
+type SameKeys<A, B> = [Exclude<keyof A, keyof B> | Exclude<keyof B, keyof A>] extends [never] ? true : false
+type ReportFile = typeof reportSchemaFile.response_schema.result
+type ProfileFile = typeof profileSchemaFile.response_schema.result
+type AlertFile = typeof alertSchemaFile.response_schema.result
+const SCHEMA_FILES_MATCH_TYPES: [
+  SameKeys<AttendanceReport, ReportFile>,
+  SameKeys<StudentProfile, ProfileFile>,
+  SameKeys<SubjectAttendance, ProfileFile['subject_wise_attendance'][number]>,
+  SameKeys<AlertResponse, AlertFile>,
+  SameKeys<AlertItem, AlertFile['alerts'][number]>,
+] = [true, true, true, true, true]
+void SCHEMA_FILES_MATCH_TYPES
+
+/**
+ * String fields with a known set of labels. Other labels still validate, but
+ * a known one in the wrong case is put back in canonical form.
+ */
+const LABEL_FIELDS: Record<string, readonly [string, ...string[]]> = {
+  severity: ALERT_SEVERITIES,
+}
+
+function toZod(shape: SchemaShape, key?: string): z.ZodTypeAny {
+  if (Array.isArray(shape)) return z.array(shape.length > 0 ? toZod(shape[0]) : z.unknown())
+  if (shape && typeof shape === 'object') {
+    const fields: Record<string, z.ZodTypeAny> = {}
+    for (const [field, value] of Object.entries(shape)) fields[field] = toZod(value, field).optional()
+    return z.object(fields).passthrough()
+  }
+  switch (shape) {
+    case 'string':
+      return key && LABEL_FIELDS[key] ? z.union([z.enum(LABEL_FIELDS[key]), z.string()]) : z.string()
+    case 'number':
+      return z.number()
+    case 'boolean':
+      return z.boolean()
+    default:
+      return z.unknown()
+  }
+}
+
+interface AgentResponseSchema {
+  agentName: string
+  accessor: string
+  schema: z.ZodTypeAny
+}
+
+function fromFile(file: ResponseSchemaFile): [string, AgentResponseSchema] {
+  const shape = file.response_schema[file.accessor] ?? file.response_schema
+  return [file.agent_id, { agentName: file.agent_name, accessor: file.accessor, schema: toZod(shape) }]
+}
+
+/** Response schema per agent id. */
+export const AGENT_RESPONSE_SCHEMAS: ReadonlyMap<string, AgentResponseSchema> = new Map([
+  fromFile(reportSchemaFile as ResponseSchemaFile),
+  fromFile(profileSchemaFile as ResponseSchemaFile),
+  fromFile(alertSchemaFile as ResponseSchemaFile),
+])
+
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(response)'}: ${issue.message}`)
+}
+
+/**
+ * The payload inside an agent response: `response[accessor]` when it is an
+ * object (or a JSON string of one), otherwise the response itself.
+ */
+function extractPayload(result: AIAgentResponse, accessor: string): unknown {
+  let response: unknown = result.response
+  if (typeof response === 'string') {
+    try {
+      response = JSON.parse(response)
+    } catch {
+      return response
+    }
+  }
+  if (!response || typeof response !== 'object') return response
+
+  let data = (response as Record<string, unknown>)[accessor]
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data)
+    } catch {
+      // leave as string
+    }
+  }
+  return data && typeof data === 'object' ? data : response
+}
+
+/** Validate an already-extracted payload against `schema`, repairing what it can first. */
+export function validateAgentPayload<T>(raw: unknown, schema: z.ZodTypeAny): AgentCallResult<T> {
+  const { data, coercions } = parseLLMJson(raw, {}, schema)
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) return { kind: 'invalid', issues: describeIssues(parsed.error), raw }
+  return coercions.length > 0
+    ? { kind: 'coerced', data: parsed.data as T, warnings: coercions, raw }
+    : { kind: 'valid', data: parsed.data as T, raw }
+}
+
+/**
+ * Call an agent and check its response against the agent's schema. `T` is
+ * the caller's view of that schema (e.g. AttendanceReport for the report
+ * agent); agents without a schema file are reported as errors.
+ */
+export async function callAgent<T>(
+  message: string,
+  agentId: string,
+  options?: { user_id?: string; session_id?: string; assets?: string[] }
+): Promise<AgentCallResult<T>> {
+  const entry = AGENT_RESPONSE_SCHEMAS.get(agentId)
+  if (!entry) return { kind: 'error', error: `No response schema for agent ${agentId}` }
+
+  const result = await callAIAgent(message, agentId, options)
+  if (!result.success) return { kind: 'error', error: result.error ?? 'Agent call failed' }
+
+  return validateAgentPayload<T>(extractPayload(result, entry.accessor), entry.schema)
+}
@@ -0,0 +1,844 @@
+'use client'
+
+/**
+ * Attendance Client Utility
+ *
+ * Client-side wrapper for the /api/sessions, /api/attendance, /api/students,
+ * /api/subjects, /api/terms, /api/calendar, /api/audit, /api/leave, /api/agent-checks and /api/settings
+ * routes.
+ * Sessions and check-ins live on the server so they survive reloads and tab switches.
+ */
+
+import fetchWrapper from '@/lib/fetchWrapper'
+import { generateUUID } from '@/lib/utils'
+import { toStartsAt } from '@/lib/sessionTime'
+import type {
+  AcademicTerm,
+  AgentCheckKind,
+  AgentCheckStats,
+  AttendancePolicy,
+  AttendanceSession,
+  AttendanceRecord,
+  AttendanceStatus,
+  AuditEntry,
+  CalendarEntry,
+  CheckInRejection,
+  FieldDiscrepancy,
+  LeaveAttachment,
+  LeaveRequest,
+  LeaveStatus,
+  RegisterEntry,
+  SessionAction,
+  SeverityRules,
+  Student,
+  Subject,
+  ThresholdSettings,
+} from '@/lib/attendanceTypes'
+
+export type {
+  AcademicTerm,
+  AgentCheck,
+  AgentCheckKind,
+  AgentCheckStats,
+  AlertItem,
+  AlertResponse,
+  AttendancePolicy,
+  AttendanceReport,
+  AttendanceSession,
+  AttendanceRecord,
+  AttendanceStatus,
+  AuditAction,
+  AuditEntry,
+  AuditSnapshot,
+  CalendarDayKind,
+  CalendarEntry,
+  CheckInRejection,
+  FieldDiscrepancy,
+  LeaveAttachment,
+  LeaveRequest,
+  LeaveStatus,
+  ProxyFlag,
+  RegisterEntry,
+  SessionAction,
+  SessionRotation,
+  SessionStatus,
+  SeverityRules,
+  Student,
+  StudentProfile,
+  Subject,
+  SubjectAttendance,
+  TermStatus,
+  TermThresholds,
+  ThresholdSettings,
+} from '@/lib/attendanceTypes'
+
+// ---------------------------------------------------------------------------
+// Helper
+// ---------------------------------------------------------------------------
+
+function buildQuery(params: Record<string, string | number | boolean | undefined | null>): string {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') {
+      query.set(key, String(value))
+    }
+  }
+  return query.toString()
+}
+
+const DEVICE_ID_KEY = 'attendease-device-id'
+let fallbackDeviceId: string | null = null
+
+/**
+ * Stable per-browser id sent with check-ins so the server can spot one device
+ * checking in several roll numbers. Falls back to a per-page id when storage
+ * is unavailable (private mode, sandboxed iframes).
+ */
+export function getDeviceId(): string {
+  try {
+    let id = window.localStorage.getItem(DEVICE_ID_KEY)
+    if (!id) {
+      id = generateUUID()
+      window.localStorage.setItem(DEVICE_ID_KEY, id)
+    }
+    return id
+  } catch {
+    fallbackDeviceId = fallbackDeviceId ?? generateUUID()
+    return fallbackDeviceId
+  }
+}
+
+const TEACHER_NAME_KEY = 'attendease-teacher-name'
+
+/** Name the teacher last used when saving a register, so it is pre-filled next time. */
+export function getTeacherName(): string {
+  try {
+    return window.localStorage.getItem(TEACHER_NAME_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+export function setTeacherName(name: string): void {
+  try {
+    window.localStorage.setItem(TEACHER_NAME_KEY, name)
+  } catch {
+    // storage unavailable; the name just won't be remembered
+  }
+}
+
+const MY_SECTION_KEY = 'attendease-my-section'
+
+/** Section the class teacher on this browser looks after; empty for every section. */
+export function getMySection(): string {
+  try {
+    return window.localStorage.getItem(MY_SECTION_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+export function setMySection(section: string): void {
+  try {
+    window.localStorage.setItem(MY_SECTION_KEY, section)
+  } catch {
+    // storage unavailable; every section is shown next time
+  }
+}
+
+const DISPLAY_TOKENS_KEY = 'attendease-display-tokens'
+
+/** Display tokens of the rotating sessions created on this browser, by session id. */
+function readDisplayTokens(): Record<string, string> {
+  try {
+    return JSON.parse(window.localStorage.getItem(DISPLAY_TOKENS_KEY) ?? '{}') || {}
+  } catch {
+    return {}
+  }
+}
+
+function rememberDisplayToken(sessionId: string, token: string): void {
+  try {
+    window.localStorage.setItem(DISPLAY_TOKENS_KEY, JSON.stringify({ ...readDisplayTokens(), [sessionId]: token }))
+  } catch {
+    // storage unavailable; the live code cannot be shown after a reload
+  }
+}
+
+const AGENT_RETRY_KEY = 'attendease-agent-retry'
+
+/** Whether an agent response that contradicts itself is re-asked once. Off unless turned on. */
+export function getAgentRetryEnabled(): boolean {
+  try {
+    return window.localStorage.getItem(AGENT_RETRY_KEY) === 'on'
+  } catch {
+    return false
+  }
+}
+
+export function setAgentRetryEnabled(enabled: boolean): void {
+  try {
+    window.localStorage.setItem(AGENT_RETRY_KEY, enabled ? 'on' : 'off')
+  } catch {
+    // storage unavailable; the default applies next time
+  }
+}
+
+async function sendJson(url: string, method: 'POST' | 'PATCH' | 'DELETE', body: Record<string, unknown>) {
+  const res = await fetchWrapper(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  return res.json()
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+/** List all stored sessions, newest first. */
+export async function listSessions(): Promise<{ success: boolean; sessions: AttendanceSession[]; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/sessions')
+    const data = await res.json()
+    if (!data.success) return { success: false, sessions: [], error: data.error }
+    return { success: true, sessions: data.sessions || [] }
+  } catch (error) {
+    return { success: false, sessions: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Fetch one session, e.g. to follow its check-in count live. */
+export async function getSession(
+  id: string
+): Promise<{ success: boolean; session?: AttendanceSession; notFound?: boolean; error?: string }> {
+  try {
+    const res = await fetchWrapper(`/api/sessions?${buildQuery({ id })}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, notFound: res.status === 404, error: data.error }
+    return { success: true, session: data.session }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Create a session. The server assigns the id and check-in code; with
+ * `rotating` the displayed code changes every `rotationPeriod` seconds.
+ */
+export async function createSession(params: {
+  subject: string
+  /** Blank or omitted for every section */
+  section?: string
+  /** Omit to use the term covering `date` */
+  termId?: string
+  date: string
+  time: string
+  duration: number
+  rotating?: boolean
+  rotationPeriod?: number
+}): Promise<{ success: boolean; session?: AttendanceSession; warnings?: string[]; error?: string }> {
+  try {
+    const { rotationPeriod, ...rest } = params
+    const data = await sendJson('/api/sessions', 'POST', {
+      ...rest,
+      rotation_period: rotationPeriod,
+      starts_at: toStartsAt(params.date, params.time),
+    })
+    if (!data.success) return { success: false, error: data.error }
+    if (data.display_token) rememberDisplayToken(data.session.id, data.display_token)
+    return { success: true, session: data.session, warnings: data.warnings || [] }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Update the editable fields of a session. */
+export async function updateSession(
+  id: string,
+  patch: Partial<Pick<AttendanceSession, 'subject' | 'section' | 'date' | 'time' | 'duration'>>
+): Promise<{ success: boolean; session?: AttendanceSession; warnings?: string[]; error?: string }> {
+  try {
+    const body: Record<string, unknown> = { id, ...patch }
+    if (patch.date !== undefined && patch.time !== undefined) {
+      body.starts_at = toStartsAt(patch.date, patch.time)
+    }
+    const data = await sendJson('/api/sessions', 'PATCH', body)
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, session: data.session, warnings: data.warnings || [] }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Open now, close now, or cancel a session. */
+export async function setSessionState(
+  id: string,
+  action: SessionAction
+): Promise<{ success: boolean; session?: AttendanceSession; error?: string }> {
+  try {
+    const data = await sendJson('/api/sessions', 'PATCH', { id, action })
+    if (!data.success) return { success: false, session: data.session, error: data.error }
+    return { success: true, session: data.session }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * The code to display for a session now; rotating sessions also report when it
+ * rolls over. A rotating session's code is only served to the browser that created it.
+ */
+export async function getCurrentCode(id: string): Promise<{
+  success: boolean
+  code?: string
+  rotating?: boolean
+  period?: number
+  expires_at?: string
+  /** The session rotates and this browser did not create it */
+  forbidden?: boolean
+  /** The session no longer exists */
+  notFound?: boolean
+  error?: string
+}> {
+  try {
+    const token = readDisplayTokens()[id]
+    const res = await fetchWrapper(`/api/sessions/code?${buildQuery({ id })}`, {
+      headers: token ? { 'X-Display-Token': token } : {},
+    })
+    const data = await res.json()
+    if (!data.success) {
+      return { success: false, forbidden: res.status === 403, notFound: res.status === 404, error: data.error }
+    }
+    return { success: true, code: data.code, rotating: data.rotating, period: data.period, expires_at: data.expires_at }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Check-ins
+// ---------------------------------------------------------------------------
+
+/** List stored check-ins, newest first, optionally for one session or code. */
+export async function listCheckIns(params?: {
+  sessionId?: string
+  code?: string
+}): Promise<{ success: boolean; records: AttendanceRecord[]; error?: string }> {
+  try {
+    const qs = buildQuery({ sessionId: params?.sessionId, code: params?.code })
+    const res = await fetchWrapper(qs ? `/api/attendance?${qs}` : '/api/attendance')
+    const data = await res.json()
+    if (!data.success) return { success: false, records: [], error: data.error }
+    return { success: true, records: data.records || [] }
+  } catch (error) {
+    return { success: false, records: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Submit a student check-in. The server resolves the code to its session and
+ * takes the subject from it; `reason` explains a rejection. The device id is
+ * attached automatically.
+ */
+export async function submitCheckIn(params: {
+  code: string
+  name: string
+  rollNumber: string
+}): Promise<{ success: boolean; record?: AttendanceRecord; reason?: CheckInRejection; error?: string }> {
+  try {
+    const data = await sendJson('/api/attendance', 'POST', { ...params, deviceId: getDeviceId() })
+    if (!data.success) return { success: false, reason: data.reason, error: data.error }
+    return { success: true, record: data.record }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Save a teacher's register for a session. Each entry upserts that student's
+ * record with `markedBy` as the marker; `records` is the session's full list
+ * after the save.
+ */
+export async function saveRegister(params: {
+  sessionId: string
+  markedBy: string
+  entries: RegisterEntry[]
+}): Promise<{
+  success: boolean
+  created: number
+  updated: number
+  skipped: { rollNumber: string; error: string }[]
+  records: AttendanceRecord[]
+  error?: string
+}> {
+  try {
+    const data = await sendJson('/api/attendance', 'POST', { action: 'register', ...params })
+    if (!data.success) return { success: false, created: 0, updated: 0, skipped: [], records: [], error: data.error }
+    return {
+      success: true,
+      created: data.created ?? 0,
+      updated: data.updated ?? 0,
+      skipped: data.skipped || [],
+      records: data.records || [],
+    }
+  } catch (error) {
+    return {
+      success: false,
+      created: 0,
+      updated: 0,
+      skipped: [],
+      records: [],
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+/** Correct a record's status or move it to another session. `reason` is required and audited. */
+export async function updateRecord(
+  id: string,
+  changes: { status?: AttendanceStatus; sessionId?: string },
+  actor: string,
+  reason: string
+): Promise<{ success: boolean; record?: AttendanceRecord; error?: string }> {
+  try {
+    const data = await sendJson('/api/attendance', 'PATCH', { id, ...changes, actor, reason })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, record: data.record }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Delete a record. `reason` is required and audited. */
+export async function deleteRecord(
+  id: string,
+  actor: string,
+  reason: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const data = await sendJson('/api/attendance', 'DELETE', { id, actor, reason })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Audit log
+// ---------------------------------------------------------------------------
+
+/** Audit entries, newest first. `from` / `to` are ISO instants (to is exclusive). */
+export async function listAuditEntries(params?: {
+  rollNumber?: string
+  sessionId?: string
+  from?: string
+  to?: string
+}): Promise<{ success: boolean; entries: AuditEntry[]; error?: string }> {
+  try {
+    const qs = buildQuery({ rollNumber: params?.rollNumber, sessionId: params?.sessionId, from: params?.from, to: params?.to })
+    const res = await fetchWrapper(qs ? `/api/audit?${qs}` : '/api/audit')
+    const data = await res.json()
+    if (!data.success) return { success: false, entries: [], error: data.error }
+    return { success: true, entries: data.entries || [] }
+  } catch (error) {
+    return { success: false, entries: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Leave requests
+// ---------------------------------------------------------------------------
+
+/** Leave requests, newest first. */
+export async function listLeaveRequests(params?: {
+  status?: LeaveStatus
+  rollNumber?: string
+}): Promise<{ success: boolean; leaves: LeaveRequest[]; error?: string }> {
+  try {
+    const qs = buildQuery({ status: params?.status, rollNumber: params?.rollNumber })
+    const res = await fetchWrapper(qs ? `/api/leave?${qs}` : '/api/leave')
+    const data = await res.json()
+    if (!data.success) return { success: false, leaves: [], error: data.error }
+    return { success: true, leaves: data.leaves || [] }
+  } catch (error) {
+    return { success: false, leaves: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Submit a leave request. Attachments are asset ids returned by `uploadFiles`. */
+export async function submitLeaveRequest(input: {
+  rollNumber: string
+  from: string
+  to: string
+  subjects: string[]
+  reason: string
+  attachments?: LeaveAttachment[]
+}): Promise<{ success: boolean; leave?: LeaveRequest; error?: string }> {
+  try {
+    const data = await sendJson('/api/leave', 'POST', input)
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, leave: data.leave }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Approve or reject a pending request. Approving reports how many recorded
+ * absences were turned into excused.
+ */
+export async function reviewLeaveRequest(
+  id: string,
+  action: 'approve' | 'reject',
+  reviewedBy: string,
+  note?: string
+): Promise<{ success: boolean; leave?: LeaveRequest; excused?: number; error?: string }> {
+  try {
+    const data = await sendJson('/api/leave', 'PATCH', { id, action, reviewedBy, note })
+    if (!data.success) return { success: false, leave: data.leave, error: data.error }
+    return { success: true, leave: data.leave, excused: data.excused ?? 0 }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Roster
+// ---------------------------------------------------------------------------
+
+/** List students on the roster, ordered by roll number. */
+export async function listStudents(params?: {
+  section?: string
+  subject?: string
+}): Promise<{ success: boolean; students: Student[]; error?: string }> {
+  try {
+    const qs = buildQuery({ section: params?.section, subject: params?.subject })
+    const res = await fetchWrapper(qs ? `/api/students?${qs}` : '/api/students')
+    const data = await res.json()
+    if (!data.success) return { success: false, students: [], error: data.error }
+    return { success: true, students: data.students || [] }
+  } catch (error) {
+    return { success: false, students: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Add a student to the roster. */
+export async function createStudent(
+  params: Omit<Student, 'id' | 'created_at'>
+): Promise<{ success: boolean; student?: Student; error?: string }> {
+  try {
+    const data = await sendJson('/api/students', 'POST', params)
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, student: data.student }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Upsert a batch of students by roll number (used by the roster import). */
+export async function importStudents(
+  students: Omit<Student, 'id' | 'created_at'>[]
+): Promise<{
+  success: boolean
+  created: number
+  updated: number
+  skipped: { index: number; error: string }[]
+  error?: string
+}> {
+  try {
+    const data = await sendJson('/api/students', 'POST', { action: 'import', students })
+    if (!data.success) return { success: false, created: 0, updated: 0, skipped: [], error: data.error }
+    return { success: true, created: data.created ?? 0, updated: data.updated ?? 0, skipped: data.skipped || [] }
+  } catch (error) {
+    return { success: false, created: 0, updated: 0, skipped: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Update a student's details or subject enrolment. */
+export async function updateStudent(
+  id: string,
+  patch: Partial<Omit<Student, 'id' | 'created_at'>>
+): Promise<{ success: boolean; student?: Student; error?: string }> {
+  try {
+    const data = await sendJson('/api/students', 'PATCH', { id, ...patch })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, student: data.student }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Remove a student from the roster. */
+export async function deleteStudent(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const data = await sendJson('/api/students', 'DELETE', { id })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Subject catalog
+// ---------------------------------------------------------------------------
+
+/** The subject catalog, ordered by code. */
+export async function listSubjects(): Promise<{ success: boolean; subjects: Subject[]; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/subjects')
+    const data = await res.json()
+    if (!data.success) return { success: false, subjects: [], error: data.error }
+    return { success: true, subjects: data.subjects || [] }
+  } catch (error) {
+    return { success: false, subjects: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Add a subject to the catalog. */
+export async function createSubject(
+  params: Omit<Subject, 'id' | 'created_at'>
+): Promise<{ success: boolean; subject?: Subject; error?: string }> {
+  try {
+    const data = await sendJson('/api/subjects', 'POST', params)
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, subject: data.subject }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Update a subject's name, credits, faculty or colour (the code is fixed). */
+export async function updateSubject(
+  id: string,
+  patch: Partial<Omit<Subject, 'id' | 'code' | 'created_at'>>
+): Promise<{ success: boolean; subject?: Subject; error?: string }> {
+  try {
+    const data = await sendJson('/api/subjects', 'PATCH', { id, ...patch })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, subject: data.subject }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Remove a subject that no session or student uses. */
+export async function deleteSubject(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const data = await sendJson('/api/subjects', 'DELETE', { id })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Academic terms
+// ---------------------------------------------------------------------------
+
+/** Every term, earliest first, and the id of the term to open on (null without terms). */
+export async function listTerms(): Promise<{
+  success: boolean
+  terms: AcademicTerm[]
+  current: string | null
+  error?: string
+}> {
+  try {
+    const res = await fetchWrapper('/api/terms')
+    const data = await res.json()
+    if (!data.success) return { success: false, terms: [], current: null, error: data.error }
+    return { success: true, terms: data.terms || [], current: data.current ?? null }
+  } catch (error) {
+    return { success: false, terms: [], current: null, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Add a term; its dates may not overlap another term. */
+export async function createTerm(
+  params: Omit<AcademicTerm, 'id' | 'created_at'>
+): Promise<{ success: boolean; term?: AcademicTerm; error?: string }> {
+  try {
+    const data = await sendJson('/api/terms', 'POST', params)
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, term: data.term }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Rename a term or move its dates. Archived terms cannot be changed. */
+export async function updateTerm(
+  id: string,
+  patch: Partial<Omit<AcademicTerm, 'id' | 'created_at'>>
+): Promise<{ success: boolean; term?: AcademicTerm; error?: string }> {
+  try {
+    const data = await sendJson('/api/terms', 'PATCH', { id, ...patch })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, term: data.term }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Remove a term that has no sessions and is not archived. */
+export async function deleteTerm(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const data = await sendJson('/api/terms', 'DELETE', { id })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Institution calendar
+// ---------------------------------------------------------------------------
+
+/** Every holiday, exam week and cancelled day, earliest first. */
+export async function listCalendar(): Promise<{ success: boolean; entries: CalendarEntry[]; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/calendar')
+    const data = await res.json()
+    if (!data.success) return { success: false, entries: [], error: data.error }
+    return { success: true, entries: data.entries || [] }
+  } catch (error) {
+    return { success: false, entries: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Add a calendar entry; `to` defaults to `from` and `blocking` to the kind's default. */
+export async function createCalendarEntry(
+  params: Pick<CalendarEntry, 'kind' | 'label' | 'from'> & Partial<Pick<CalendarEntry, 'to' | 'blocking'>>
+): Promise<{ success: boolean; entry?: CalendarEntry; error?: string }> {
+  try {
+    const data = await sendJson('/api/calendar', 'POST', params)
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, entry: data.entry }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Remove a calendar entry. Sessions already created are not touched. */
+export async function deleteCalendarEntry(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const data = await sendJson('/api/calendar', 'DELETE', { id })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Agent checks
+// ---------------------------------------------------------------------------
+
+/** Record the outcome of comparing one agent response with recorded attendance. */
+export async function logAgentCheck(input: {
+  agentId: string
+  kind: AgentCheckKind
+  fieldsChecked: number
+  discrepancies: FieldDiscrepancy[]
+}): Promise<{ success: boolean; error?: string }> {
+  try {
+    const data = await sendJson('/api/agent-checks', 'POST', input)
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Discrepancy rates per agent, with daily counts for the last `days` days. */
+export async function getAgentCheckStats(params?: {
+  agentId?: string
+  days?: number
+}): Promise<{ success: boolean; stats: AgentCheckStats[]; error?: string }> {
+  try {
+    const qs = buildQuery({ agentId: params?.agentId, days: params?.days })
+    const res = await fetchWrapper(qs ? `/api/agent-checks?${qs}` : '/api/agent-checks')
+    const data = await res.json()
+    if (!data.success) return { success: false, stats: [], error: data.error }
+    return { success: true, stats: data.stats || [] }
+  } catch (error) {
+    return { success: false, stats: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+/** Policy, thresholds and severity bands from one request. */
+export async function getSettings(): Promise<{
+  success: boolean
+  policy?: AttendancePolicy
+  thresholds?: ThresholdSettings
+  severity?: SeverityRules
+  error?: string
+}> {
+  try {
+    const res = await fetchWrapper('/api/settings')
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, policy: data.policy, thresholds: data.thresholds, severity: data.severity }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Late grace period and percentage policy. */
+export async function getAttendancePolicy(): Promise<{ success: boolean; policy?: AttendancePolicy; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/settings')
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, policy: data.policy }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+export async function updateAttendancePolicy(
+  patch: Partial<AttendancePolicy>
+): Promise<{ success: boolean; policy?: AttendancePolicy; error?: string }> {
+  try {
+    const data = await sendJson('/api/settings', 'PATCH', { policy: patch })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, policy: data.policy }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** `subjects`, when given, replaces every per-subject override; `terms` replaces the overrides of each term it names. */
+export async function updateThresholdSettings(
+  patch: Partial<ThresholdSettings>
+): Promise<{ success: boolean; thresholds?: ThresholdSettings; error?: string }> {
+  try {
+    const data = await sendJson('/api/settings', 'PATCH', { thresholds: patch })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, thresholds: data.thresholds }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Severity bands and student status bands below the threshold. */
+export async function updateSeverityRules(
+  patch: Partial<SeverityRules>
+): Promise<{ success: boolean; severity?: SeverityRules; error?: string }> {
+  try {
+    const data = await sendJson('/api/settings', 'PATCH', { severity: patch })
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, severity: data.severity }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_ATTENDANCE_THRESHOLD,
+  DEFAULT_SEVERITY_RULES,
+  alertSeverity,
+  computeAttendanceReport,
+  mergeThresholdSettings,
+  studentStatus,
+  thresholdFor,
+  thresholdsForTerm,
+} from '@/lib/attendanceReports'
+import { DEFAULT_ATTENDANCE_POLICY } from '@/lib/attendanceStats'
+import type { AttendanceMark } from '@/lib/attendanceStats'
+import type { Student } from '@/lib/attendanceTypes'
+
+const threshold = DEFAULT_ATTENDANCE_THRESHOLD
+
+describe('alertSeverity', () => {
+  it('uses the default bands below a 75% threshold', () => {
+    expect(alertSeverity(74.9, threshold)).toBe('Warning')
+    expect(alertSeverity(70, threshold)).toBe('Warning')
+    expect(alertSeverity(69.9, threshold)).toBe('Critical')
+    expect(alertSeverity(65, threshold)).toBe('Critical')
+    expect(alertSeverity(64.9, threshold)).toBe('Severe')
+    expect(alertSeverity(0, threshold)).toBe('Severe')
+  })
+
+  it('follows custom bands and thresholds', () => {
+    const rules = { ...DEFAULT_SEVERITY_RULES, warningWithin: 2, criticalWithin: 4 }
+    expect(alertSeverity(78, 80, rules)).toBe('Warning')
+    expect(alertSeverity(77, 80, rules)).toBe('Critical')
+    expect(alertSeverity(75.9, 80, rules)).toBe('Severe')
+  })
+})
+
+describe('studentStatus', () => {
+  it('uses the default bands around a 75% threshold', () => {
+    expect(studentStatus(75, threshold)).toBe('Good Standing')
+    expect(studentStatus(74.9, threshold)).toBe('At Risk')
+    expect(studentStatus(60, threshold)).toBe('At Risk')
+    expect(studentStatus(59.9, threshold)).toBe('Critical')
+  })
+})
+
+describe('thresholdsForTerm', () => {
+  const settings = {
+    defaultThreshold: 75,
+    subjects: { JAVA: 80 },
+    terms: { t2: { defaultThreshold: 70, subjects: { DBMS: 85 } }, t3: { subjects: { JAVA: 90 } } },
+  }
+
+  it('lays a term\'s own values over the global ones', () => {
+    const t2 = thresholdsForTerm(settings, 't2')
+    expect(thresholdFor(t2, 'OS')).toBe(70)
+    expect(thresholdFor(t2, 'JAVA')).toBe(80)
+    expect(thresholdFor(t2, 'DBMS')).toBe(85)
+    const t3 = thresholdsForTerm(settings, 't3')
+    expect(thresholdFor(t3, 'OS')).toBe(75)
+    expect(thresholdFor(t3, 'JAVA')).toBe(90)
+  })
+
+  it('uses the global settings without a term or its overrides', () => {
+    expect(thresholdsForTerm(settings, null)).toEqual({ defaultThreshold: 75, subjects: { JAVA: 80 } })
+    expect(thresholdsForTerm(settings, 't1')).toEqual({ defaultThreshold: 75, subjects: { JAVA: 80 } })
+  })
+})
+
+describe('mergeThresholdSettings', () => {
+  it('replaces only the terms named and drops a term given no values', () => {
+    const settings = { defaultThreshold: 75, subjects: { JAVA: 80 }, terms: { t1: { defaultThreshold: 70 }, t2: { defaultThreshold: 65 } } }
+    const merged = mergeThresholdSettings(settings, { terms: { t1: { subjects: { dbms: 85 } }, t2: {} } })
+    expect(merged).toEqual({ defaultThreshold: 75, subjects: { JAVA: 80 }, terms: { t1: { subjects: { DBMS: 85 } } } })
+    expect(settings.terms.t2).toEqual({ defaultThreshold: 65 })
+  })
+})
+
+describe('computeAttendanceReport', () => {
+  const students: Student[] = [
+    { id: '1', rollNumber: '21A01', name: 'Asha', section: 'A', subjects: ['DBMS'] },
+    { id: '2', rollNumber: '21A02', name: 'Ravi', section: 'A', subjects: ['DBMS'] },
+    { id: '3', rollNumber: '21A03', name: 'Meena', section: 'A', subjects: ['DBMS'] },
+    { id: '4', rollNumber: '21B01', name: 'Kiran', section: 'B', subjects: ['DBMS'] },
+    { id: '5', rollNumber: '21B02', name: 'Divya', section: 'B', subjects: ['DBMS'] },
+  ]
+  const mark = (rollNumber: string, date: string, status: AttendanceMark['status']): AttendanceMark => {
+    const student = students.find(s => s.rollNumber === rollNumber)
+    return { sessionId: `${student.section}-${date}`, subject: 'DBMS', date, rollNumber, name: student.name, section: student.section, status }
+  }
+
+  it('counts heads on the latest class day, leaving excused students out', () => {
+    const marks = [
+      mark('21A01', '2026-03-02', 'absent'),
+      mark('21A02', '2026-03-02', 'present'),
+      mark('21A03', '2026-03-02', 'present'),
+      mark('21A01', '2026-03-03', 'present'),
+      mark('21A02', '2026-03-03', 'absent'),
+      mark('21A03', '2026-03-03', 'excused'),
+    ]
+    const report = computeAttendanceReport(marks, students.slice(0, 3), DEFAULT_ATTENDANCE_POLICY, 'DBMS')
+    expect(report).toMatchObject({
+      total_students: 2,
+      present_count: 1,
+      absent_count: 1,
+      attendance_percentage: 50,
+      absentee_list: ['Ravi (21A02)'],
+    })
+  })
+
+  it('takes each section\'s own latest day', () => {
+    const marks = [
+      mark('21A01', '2026-03-02', 'present'),
+      mark('21A02', '2026-03-02', 'present'),
+      mark('21A03', '2026-03-02', 'absent'),
+      mark('21B01', '2026-03-03', 'present'),
+      mark('21B02', '2026-03-03', 'present'),
+    ]
+    const report = computeAttendanceReport(marks, students, DEFAULT_ATTENDANCE_POLICY, 'DBMS')
+    expect(report).toMatchObject({
+      total_students: 5,
+      present_count: 4,
+      absent_count: 1,
+      attendance_percentage: 80,
+      absentee_list: ['Meena (21A03)'],
+    })
+  })
+
+  it('counts late students as absent when late does not count as attended', () => {
+    const marks = [mark('21A01', '2026-03-02', 'late'), mark('21A02', '2026-03-02', 'present')]
+    const policy = { ...DEFAULT_ATTENDANCE_POLICY, lateCountsAsPresent: false }
+    const report = computeAttendanceReport(marks, students, policy, 'DBMS')
+    expect(report.absentee_list).toEqual(['Asha (21A01)'])
+    expect(report.attendance_percentage).toBe(50)
+  })
+})
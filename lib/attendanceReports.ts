@@ -0,0 +1,351 @@
+/**
+ * Attendance Reports
+ *
+ * Pure builders for the report, student profile and alert shapes the agents
+ * return, computed from collected marks (see lib/attendanceStats). The UI
+ * shows these figures as-is; an agent response only contributes its narrative
+ * fields, merged in with `withNarrative`.
+ */
+
+import {
+  attendancePercentage,
+  attendedSessions,
+  countedSessions,
+  countStatuses,
+} from '@/lib/attendanceStats'
+import type { AttendanceMark } from '@/lib/attendanceStats'
+import { toLocalDate } from '@/lib/sessionTime'
+import type {
+  AlertItem,
+  AlertResponse,
+  AttendancePolicy,
+  AttendanceReport,
+  Student,
+  StudentProfile,
+  SeverityRules,
+  SubjectAttendance,
+  ThresholdSettings,
+} from '@/lib/attendanceTypes'
+
+/** Minimum attendance percentage before a student is flagged. */
+export const DEFAULT_ATTENDANCE_THRESHOLD = 75
+
+export const DEFAULT_THRESHOLD_SETTINGS: ThresholdSettings = {
+  defaultThreshold: DEFAULT_ATTENDANCE_THRESHOLD,
+  subjects: {},
+  terms: {},
+}
+
+/** Threshold for one subject: its override, or the default. */
+export function thresholdFor(settings: ThresholdSettings, subject: string): number {
+  return settings.subjects[subject.toUpperCase()] ?? settings.defaultThreshold
+}
+
+/**
+ * The settings that apply within one term: the term's default replaces the
+ * global default and its subject overrides are laid over the global ones.
+ * Without a term, or overrides for it, the global settings apply.
+ */
+export function thresholdsForTerm(settings: ThresholdSettings, termId: string | null | undefined): ThresholdSettings {
+  const own = termId ? settings.terms?.[termId] : undefined
+  return {
+    defaultThreshold: own?.defaultThreshold ?? settings.defaultThreshold,
+    subjects: { ...settings.subjects, ...own?.subjects },
+  }
+}
+
+/**
+ * `settings` with a partial update applied. `subjects`, when given, replaces
+ * every per-subject override; `terms` replaces the overrides of each term it
+ * names, and a term given no values loses its overrides. Subject codes are
+ * upper-cased.
+ */
+export function mergeThresholdSettings(settings: ThresholdSettings, patch: Partial<ThresholdSettings>): ThresholdSettings {
+  const upper = (subjects: Record<string, number>) =>
+    Object.fromEntries(Object.entries(subjects).map(([code, value]) => [code.trim().toUpperCase(), value]))
+  const terms = { ...settings.terms }
+  for (const [termId, own] of Object.entries(patch.terms ?? {})) {
+    const subjects = upper(own.subjects ?? {})
+    if (own.defaultThreshold === undefined && Object.keys(subjects).length === 0) {
+      delete terms[termId]
+    } else {
+      terms[termId] = own.defaultThreshold === undefined ? { subjects } : { defaultThreshold: own.defaultThreshold, subjects }
+    }
+  }
+  return {
+    defaultThreshold: patch.defaultThreshold ?? settings.defaultThreshold,
+    subjects: patch.subjects ? upper(patch.subjects) : { ...settings.subjects },
+    terms,
+  }
+}
+
+/** `subject` value of a report that covers every subject. */
+export const ALL_SUBJECTS = 'ALL'
+
+/** Section filter value that covers every section. */
+export const ALL_SECTIONS = 'ALL'
+
+/** Sections on the roster, in order. Students without a section are left out. */
+export function listSections(students: Student[]): string[] {
+  return Array.from(new Set(students.map(s => s.section).filter(Boolean))).sort()
+}
+
+/** Marks and roster entries for one section's students (everything with ALL_SECTIONS). */
+export function scopeToSection(
+  marks: AttendanceMark[],
+  students: Student[],
+  section: string
+): { marks: AttendanceMark[]; students: Student[] } {
+  if (section === ALL_SECTIONS) return { marks, students }
+  return {
+    marks: marks.filter(m => m.section === section),
+    students: students.filter(s => s.section === section),
+  }
+}
+
+/** Fields each agent is trusted to fill in; everything else is computed here. */
+export const REPORT_NARRATIVE_FIELDS = ['trend_summary', 'report_summary'] as const
+export const PROFILE_NARRATIVE_FIELDS = ['remarks'] as const
+export const ALERT_NARRATIVE_FIELDS = ['summary'] as const
+
+/** Overlay an agent's narrative fields onto computed figures. */
+export function withNarrative<T extends object, K extends keyof T>(
+  computed: T,
+  agent: Partial<T> | null | undefined,
+  fields: readonly K[]
+): T {
+  if (!agent) return computed
+  const merged = { ...computed }
+  for (const field of fields) {
+    const value = agent[field]
+    if (typeof value === 'string' && value.trim()) merged[field] = value as T[K]
+  }
+  return merged
+}
+
+/** Percentage or 0 when nothing counts yet — the agent schemas use plain numbers. */
+function percentageOrZero(marks: AttendanceMark[], policy: AttendancePolicy): number {
+  return attendancePercentage(countStatuses(marks), policy) ?? 0
+}
+
+function missedSessions(marks: AttendanceMark[], policy: AttendancePolicy): number {
+  const counts = countStatuses(marks)
+  return countedSessions(counts) - attendedSessions(counts, policy)
+}
+
+/** Alert severities, least urgent first. */
+export const ALERT_SEVERITIES = ['Warning', 'Critical', 'Severe'] as const
+
+export type AlertSeverity = typeof ALERT_SEVERITIES[number]
+
+/** Profile statuses, best first. `No Data` is for students with nothing counted yet. */
+export const STUDENT_STATUSES = ['Good Standing', 'At Risk', 'Critical', 'No Data'] as const
+
+export type StudentStatus = typeof STUDENT_STATUSES[number]
+
+export const DEFAULT_SEVERITY_RULES: SeverityRules = {
+  warningWithin: 5,
+  criticalWithin: 10,
+  atRiskWithin: 15,
+}
+
+/** Severity of an alert for a percentage below `threshold`. */
+export function alertSeverity(
+  percentage: number,
+  threshold: number,
+  rules: SeverityRules = DEFAULT_SEVERITY_RULES
+): AlertSeverity {
+  if (percentage >= threshold - rules.warningWithin) return 'Warning'
+  if (percentage >= threshold - rules.criticalWithin) return 'Critical'
+  return 'Severe'
+}
+
+/** Overall standing: at or above `threshold` is Good Standing, then At Risk, then Critical. */
+export function studentStatus(
+  percentage: number,
+  threshold: number,
+  rules: SeverityRules = DEFAULT_SEVERITY_RULES
+): Exclude<StudentStatus, 'No Data'> {
+  if (percentage >= threshold) return 'Good Standing'
+  if (percentage >= threshold - rules.atRiskWithin) return 'At Risk'
+  return 'Critical'
+}
+
+/**
+ * Subject report (or all subjects with ALL_SUBJECTS) for each section's most
+ * recent day with marks. Only students with a counted mark that day are in
+ * the headcount: one who attended any session is present, the rest are
+ * absent and named in the absentee list. Excused students and students
+ * without a class that day are left out, so present_count + absent_count =
+ * total_students and the percentage is present_count / total_students.
+ */
+export function computeAttendanceReport(
+  marks: AttendanceMark[],
+  students: Student[],
+  policy: AttendancePolicy,
+  subject: string = ALL_SUBJECTS
+): AttendanceReport {
+  const all = subject === ALL_SUBJECTS
+  const enrolled = all ? students : students.filter(s => s.subjects.includes(subject))
+  const sectionOf = new Map(enrolled.map(s => [s.rollNumber, s.section]))
+  const scoped = marks.filter(m => (all || m.subject === subject) && sectionOf.has(m.rollNumber))
+
+  const latestDay = new Map<string, string>()
+  for (const m of scoped) {
+    const section = sectionOf.get(m.rollNumber)
+    if (m.date > (latestDay.get(section) ?? '')) latestDay.set(section, m.date)
+  }
+  const byStudent = new Map<string, AttendanceMark[]>()
+  for (const m of scoped) {
+    if (m.date !== latestDay.get(sectionOf.get(m.rollNumber))) continue
+    byStudent.set(m.rollNumber, [...(byStudent.get(m.rollNumber) ?? []), m])
+  }
+
+  let present = 0
+  const absentees: string[] = []
+  byStudent.forEach((own, rollNumber) => {
+    const counts = countStatuses(own)
+    if (attendedSessions(counts, policy) > 0) present++
+    else if (countedSessions(counts) > 0) absentees.push(`${own[0].name} (${rollNumber})`)
+  })
+  const total = present + absentees.length
+
+  return {
+    subject,
+    total_students: total,
+    present_count: present,
+    absent_count: absentees.length,
+    attendance_percentage: total === 0 ? 0 : Math.round((present / total) * 1000) / 10,
+    absentee_list: absentees,
+  }
+}
+
+/** One student's overall and per-subject attendance for every subject they are enrolled in. */
+export function computeStudentProfile(
+  marks: AttendanceMark[],
+  student: Student,
+  policy: AttendancePolicy,
+  threshold: number = DEFAULT_ATTENDANCE_THRESHOLD,
+  rules: SeverityRules = DEFAULT_SEVERITY_RULES
+): StudentProfile {
+  const own = marks.filter(m => m.rollNumber === student.rollNumber)
+  const subjectWise: SubjectAttendance[] = student.subjects.map(subject => {
+    const counts = countStatuses(own.filter(m => m.subject === subject))
+    return {
+      subject,
+      classes_attended: attendedSessions(counts, policy),
+      total_classes: countedSessions(counts),
+      percentage: attendancePercentage(counts, policy) ?? 0,
+    }
+  })
+  const overall = percentageOrZero(own, policy)
+
+  return {
+    student_name: student.name,
+    roll_number: student.rollNumber,
+    overall_attendance_percentage: overall,
+    subject_wise_attendance: subjectWise,
+    status: countedSessions(countStatuses(own)) === 0 ? 'No Data' : studentStatus(overall, threshold, rules),
+  }
+}
+
+/**
+ * One alert per student and enrolled subject whose percentage is below that
+ * subject's threshold, lowest percentage first. Subjects with nothing counted
+ * yet are skipped rather than reported at 0%. `threshold_percentage` is the
+ * default threshold.
+ */
+export function computeAlerts(
+  marks: AttendanceMark[],
+  students: Student[],
+  policy: AttendancePolicy,
+  thresholds: ThresholdSettings = DEFAULT_THRESHOLD_SETTINGS,
+  rules: SeverityRules = DEFAULT_SEVERITY_RULES,
+  now: Date = new Date()
+): AlertResponse {
+  const alerts: AlertItem[] = []
+  for (const student of students) {
+    for (const subject of student.subjects) {
+      const subjectMarks = marks.filter(m => m.rollNumber === student.rollNumber && m.subject === subject)
+      const percentage = attendancePercentage(countStatuses(subjectMarks), policy)
+      const threshold = thresholdFor(thresholds, subject)
+      if (percentage === null || percentage >= threshold) continue
+      alerts.push({
+        student_name: student.name,
+        roll_number: student.rollNumber,
+        subject,
+        attendance_percentage: percentage,
+        classes_missed: missedSessions(subjectMarks, policy),
+        severity: alertSeverity(percentage, threshold, rules),
+      })
+    }
+  }
+  alerts.sort((a, b) => (a.attendance_percentage ?? 0) - (b.attendance_percentage ?? 0))
+
+  return {
+    alert_date: toLocalDate(now),
+    threshold_percentage: thresholds.defaultThreshold,
+    alerts,
+    total_alerts: alerts.length,
+  }
+}
+
+/** One section's figures for a subject (or ALL_SUBJECTS), for side-by-side comparison. */
+export interface SectionComparisonRow {
+  section: string
+  /** Headcounts on the section's most recent day with marks (see computeAttendanceReport) */
+  total_students: number
+  present_count: number
+  absent_count: number
+  /** Over every counted mark; null when nothing has been counted for the section yet */
+  attendance_percentage: number | null
+  /** Students with at least one alert in the compared subjects */
+  students_below_threshold: number
+}
+
+/** computeAttendanceReport and computeAlerts per section, in section order. */
+export function compareSections(
+  marks: AttendanceMark[],
+  students: Student[],
+  policy: AttendancePolicy,
+  subject: string = ALL_SUBJECTS,
+  thresholds: ThresholdSettings = DEFAULT_THRESHOLD_SETTINGS,
+  rules: SeverityRules = DEFAULT_SEVERITY_RULES
+): SectionComparisonRow[] {
+  return listSections(students).map(section => {
+    const scoped = scopeToSection(marks, students, section)
+    const report = computeAttendanceReport(scoped.marks, scoped.students, policy, subject)
+    const subjectMarks = subject === ALL_SUBJECTS ? scoped.marks : scoped.marks.filter(m => m.subject === subject)
+    const below = (computeAlerts(scoped.marks, scoped.students, policy, thresholds, rules).alerts ?? [])
+      .filter(a => subject === ALL_SUBJECTS || a.subject === subject)
+      .map(a => a.roll_number)
+    return {
+      section,
+      total_students: report.total_students ?? 0,
+      present_count: report.present_count ?? 0,
+      absent_count: report.absent_count ?? 0,
+      attendance_percentage: attendancePercentage(countStatuses(subjectMarks), policy),
+      students_below_threshold: new Set(below).size,
+    }
+  })
+}
+
+/**
+ * The roster entry a free-text profile query is about: an exact roll number
+ * token first, then a full or partial name match. Returns null when the query
+ * matches no student or more than one by name.
+ */
+export function findStudentForQuery(students: Student[], query: string): Student | null {
+  const tokens = query.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+  const byRoll = students.find(s => tokens.includes(s.rollNumber.toLowerCase()))
+  if (byRoll) return byRoll
+
+  const text = query.toLowerCase()
+  const byFullName = students.filter(s => text.includes(s.name.toLowerCase()))
+  if (byFullName.length === 1) return byFullName[0]
+
+  const byPartName = students.filter(s =>
+    s.name.toLowerCase().split(/\s+/).some(part => part.length > 2 && tokens.includes(part))
+  )
+  return byPartName.length === 1 ? byPartName[0] : null
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  attendancePercentage,
+  collectMarks,
+  countStatuses,
+} from '@/lib/attendanceStats'
+import type { AttendanceRecord, AttendanceSession, LeaveRequest, Student } from '@/lib/attendanceTypes'
+
+const LATE_NOT_COUNTED = { ...DEFAULT_ATTENDANCE_POLICY, lateCountsAsPresent: false }
+
+const session: AttendanceSession = {
+  id: 's1',
+  subject: 'DBMS',
+  code: 'ABC123',
+  date: '2026-03-02',
+  time: '09:00',
+  duration: 60,
+  attendees: [],
+  starts_at: '2026-03-02T09:00:00.000Z',
+}
+
+const students: Student[] = [
+  { id: '1', rollNumber: '21A01', name: 'Asha', section: 'A', subjects: ['DBMS'] },
+  { id: '2', rollNumber: '21A02', name: 'Ravi', section: 'A', subjects: ['DBMS'] },
+  { id: '3', rollNumber: '21A03', name: 'Meena', section: 'A', subjects: ['DBMS'] },
+  { id: '4', rollNumber: '21B01', name: 'Kiran', section: 'B', subjects: ['OS'] },
+]
+
+const records: AttendanceRecord[] = [
+  { id: 'r1', sessionId: 's1', name: 'Asha', rollNumber: '21A01', code: 'ABC123', subject: 'DBMS', timestamp: '2026-03-02T09:02:00.000Z' },
+]
+
+const afterClass = new Date('2026-03-02T12:00:00.000Z')
+
+describe('attendancePercentage', () => {
+  it('is null when nothing counts yet', () => {
+    expect(attendancePercentage(countStatuses([]), DEFAULT_ATTENDANCE_POLICY)).toBeNull()
+    expect(attendancePercentage(countStatuses([{ status: 'excused' }]), DEFAULT_ATTENDANCE_POLICY)).toBeNull()
+  })
+
+  it('rounds to one decimal', () => {
+    const counts = countStatuses([{ status: 'present' }, { status: 'present' }, { status: 'absent' }])
+    expect(attendancePercentage(counts, DEFAULT_ATTENDANCE_POLICY)).toBe(66.7)
+  })
+
+  it('leaves excused marks out of the total', () => {
+    const counts = countStatuses([{ status: 'present' }, { status: 'absent' }, { status: 'excused' }])
+    expect(attendancePercentage(counts, DEFAULT_ATTENDANCE_POLICY)).toBe(50)
+  })
+
+  it('counts late as attended only when the policy says so', () => {
+    const counts = countStatuses([{ status: 'present' }, { status: 'late' }, { status: 'absent' }, { status: 'absent' }])
+    expect(attendancePercentage(counts, DEFAULT_ATTENDANCE_POLICY)).toBe(50)
+    expect(attendancePercentage(counts, LATE_NOT_COUNTED)).toBe(25)
+  })
+})
+
+describe('collectMarks', () => {
+  it('marks expected students without a record absent once the session closes', () => {
+    const marks = collectMarks([session], records, students, [], afterClass)
+    expect(marks.map(m => [m.rollNumber, m.status])).toEqual([
+      ['21A01', 'present'],
+      ['21A02', 'absent'],
+      ['21A03', 'absent'],
+    ])
+  })
+
+  it('only keeps recorded marks while the session is open', () => {
+    const marks = collectMarks([session], records, students, [], new Date('2026-03-02T09:30:00.000Z'))
+    expect(marks.map(m => m.rollNumber)).toEqual(['21A01'])
+  })
+
+  it('excuses absences covered by approved leave', () => {
+    const leave: LeaveRequest = {
+      id: 'l1',
+      rollNumber: '21A02',
+      name: 'Ravi',
+      from: '2026-03-01',
+      to: '2026-03-03',
+      subjects: ['DBMS'],
+      reason: 'Medical',
+      attachments: [],
+      status: 'approved',
+      submitted_at: '2026-02-28T10:00:00.000Z',
+    }
+    const marks = collectMarks([session], records, students, [leave], afterClass)
+    expect(marks.find(m => m.rollNumber === '21A02')?.status).toBe('excused')
+    expect(marks.find(m => m.rollNumber === '21A03')?.status).toBe('absent')
+  })
+
+  it('skips cancelled sessions', () => {
+    const cancelled = { ...session, cancelled_at: '2026-03-01T08:00:00.000Z' }
+    expect(collectMarks([cancelled], records, students, [], afterClass)).toEqual([])
+  })
+})
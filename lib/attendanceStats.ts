@@ -0,0 +1,148 @@
+/**
+ * Attendance Stats
+ *
+ * Pure helpers that turn stored sessions, records and the roster into status
+ * counts and percentages. Shared by the API routes and the UI.
+ *
+ * A student enrolled in a subject who has no record for a closed session of
+ * that subject (held for their section, or for every section) is counted as
+ * absent, unless approved leave covers that day and
+ * subject, in which case the absence is excused. Excused marks never count
+ * towards a percentage; whether late does is set by the AttendancePolicy.
+ */
+
+import { getSessionStatus } from '@/lib/sessionTime'
+import type {
+  AttendancePolicy,
+  AttendanceRecord,
+  AttendanceSession,
+  AttendanceStatus,
+  LeaveRequest,
+  Student,
+} from '@/lib/attendanceTypes'
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  lateGraceMinutes: 10,
+  lateCountsAsPresent: true,
+}
+
+export type StatusCounts = Record<AttendanceStatus, number>
+
+/** One student's mark in one session, after filling in implicit absences. */
+export interface AttendanceMark {
+  sessionId: string
+  subject: string
+  date: string
+  rollNumber: string
+  name: string
+  /** The student's roster section; empty when they are no longer on the roster */
+  section: string
+  status: AttendanceStatus
+}
+
+export function recordStatus(record: Pick<AttendanceRecord, 'status'>): AttendanceStatus {
+  return record.status ?? 'present'
+}
+
+export function emptyCounts(): StatusCounts {
+  return { present: 0, late: 0, absent: 0, excused: 0 }
+}
+
+/** Whether an approved leave request excuses `rollNumber` from a session of `subject` on `date`. */
+export function isOnLeave(
+  leaves: LeaveRequest[],
+  rollNumber: string,
+  subject: string,
+  date: string
+): boolean {
+  return leaves.some(
+    leave =>
+      leave.status === 'approved' &&
+      leave.rollNumber === rollNumber &&
+      leave.subjects.includes(subject) &&
+      leave.from <= date &&
+      date <= leave.to
+  )
+}
+
+/** Whether `student` is expected at `session`: enrolled in its subject and, for a section's session, in that section. */
+export function isExpectedAt(student: Student, session: Pick<AttendanceSession, 'subject' | 'section'>): boolean {
+  return student.subjects.includes(session.subject) && (!session.section || student.section === session.section)
+}
+
+/**
+ * Every student's mark for every session that has started. Open sessions only
+ * contribute the marks recorded so far; closed ones also mark expected
+ * students (see isExpectedAt) without a record as absent. Absences covered by approved leave
+ * become excused. Cancelled sessions are skipped.
+ */
+export function collectMarks(
+  sessions: AttendanceSession[],
+  records: AttendanceRecord[],
+  students: Student[],
+  leaves: LeaveRequest[] = [],
+  now: Date = new Date()
+): AttendanceMark[] {
+  const marks: AttendanceMark[] = []
+  const sections = new Map(students.map(s => [s.rollNumber, s.section]))
+  const excuse = (rollNumber: string, session: AttendanceSession, status: AttendanceStatus): AttendanceStatus =>
+    status === 'absent' && isOnLeave(leaves, rollNumber, session.subject, session.date) ? 'excused' : status
+
+  for (const session of sessions) {
+    const status = getSessionStatus(session, now)
+    if (status === 'scheduled' || status === 'cancelled') continue
+
+    const sessionRecords = records.filter(r => r.sessionId === session.id)
+    const recorded = new Set<string>()
+    for (const record of sessionRecords) {
+      recorded.add(record.rollNumber)
+      marks.push({
+        sessionId: session.id,
+        subject: session.subject,
+        date: session.date,
+        rollNumber: record.rollNumber,
+        name: record.name,
+        section: sections.get(record.rollNumber) ?? '',
+        status: excuse(record.rollNumber, session, recordStatus(record)),
+      })
+    }
+
+    if (status !== 'closed') continue
+    for (const student of students) {
+      if (recorded.has(student.rollNumber) || !isExpectedAt(student, session)) continue
+      marks.push({
+        sessionId: session.id,
+        subject: session.subject,
+        date: session.date,
+        rollNumber: student.rollNumber,
+        name: student.name,
+        section: student.section,
+        status: excuse(student.rollNumber, session, 'absent'),
+      })
+    }
+  }
+  return marks
+}
+
+export function countStatuses(marks: Pick<AttendanceMark, 'status'>[]): StatusCounts {
+  const counts = emptyCounts()
+  for (const mark of marks) counts[mark.status]++
+  return counts
+}
+
+/** Sessions that count towards a percentage (excused never do). */
+export function countedSessions(counts: StatusCounts): number {
+  return counts.present + counts.late + counts.absent
+}
+
+/** Sessions counted as attended under `policy`. */
+export function attendedSessions(counts: StatusCounts, policy: AttendancePolicy): number {
+  return counts.present + (policy.lateCountsAsPresent ? counts.late : 0)
+}
+
+/** Attendance percentage rounded to one decimal, or null when nothing counts yet. */
+export function attendancePercentage(counts: StatusCounts, policy: AttendancePolicy): number | null {
+  const total = countedSessions(counts)
+  if (total === 0) return null
+  return Math.round((attendedSessions(counts, policy) / total) * 1000) / 10
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryAdapter } from '@/lib/attendanceStore'
+
+interface Item {
+  id: string
+  name: string
+  tags: string[]
+}
+
+describe('createMemoryAdapter', () => {
+  it('stores, updates and removes items', async () => {
+    const storage = createMemoryAdapter()
+    await storage.insert<Item>('students', { id: 'a', name: 'Asha', tags: [] })
+    await storage.insert<Item>('students', { id: 'b', name: 'Ravi', tags: [] })
+    expect(await storage.update<Item>('students', 'b', { name: 'Ravi K' })).toEqual({ id: 'b', name: 'Ravi K', tags: [] })
+    expect(await storage.update<Item>('students', 'missing', { name: 'x' })).toBeNull()
+    expect(await storage.remove('students', 'a')).toBe(true)
+    expect(await storage.remove('students', 'a')).toBe(false)
+    expect(await storage.list<Item>('students')).toEqual([{ id: 'b', name: 'Ravi K', tags: [] }])
+  })
+
+  it('hands out copies, so callers cannot change stored items', async () => {
+    const storage = createMemoryAdapter()
+    const item: Item = { id: 'a', name: 'Asha', tags: ['x'] }
+    const inserted = await storage.insert<Item>('students', item)
+    item.tags.push('changed')
+    inserted.name = 'changed'
+
+    const listed = await storage.list<Item>('students')
+    listed[0].tags.push('changed')
+    listed.reverse().push({ id: 'z', name: 'Zed', tags: [] })
+    const got = await storage.get<Item>('students', 'a')
+    got.name = 'changed'
+    const modified = await storage.modify<Item>('students', 'a', current => {
+      current.tags.push('y')
+      return current
+    })
+    modified.tags.push('changed')
+
+    expect(await storage.list<Item>('students')).toEqual([{ id: 'a', name: 'Asha', tags: ['x', 'y'] }])
+  })
+
+  it('queues concurrent modifications of the same item', async () => {
+    const storage = createMemoryAdapter()
+    await storage.insert('settings', { id: 'counter', value: 0 })
+    await Promise.all(
+      Array.from({ length: 10 }, () => storage.modify<{ id: string; value: number }>('settings', 'counter', c => ({ ...c, value: c.value + 1 })))
+    )
+    expect(await storage.get('settings', 'counter')).toEqual({ id: 'counter', value: 10 })
+  })
+})
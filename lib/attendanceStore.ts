@@ -0,0 +1,177 @@
+/**
+ * Attendance Storage
+ *
+ * Server-side persistence for the attendance API routes. Every collection is a
+ * flat list of items keyed by `id`, stored through a pluggable adapter:
+ *
+ *   - ATTENDANCE_STORAGE=file   (default) JSON files under ATTENDANCE_DATA_DIR
+ *   - ATTENDANCE_STORAGE=memory process memory, lost on restart
+ *
+ * NEVER import this module from client components — it uses the filesystem.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CollectionName =
+  | 'sessions'
+  | 'records'
+  | 'students'
+  | 'subjects'
+  | 'terms'
+  | 'calendar'
+  | 'settings'
+  | 'audit'
+  | 'leaves'
+  | 'agent_checks'
+
+export interface StoredItem {
+  id: string
+}
+
+export interface StorageAdapter {
+  list<T extends StoredItem>(collection: CollectionName): Promise<T[]>
+  get<T extends StoredItem>(collection: CollectionName, id: string): Promise<T | null>
+  insert<T extends StoredItem>(collection: CollectionName, item: T): Promise<T>
+  update<T extends StoredItem>(collection: CollectionName, id: string, patch: Partial<T>): Promise<T | null>
+  /** Atomically replace an item with `fn(item)`; returns null if the id is unknown. */
+  modify<T extends StoredItem>(collection: CollectionName, id: string, fn: (item: T) => T): Promise<T | null>
+  remove(collection: CollectionName, id: string): Promise<boolean>
+}
+
+// ---------------------------------------------------------------------------
+// Adapters
+// ---------------------------------------------------------------------------
+
+/**
+ * Build an adapter from a pair of load/save functions. Mutations are queued so
+ * concurrent requests never interleave a read-modify-write of the same list.
+ * Items go in and come out as copies, so callers can change what they are
+ * given without touching stored state.
+ */
+function createCollectionAdapter(
+  load: (collection: CollectionName) => Promise<StoredItem[]>,
+  save: (collection: CollectionName, items: StoredItem[]) => Promise<void>
+): StorageAdapter {
+  let queue: Promise<unknown> = Promise.resolve()
+  const copy = <T>(value: T): T => structuredClone(value)
+
+  const mutate = <R>(collection: CollectionName, fn: (items: StoredItem[]) => { items: StoredItem[]; result: R }) => {
+    const run = queue.then(async () => {
+      const { items, result } = fn(await load(collection))
+      await save(collection, items)
+      return result
+    })
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  const modify = <T extends StoredItem>(collection: CollectionName, id: string, fn: (item: T) => T) =>
+    mutate(collection, items => {
+      let updated: T | null = null
+      const next = items.map(item => {
+        if (item.id !== id) return item
+        updated = { ...fn(copy(item) as T), id }
+        return copy(updated)
+      })
+      return { items: next, result: updated as T | null }
+    })
+
+  return {
+    async list<T extends StoredItem>(collection: CollectionName) {
+      await queue
+      return copy(await load(collection)) as T[]
+    },
+
+    async get<T extends StoredItem>(collection: CollectionName, id: string) {
+      await queue
+      const items = await load(collection)
+      const item = items.find(item => item.id === id) as T | undefined
+      return item ? copy(item) : null
+    },
+
+    insert<T extends StoredItem>(collection: CollectionName, item: T) {
+      return mutate(collection, items => ({ items: [...items, copy(item)], result: item }))
+    },
+
+    update<T extends StoredItem>(collection: CollectionName, id: string, patch: Partial<T>) {
+      return modify<T>(collection, id, item => ({ ...item, ...patch, id }))
+    },
+
+    modify,
+
+    remove(collection: CollectionName, id: string) {
+      return mutate(collection, items => {
+        const next = items.filter(item => item.id !== id)
+        return { items: next, result: next.length !== items.length }
+      })
+    },
+  }
+}
+
+/** Keep everything in process memory. Useful for local demos and tests. */
+export function createMemoryAdapter(): StorageAdapter {
+  const data = new Map<CollectionName, StoredItem[]>()
+  return createCollectionAdapter(
+    async collection => data.get(collection) ?? [],
+    async (collection, items) => {
+      data.set(collection, items)
+    }
+  )
+}
+
+/** Persist each collection as `<dir>/<collection>.json`. */
+export function createFileAdapter(dir: string): StorageAdapter {
+  const cache = new Map<CollectionName, StoredItem[]>()
+  const fileFor = (collection: CollectionName) => path.join(dir, `${collection}.json`)
+
+  return createCollectionAdapter(
+    async collection => {
+      const cached = cache.get(collection)
+      if (cached) return cached
+      try {
+        const raw = await fs.readFile(fileFor(collection), 'utf8')
+        const parsed = JSON.parse(raw)
+        const items = Array.isArray(parsed) ? (parsed as StoredItem[]) : []
+        cache.set(collection, items)
+        return items
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return []
+        throw error
+      }
+    },
+    async (collection, items) => {
+      await fs.mkdir(dir, { recursive: true })
+      const file = fileFor(collection)
+      const tmp = `${file}.${process.pid}.tmp`
+      await fs.writeFile(tmp, JSON.stringify(items, null, 2), 'utf8')
+      await fs.rename(tmp, file)
+      cache.set(collection, items)
+    }
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+const globalForStorage = globalThis as unknown as { __attendanceStorage?: StorageAdapter }
+
+/**
+ * Shared adapter for all API routes. Cached on globalThis so dev-mode module
+ * reloads do not drop the in-memory store.
+ */
+export function getStorage(): StorageAdapter {
+  if (!globalForStorage.__attendanceStorage) {
+    const kind = (process.env.ATTENDANCE_STORAGE || 'file').toLowerCase()
+    globalForStorage.__attendanceStorage =
+      kind === 'memory'
+        ? createMemoryAdapter()
+        : createFileAdapter(process.env.ATTENDANCE_DATA_DIR || path.join(process.cwd(), '.data'))
+  }
+  return globalForStorage.__attendanceStorage
+}
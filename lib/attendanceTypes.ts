@@ -0,0 +1,320 @@
+/**
+ * Attendance Types
+ *
+ * Shapes shared by the attendance API routes, the storage layer and the UI.
+ */
+
+/** Lifecycle of a session, derived from its schedule and any manual actions. */
+export type SessionStatus = 'scheduled' | 'open' | 'closed' | 'cancelled'
+
+/** Manual lifecycle actions a teacher can take on a session. */
+export type SessionAction = 'open' | 'close' | 'cancel'
+
+/**
+ * Rotating-code settings. The `secret` and `display_token` are stripped from
+ * every API response; the token is handed out once, when the session is created.
+ */
+export interface SessionRotation {
+  /** Seconds each code stays on screen */
+  period: number
+  secret?: string
+  /** Required to read the live code from /api/sessions/code */
+  display_token?: string
+}
+
+/** One device that checked in more than one roll number for a session. */
+export interface ProxyFlag {
+  deviceId: string
+  rollNumbers: string[]
+  flagged_at: string
+}
+
+export interface AttendanceSession {
+  id: string
+  subject: string
+  code: string
+  date: string
+  time: string
+  duration: number
+  attendees: string[]
+  /** Roster section the session is held for; absent when it is for every section */
+  section?: string
+  /** Academic term the session belongs to; older sessions are matched to a term by `date` */
+  termId?: string
+  /** ISO instant of `date` + `time` in the creator's timezone */
+  starts_at?: string
+  /** Present when the session uses rotating codes instead of `code` */
+  rotation?: SessionRotation
+  /** Set by "Open now" */
+  opened_at?: string
+  /** Set by "Close now" */
+  closed_at?: string
+  /** Set by "Cancel" */
+  cancelled_at?: string
+  /** Devices suspected of proxy check-ins */
+  proxy_flags?: ProxyFlag[]
+  created_at?: string
+}
+
+/** Attendance mark for one student in one session. Records without a status are `present`. */
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'excused'
+
+export interface AttendanceRecord {
+  id: string
+  sessionId?: string
+  name: string
+  rollNumber: string
+  code: string
+  subject: string
+  timestamp: string
+  status?: AttendanceStatus
+  /** `self` for student check-ins, `register` when a teacher marked it */
+  source?: 'self' | 'register'
+  /** Teacher who last set the status from the register */
+  markedBy?: string
+  /** Browser-generated id of the device that submitted the check-in */
+  deviceId?: string
+}
+
+/** One row of a register save. */
+export interface RegisterEntry {
+  rollNumber: string
+  status: AttendanceStatus
+}
+
+export interface Student {
+  id: string
+  rollNumber: string
+  name: string
+  section: string
+  /** Subject codes the student is enrolled in */
+  subjects: string[]
+  created_at?: string
+}
+
+/** One entry in the subject catalog. */
+export interface Subject {
+  id: string
+  /** Upper-case code used by sessions, records and enrolments, e.g. "DBMS". Fixed once created. */
+  code: string
+  name: string
+  credits: number
+  faculty: string
+  /** Key of SUBJECT_COLORS (lib/subjectCatalog) */
+  color: string
+  created_at?: string
+}
+
+/** A semester or other teaching period. Terms never overlap. */
+export interface AcademicTerm {
+  id: string
+  name: string
+  /** First and last teaching day ("YYYY-MM-DD"), inclusive */
+  start: string
+  end: string
+  created_at?: string
+}
+
+/** Where a term stands against today. Archived terms are read-only. */
+export type TermStatus = 'upcoming' | 'current' | 'archived'
+
+/** Kinds of non-instructional day on the institution calendar. */
+export type CalendarDayKind = 'holiday' | 'exam' | 'cancelled'
+
+/** A holiday, exam week or cancelled day (or run of days) on the institution calendar. */
+export interface CalendarEntry {
+  id: string
+  kind: CalendarDayKind
+  label: string
+  /** First and last day ("YYYY-MM-DD"), inclusive */
+  from: string
+  to: string
+  /** Blocking days refuse new sessions; the rest only warn */
+  blocking: boolean
+  created_at?: string
+}
+
+/** Why the server turned a check-in away. */
+export type CheckInRejection =
+  | 'unknown_code'
+  | 'expired_code'
+  | 'not_started'
+  | 'ended'
+  | 'cancelled'
+  | 'unknown_student'
+  | 'not_enrolled'
+  | 'wrong_section'
+  | 'already_checked_in'
+
+/** How check-ins are classified and how percentages are counted. */
+export interface AttendancePolicy {
+  /** Check-ins more than this many minutes after the session opens are `late` */
+  lateGraceMinutes: number
+  /** Whether `late` counts towards attendance percentages like `present` */
+  lateCountsAsPresent: boolean
+}
+
+/** Minimum attendance percentages before a student is flagged. */
+export interface ThresholdSettings {
+  /** Applies to every subject without an override */
+  defaultThreshold: number
+  /** Per-subject overrides, keyed by subject code */
+  subjects: Record<string, number>
+  /** Per-term overrides, keyed by term id (see thresholdsForTerm) */
+  terms?: Record<string, TermThresholds>
+}
+
+/** One term's own thresholds; anything left out falls back to the global settings. */
+export interface TermThresholds {
+  defaultThreshold?: number
+  subjects?: Record<string, number>
+}
+
+/**
+ * Bands below a student's threshold, in percentage points. With a 75%
+ * threshold, `{ warningWithin: 5, criticalWithin: 10 }` makes 70–75% a
+ * Warning, 65–70% Critical and anything lower Severe.
+ */
+export interface SeverityRules {
+  /** Alerts at most this far below the threshold are Warnings */
+  warningWithin: number
+  /** Alerts at most this far below (and past the Warning band) are Critical; lower is Severe */
+  criticalWithin: number
+  /** Students at most this far below the threshold overall are At Risk; lower is Critical */
+  atRiskWithin: number
+}
+
+/** What changed an attendance record. */
+export type AuditAction = 'update' | 'delete' | 'register' | 'check_in' | 'leave'
+
+/** Record fields captured before and after a change. */
+export type AuditSnapshot = Pick<AttendanceRecord, 'sessionId' | 'subject' | 'code' | 'status' | 'markedBy'>
+
+/** One entry in the append-only audit log. */
+export interface AuditEntry {
+  id: string
+  at: string
+  /** Teacher (or student, for check-ins) who made the change */
+  actor: string
+  action: AuditAction
+  recordId: string
+  rollNumber: string
+  name: string
+  /** Session before the change, falling back to the session after it */
+  sessionId?: string
+  before: AuditSnapshot | null
+  after: AuditSnapshot | null
+  reason: string
+}
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected'
+
+/** A supporting document uploaded through /api/upload. */
+export interface LeaveAttachment {
+  asset_id: string
+  file_name: string
+}
+
+/** A student's request to have absences in a date range excused. */
+export interface LeaveRequest {
+  id: string
+  rollNumber: string
+  name: string
+  /** First and last day of leave ("YYYY-MM-DD"), inclusive */
+  from: string
+  to: string
+  /** Subject codes the leave covers */
+  subjects: string[]
+  reason: string
+  attachments: LeaveAttachment[]
+  status: LeaveStatus
+  submitted_at: string
+  /** Teacher who approved or rejected the request */
+  reviewedBy?: string
+  reviewed_at?: string
+  reviewNote?: string
+}
+
+// ---------------------------------------------------------------------------
+// Agent response shapes (see response_schemas/). Responses are validated at
+// runtime against those files by lib/agentResponses. The figures are computed
+// locally by lib/attendanceReports; agents only add the narrative fields.
+// ---------------------------------------------------------------------------
+
+export interface AttendanceReport {
+  subject?: string
+  total_students?: number
+  present_count?: number
+  absent_count?: number
+  attendance_percentage?: number
+  trend_summary?: string
+  absentee_list?: string[]
+  report_summary?: string
+}
+
+export interface SubjectAttendance {
+  subject?: string
+  classes_attended?: number
+  total_classes?: number
+  percentage?: number
+}
+
+export interface StudentProfile {
+  student_name?: string
+  roll_number?: string
+  overall_attendance_percentage?: number
+  subject_wise_attendance?: SubjectAttendance[]
+  status?: string
+  remarks?: string
+}
+
+export interface AlertItem {
+  student_name?: string
+  roll_number?: string
+  subject?: string
+  attendance_percentage?: number
+  classes_missed?: number
+  severity?: string
+}
+
+export interface AlertResponse {
+  alert_date?: string
+  threshold_percentage?: number
+  alerts?: AlertItem[]
+  total_alerts?: number
+  summary?: string
+}
+
+/** Which agent response a guard check covered. */
+export type AgentCheckKind = 'report' | 'profile' | 'alert'
+
+/** A field where the agent's figure disagreed with recorded attendance. */
+export interface FieldDiscrepancy {
+  /** Dotted path, e.g. `subject_wise_attendance.DBMS.percentage` */
+  field: string
+  agent: unknown
+  expected: unknown
+}
+
+/** One comparison of an agent response against locally computed figures. */
+export interface AgentCheck {
+  id: string
+  agentId: string
+  kind: AgentCheckKind
+  at: string
+  /** Number of fields compared */
+  fieldsChecked: number
+  discrepancies: FieldDiscrepancy[]
+}
+
+/** Discrepancy totals for one agent, overall and per day (UTC). */
+export interface AgentCheckStats {
+  agentId: string
+  kind: AgentCheckKind
+  checks: number
+  /** Checks with at least one discrepancy */
+  flagged: number
+  fieldsChecked: number
+  fieldsMismatched: number
+  daily: { date: string; checks: number; flagged: number }[]
+}
@@ -0,0 +1,46 @@
+/**
+ * Audit Log
+ *
+ * Append-only history of changes to attendance records. Entries are only ever
+ * inserted — there is no update or delete path for the `audit` collection.
+ *
+ * NEVER import this module from client components — it uses the filesystem.
+ */
+
+import { getStorage } from '@/lib/attendanceStore'
+import { generateUUID } from '@/lib/utils'
+import type { AttendanceRecord, AuditAction, AuditEntry, AuditSnapshot } from '@/lib/attendanceTypes'
+
+export function snapshotRecord(record: AttendanceRecord | null | undefined): AuditSnapshot | null {
+  if (!record) return null
+  return {
+    sessionId: record.sessionId,
+    subject: record.subject,
+    code: record.code,
+    status: record.status ?? 'present',
+    markedBy: record.markedBy,
+  }
+}
+
+export async function appendAudit(params: {
+  actor: string
+  action: AuditAction
+  before: AttendanceRecord | null
+  after: AttendanceRecord | null
+  reason: string
+}): Promise<AuditEntry> {
+  const record = (params.after ?? params.before) as AttendanceRecord
+  return getStorage().insert<AuditEntry>('audit', {
+    id: generateUUID(),
+    at: new Date().toISOString(),
+    actor: params.actor,
+    action: params.action,
+    recordId: record.id,
+    rollNumber: record.rollNumber,
+    name: record.name,
+    sessionId: params.before?.sessionId ?? params.after?.sessionId,
+    before: snapshotRecord(params.before),
+    after: snapshotRecord(params.after),
+    reason: params.reason,
+  })
+}
@@ -11,6 +11,11 @@ const fetchWrapper = async (...args) => {
     if (response.status == 404) {
       const contentType = response.headers.get("content-type") || "";
 
+      // a JSON 404 is an API answer (unknown id), not a missing endpoint
+      if (contentType.includes("application/json")) {
+        return response;
+      }
+
       if (contentType.includes("text/html")) {
         const html = await response.text();
 
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { addDays, recurringDates } from '@/lib/institutionCalendar'
+import type { CalendarEntry } from '@/lib/attendanceTypes'
+
+const entry = (fields: Pick<CalendarEntry, 'kind' | 'from' | 'to' | 'blocking'>): CalendarEntry => ({
+  id: `${fields.kind}-${fields.from}`,
+  label: fields.kind,
+  ...fields,
+})
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2026-01-29', 7)).toBe('2026-02-05')
+    expect(addDays('2026-12-29', 7)).toBe('2027-01-05')
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28')
+  })
+
+  it('handles leap days', () => {
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29')
+  })
+})
+
+describe('recurringDates', () => {
+  it('repeats weekly through the last date inclusive', () => {
+    expect(recurringDates('2026-03-02', '2026-03-23', []).dates).toEqual([
+      '2026-03-02',
+      '2026-03-09',
+      '2026-03-16',
+      '2026-03-23',
+    ])
+  })
+
+  it('skips every flagged day, blocking or not', () => {
+    const holiday = entry({ kind: 'holiday', from: '2026-03-09', to: '2026-03-09', blocking: true })
+    const exams = entry({ kind: 'exam', from: '2026-03-14', to: '2026-03-20', blocking: false })
+    const { dates, skipped } = recurringDates('2026-03-02', '2026-03-23', [holiday, exams])
+    expect(dates).toEqual(['2026-03-02', '2026-03-23'])
+    expect(skipped).toEqual([
+      { date: '2026-03-09', entry: holiday },
+      { date: '2026-03-16', entry: exams },
+    ])
+  })
+
+  it('returns nothing for malformed or reversed ranges', () => {
+    expect(recurringDates('2026-3-2', '2026-03-23', []).dates).toEqual([])
+    expect(recurringDates('2026-03-23', '2026-03-02', []).dates).toEqual([])
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Institution Calendar
+ *
+ * Pure helpers for holidays, exam weeks and cancelled days: which entries
+ * fall on a date, whether a date refuses new sessions, and which dates a
+ * weekly recurrence lands on once those days are left out. Shared by the
+ * API routes and the UI.
+ *
+ * Blocking entries refuse new sessions; the rest only warn. Recurring
+ * sessions skip every flagged day, blocking or not.
+ */
+
+import type { CalendarDayKind, CalendarEntry } from '@/lib/attendanceTypes'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const CALENDAR_DAY_KINDS: CalendarDayKind[] = ['holiday', 'exam', 'cancelled']
+
+/** Whether a new entry of each kind blocks sessions unless told otherwise. */
+export const DEFAULT_BLOCKING: Record<CalendarDayKind, boolean> = {
+  holiday: true,
+  exam: false,
+  cancelled: true,
+}
+
+export function isCalendarDayKind(value: unknown): value is CalendarDayKind {
+  return (CALENDAR_DAY_KINDS as unknown[]).includes(value)
+}
+
+/** Entries covering `date`, blocking ones first. */
+export function entriesOn(entries: CalendarEntry[], date: string): CalendarEntry[] {
+  return entries
+    .filter(e => e.from <= date && date <= e.to)
+    .sort((a, b) => Number(b.blocking) - Number(a.blocking))
+}
+
+/** The first blocking entry covering `date`, or null. */
+export function blockingEntryOn(entries: CalendarEntry[], date: string): CalendarEntry | null {
+  return entriesOn(entries, date).find(e => e.blocking) ?? null
+}
+
+/** One line per entry covering `date`, for warnings and error messages. */
+export function describeEntry(entry: CalendarEntry): string {
+  const span = entry.from === entry.to ? entry.from : `${entry.from} to ${entry.to}`
+  return `${entry.label} (${entry.kind}, ${span})`
+}
+
+/** Validate an entry's fields; returns an error message or null. */
+export function validateCalendarFields(fields: Pick<CalendarEntry, 'kind' | 'label' | 'from' | 'to'>): string | null {
+  if (!isCalendarDayKind(fields.kind)) return `kind must be one of ${CALENDAR_DAY_KINDS.join(', ')}`
+  if (!fields.label) return 'label cannot be empty'
+  if (!DATE_PATTERN.test(fields.from) || !DATE_PATTERN.test(fields.to)) {
+    return 'from and to must be in YYYY-MM-DD format'
+  }
+  if (fields.to < fields.from) return 'to must be on or after from'
+  return null
+}
+
+/** `date` moved by `days` calendar days ("YYYY-MM-DD" in, "YYYY-MM-DD" out). */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * The weekly dates from `start` through `until` (inclusive), split into
+ * the ones a class can run on and the ones the calendar takes out.
+ */
+export function recurringDates(
+  start: string,
+  until: string,
+  entries: CalendarEntry[]
+): { dates: string[]; skipped: { date: string; entry: CalendarEntry }[] } {
+  const dates: string[] = []
+  const skipped: { date: string; entry: CalendarEntry }[] = []
+  if (!DATE_PATTERN.test(start) || !DATE_PATTERN.test(until)) return { dates, skipped }
+
+  for (let date = start; date <= until; date = addDays(date, 7)) {
+    const [entry] = entriesOn(entries, date)
+    if (entry) skipped.push({ date, entry })
+    else dates.push(date)
+  }
+  return { dates, skipped }
+}
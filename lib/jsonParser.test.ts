@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import parseLLMJson, { coerceToSchema } from '@/lib/jsonParser'
+
+const reportSchema = z.object({
+  total_students: z.number().optional(),
+  attendance_percentage: z.number().optional(),
+  absentee_list: z.array(z.string()).optional(),
+  severity: z.union([z.enum(['Warning', 'Critical', 'Severe']), z.string()]).optional(),
+  subject: z.string().optional(),
+}).passthrough()
+
+describe('coerceToSchema', () => {
+  it('repairs percent and numeric strings, lone values and label casing', () => {
+    const { value, coercions } = coerceToSchema(
+      { total_students: '12', attendance_percentage: '86.7%', absentee_list: 'Ravi (2), Meena (3)', severity: 'critical', subject: 101 },
+      reportSchema
+    )
+    expect(value).toEqual({
+      total_students: 12,
+      attendance_percentage: 86.7,
+      absentee_list: ['Ravi (2)', 'Meena (3)'],
+      severity: 'Critical',
+      subject: '101',
+    })
+    expect(coercions.map(c => [c.path, c.kind])).toEqual([
+      ['total_students', 'number'],
+      ['attendance_percentage', 'percent'],
+      ['absentee_list', 'array'],
+      ['severity', 'enum'],
+      ['subject', 'string'],
+    ])
+  })
+
+  it('drops null on optional fields and leaves values it cannot repair', () => {
+    const { value, coercions } = coerceToSchema({ total_students: null, attendance_percentage: 'n/a' }, reportSchema)
+    expect(value).toEqual({ attendance_percentage: 'n/a' })
+    expect(coercions.map(c => c.kind)).toEqual(['null'])
+  })
+
+  it('reports nothing for a value that already fits', () => {
+    expect(coerceToSchema({ total_students: 3, absentee_list: [] }, reportSchema).coercions).toEqual([])
+  })
+})
+
+describe('parseLLMJson', () => {
+  it('pulls JSON out of a fenced block', () => {
+    expect(parseLLMJson('Here you go:\n```json\n{"total_students": 4}\n```')).toEqual({ total_students: 4 })
+  })
+
+  it('repairs towards a schema and lists the coercions', () => {
+    const { data, coercions } = parseLLMJson('{"attendance_percentage": "75%", "severity": "SEVERE"}', {}, reportSchema)
+    expect(data).toEqual({ attendance_percentage: 75, severity: 'Severe' })
+    expect(coercions.map(c => c.path)).toEqual(['attendance_percentage', 'severity'])
+  })
+
+  it('accepts an already-parsed payload', () => {
+    const alerts = { alerts: [{ severity: 'warning' }], total_alerts: '1' }
+    const schema = z.object({
+      alerts: z.array(z.object({ severity: reportSchema.shape.severity })).optional(),
+      total_alerts: z.number().optional(),
+    })
+    expect(parseLLMJson(alerts, {}, schema).data).toEqual({ alerts: [{ severity: 'Warning' }], total_alerts: 1 })
+  })
+
+  it('hands back the response as given when it holds no JSON', () => {
+    expect(parseLLMJson('no data today', {}, reportSchema)).toEqual({ data: 'no data today', coercions: [] })
+  })
+})
@@ -1,8 +1,188 @@
 /**
- * Parse JSON from LLM responses with bulletproof error handling
- * Server-side utility for API routes
+ * JSON Parser
+ *
+ * parseLLMJson pulls JSON out of raw agent output, for the agent API route
+ * and for lib/agentResponses. Pass an expected `schema` to also repair values
+ * that only differ from it in representation ("86.7%" for a number, one value
+ * where a list belongs, "critical" for "Critical"); the result is then
+ * `{ data, coercions }`, with one entry per repaired value so callers can
+ * show what was changed. lib/agentResponses is bundled into the client page,
+ * so keep this module free of server-only imports.
  */
+
+import { z } from 'zod'
+
+// ---------------------------------------------------------------------------
+// Schema-guided coercion
+// ---------------------------------------------------------------------------
+
+export type CoercionKind = 'percent' | 'number' | 'string' | 'boolean' | 'array' | 'enum' | 'null'
+
+export interface Coercion {
+  /** Dotted path of the changed value ('' for the root), e.g. `alerts[0].severity` */
+  path: string
+  kind: CoercionKind
+  from: unknown
+  to: unknown
+}
+
+export interface SchemaParseResult {
+  /** The repaired value, or the response as given when no JSON could be found in it */
+  data: any
+  coercions: Coercion[]
+}
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i
+const LIST_SEPARATOR = /\s*[,;\n]\s*/
+
+/** "86.7%", " 12 ", "1,234" → number; anything else → null. */
+function toNumber(text: string): { value: number; percent: boolean } | null {
+  let t = text.trim()
+  const percent = t.endsWith('%')
+  if (percent) t = t.slice(0, -1).trim()
+  t = t.replace(/(\d),(?=\d{3}\b)/g, '$1')
+  if (!NUMBER_PATTERN.test(t)) return null
+  const value = Number(t)
+  return Number.isFinite(value) ? { value, percent } : null
+}
+
+function joinPath(base: string, rest: string): string {
+  if (!base || !rest) return base || rest
+  return rest.startsWith('[') ? base + rest : `${base}.${rest}`
+}
+
+function unwrapSchema(schema: z.ZodTypeAny): { inner: z.ZodTypeAny; optional: boolean } {
+  let inner = schema
+  let optional = false
+  for (;;) {
+    if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+      optional = optional || inner instanceof z.ZodOptional
+      inner = inner.unwrap()
+    } else if (inner instanceof z.ZodDefault) {
+      optional = true
+      inner = inner.removeDefault()
+    } else {
+      return { inner, optional }
+    }
+  }
+}
+
+/**
+ * Repair `value` towards `schema` without changing what it says: numeric and
+ * percent strings become numbers, numbers become strings, a lone value (or a
+ * comma-separated string) becomes a list, enum labels take the schema's
+ * casing, and null on an optional field is dropped. Values that cannot be
+ * repaired are left for the schema to reject.
+ */
+export function coerceToSchema(value: unknown, schema: z.ZodTypeAny): { value: unknown; coercions: Coercion[] } {
+  const coercions: Coercion[] = []
+
+  const walk = (current: unknown, fieldSchema: z.ZodTypeAny, path: string): unknown => {
+    const { inner, optional } = unwrapSchema(fieldSchema)
+    const note = (kind: CoercionKind, to: unknown) => {
+      coercions.push({ path, kind, from: current, to })
+      return to
+    }
+
+    if (current === null && optional && !(fieldSchema instanceof z.ZodNullable)) return note('null', undefined)
+
+    if (inner instanceof z.ZodObject) {
+      if (!current || typeof current !== 'object' || Array.isArray(current)) return current
+      const result: Record<string, unknown> = { ...(current as Record<string, unknown>) }
+      for (const [key, child] of Object.entries(inner.shape as Record<string, z.ZodTypeAny>)) {
+        if (!(key in result)) continue
+        const next = walk(result[key], child, path ? `${path}.${key}` : key)
+        if (next === undefined) delete result[key]
+        else result[key] = next
+      }
+      return result
+    }
+
+    if (inner instanceof z.ZodArray) {
+      let items: unknown[]
+      if (Array.isArray(current)) {
+        items = current
+      } else if (current === undefined || current === null) {
+        return current
+      } else {
+        const element = unwrapSchema(inner.element).inner
+        items = typeof current === 'string' && !(element instanceof z.ZodObject)
+          ? current.split(LIST_SEPARATOR).filter(Boolean)
+          : [current]
+        note('array', items)
+      }
+      return items.map((item, i) => walk(item, inner.element, `${path}[${i}]`))
+    }
+
+    if (inner instanceof z.ZodNumber && typeof current === 'string') {
+      const parsed = toNumber(current)
+      return parsed ? note(parsed.percent ? 'percent' : 'number', parsed.value) : current
+    }
+
+    if (inner instanceof z.ZodString && (typeof current === 'number' || typeof current === 'boolean')) {
+      return note('string', String(current))
+    }
+
+    if (inner instanceof z.ZodBoolean && typeof current === 'string') {
+      const t = current.trim().toLowerCase()
+      return t === 'true' || t === 'false' ? note('boolean', t === 'true') : current
+    }
+
+    // First option the value can be repaired to fit, so an enum listed before
+    // a catch-all string still fixes casing
+    if (inner instanceof z.ZodUnion) {
+      for (const option of inner.options as z.ZodTypeAny[]) {
+        const attempt = coerceToSchema(current, option)
+        if (option.safeParse(attempt.value).success) {
+          for (const c of attempt.coercions) coercions.push({ ...c, path: joinPath(path, c.path) })
+          return attempt.value
+        }
+      }
+      return current
+    }
+
+    if (inner instanceof z.ZodEnum && typeof current === 'string') {
+      const options = inner.options as string[]
+      if (options.includes(current)) return current
+      const match = options.find(o => o.toLowerCase() === current.trim().toLowerCase())
+      return match ? note('enum', match) : current
+    }
+
+    return current
+  }
+
+  return { value: walk(value, schema, ''), coercions }
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse JSON from LLM responses with bulletproof error handling. With a
+ * `schema`, the parsed value is also repaired towards it (see coerceToSchema).
+ */
+export default function parseLLMJson(response: any, options?: Record<string, any> | null): any
 export default function parseLLMJson(
+  response: any,
+  options: Record<string, any> | null | undefined,
+  schema: z.ZodTypeAny
+): SchemaParseResult
+export default function parseLLMJson(
+  response: any,
+  options: Record<string, any> | null | undefined = {},
+  schema?: z.ZodTypeAny
+): any {
+  const parsed = extractLLMJson(response, options)
+  if (!schema) return parsed
+
+  const failed = parsed === null || (parsed?.success === false && 'rawJson' in parsed)
+  if (failed) return { data: response, coercions: [] }
+  const { value, coercions } = coerceToSchema(parsed, schema)
+  return { data: value, coercions }
+}
+
+function extractLLMJson(
   response: any,
   options: Record<string, any> | null | undefined = {}
 ): any {
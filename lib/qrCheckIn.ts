@@ -0,0 +1,78 @@
+'use client'
+
+/**
+ * QR Check-in
+ *
+ * Build the deep link a session QR code points at, render it as an image, and
+ * read a check-in code back out of a scanned link or an uploaded photo.
+ */
+
+const CODE_PATTERN = /^[A-Z0-9]{6}$/
+
+/** Deep link that opens Mark Attendance with the code pre-filled. */
+export function buildCheckInUrl(code: string, origin: string = window.location.origin): string {
+  const url = new URL('/', origin)
+  url.searchParams.set('tab', 'attendance')
+  url.searchParams.set('code', code)
+  return url.toString()
+}
+
+/**
+ * Extract a check-in code from scanned text: either a check-in link or a bare
+ * 6-character code. Returns null for anything else.
+ */
+export function parseCheckInPayload(text: string): string | null {
+  const trimmed = text.trim()
+  const bare = trimmed.toUpperCase()
+  if (CODE_PATTERN.test(bare)) return bare
+  try {
+    const code = new URL(trimmed).searchParams.get('code')?.trim().toUpperCase()
+    return code && CODE_PATTERN.test(code) ? code : null
+  } catch {
+    return null
+  }
+}
+
+/** Render `text` as a QR code PNG data URL. */
+export async function renderQrDataUrl(text: string, size = 512): Promise<string> {
+  const QRCode = await import('qrcode')
+  return QRCode.toDataURL(text, { width: size, margin: 1, errorCorrectionLevel: 'M' })
+}
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(img)
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Could not open the image.'))
+    }
+    img.src = url
+  })
+}
+
+/**
+ * Decode a QR code from a photo or screenshot. Large photos are scaled down
+ * first — jsQR is slow on full-resolution camera images and does not need them.
+ */
+export async function decodeQrFromImage(file: File): Promise<string | null> {
+  const [{ default: jsQR }, img] = await Promise.all([import('jsqr'), loadImage(file)])
+  const scale = Math.min(1, 1024 / Math.max(img.naturalWidth, img.naturalHeight))
+  const width = Math.max(1, Math.round(img.naturalWidth * scale))
+  const height = Math.max(1, Math.round(img.naturalHeight * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Image decoding is not supported in this browser.')
+  ctx.drawImage(img, 0, 0, width, height)
+
+  const { data } = ctx.getImageData(0, 0, width, height)
+  const result = jsQR(data, width, height, { inversionAttempts: 'attemptBoth' })
+  return result?.data ?? null
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { buildImportPreview, guessColumnMapping, parseCsv, splitSubjects } from '@/lib/rosterImport'
+import type { Student } from '@/lib/attendanceTypes'
+
+describe('parseCsv', () => {
+  it('handles quoting, escaped quotes, CRLF and blank lines', () => {
+    const text = '\uFEFFRoll No,Name\r\n21A01,"Sharma, Rahul"\r\n\r\n21A02,"Priya ""P"" Patel"\n'
+    expect(parseCsv(text)).toEqual([
+      ['Roll No', 'Name'],
+      ['21A01', 'Sharma, Rahul'],
+      ['21A02', 'Priya "P" Patel'],
+    ])
+  })
+
+  it('detects semicolon-delimited files', () => {
+    expect(parseCsv('roll;name;subjects\n21A01;Asha;DBMS, OS')).toEqual([
+      ['roll', 'name', 'subjects'],
+      ['21A01', 'Asha', 'DBMS, OS'],
+    ])
+  })
+})
+
+describe('guessColumnMapping', () => {
+  it('matches header aliases in any order and leaves missing fields unmapped', () => {
+    expect(guessColumnMapping(['Student Name', 'Roll No.', 'Batch'])).toEqual({
+      rollNumber: 1,
+      name: 0,
+      section: 2,
+      subjects: null,
+    })
+  })
+})
+
+describe('splitSubjects', () => {
+  it('normalizes case and drops duplicates', () => {
+    expect(splitSubjects('DBMS, os; java|OS')).toEqual(['DBMS', 'OS', 'JAVA'])
+  })
+})
+
+describe('buildImportPreview', () => {
+  const roster: Student[] = [
+    { id: '1', rollNumber: '21A01', name: 'Asha', section: 'A', subjects: ['DBMS'] },
+    { id: '2', rollNumber: '21A02', name: 'Ravi', section: 'A', subjects: ['DBMS', 'OS'] },
+  ]
+  const rows = [
+    ['Roll', 'Name', 'Section', 'Subjects'],
+    ['21A01', 'Asha', 'b', 'DBMS'],
+    ['21A02', 'Ravi', 'A', 'os, dbms'],
+    ['21A03', 'Meena', 'A', 'DBMS'],
+    ['21A03', 'Meena K', 'A', 'DBMS'],
+    ['21A02', 'Someone Else', 'A', 'DBMS'],
+    ['', 'No Roll', 'A', 'CHEM'],
+  ]
+
+  it('classifies every row against the roster and the catalog', () => {
+    const preview = buildImportPreview(rows, guessColumnMapping(rows[0]), roster, ['DBMS', 'OS'])
+    expect(preview.rows.map(r => [r.line, r.kind])).toEqual([
+      [2, 'updated'],
+      [3, 'unchanged'],
+      [4, 'new'],
+      [5, 'conflict'],
+      [6, 'conflict'],
+      [7, 'invalid'],
+    ])
+    expect(preview.counts).toEqual({ new: 1, updated: 1, unchanged: 1, conflict: 2, invalid: 1 })
+    expect(preview.rows[0].changes).toEqual(['Section A → B'])
+    expect(preview.rows[5].errors).toEqual(['Missing roll number', 'Unknown subject: CHEM'])
+  })
+
+  it('keeps roster values for columns that are not mapped', () => {
+    const preview = buildImportPreview(
+      [['Roll', 'Name'], ['21A02', 'Ravi']],
+      guessColumnMapping(['Roll', 'Name']),
+      roster,
+      ['DBMS', 'OS']
+    )
+    expect(preview.rows[0]).toMatchObject({ kind: 'unchanged', student: { section: 'A', subjects: ['DBMS', 'OS'] } })
+  })
+})
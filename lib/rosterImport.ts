@@ -0,0 +1,250 @@
+/**
+ * Roster Import
+ *
+ * Client-side parsing of CSV / XLSX class lists into roster rows, plus a diff
+ * preview against the current roster. Files never leave the browser — only
+ * the validated rows are sent to /api/students.
+ */
+
+import type { Student } from '@/lib/attendanceTypes'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ImportField = 'rollNumber' | 'name' | 'section' | 'subjects'
+
+export type ColumnMapping = Record<ImportField, number | null>
+
+export type ImportRowKind = 'new' | 'updated' | 'unchanged' | 'conflict' | 'invalid'
+
+export interface ImportRow {
+  /** 1-based row number among non-empty rows (the header is row 1) */
+  line: number
+  kind: ImportRowKind
+  student: Omit<Student, 'id' | 'created_at'>
+  existing?: Student
+  /** Human-readable field changes for `updated` rows */
+  changes: string[]
+  /** Validation errors (`invalid`) or the reason for a `conflict` */
+  errors: string[]
+}
+
+export interface ImportPreview {
+  rows: ImportRow[]
+  counts: Record<ImportRowKind, number>
+}
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean }[] = [
+  { key: 'rollNumber', label: 'Roll Number', required: true },
+  { key: 'name', label: 'Name', required: true },
+  { key: 'section', label: 'Section', required: false },
+  { key: 'subjects', label: 'Subjects', required: false },
+]
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  rollNumber: ['roll number', 'roll no', 'roll', 'rollno', 'roll_number', 'roll #', 'registration number', 'reg no', 'id'],
+  name: ['name', 'student name', 'student', 'full name'],
+  section: ['section', 'sec', 'class', 'batch', 'division'],
+  subjects: ['subjects', 'subject', 'courses', 'enrolled subjects', 'enrolment', 'enrollment'],
+}
+
+// ---------------------------------------------------------------------------
+// Reading files
+// ---------------------------------------------------------------------------
+
+/** Parse CSV text (RFC 4180 quoting, comma or semicolon delimited). */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '')
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? ''
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ','
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+      } else {
+        field += ch
+      }
+      continue
+    }
+    if (ch === '"') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+/** Read a CSV or XLSX file into rows of trimmed cell strings. */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const ext = file.name.split('.').pop()?.toLowerCase()
+  if (ext === 'csv' || ext === 'txt' || file.type === 'text/csv') {
+    return parseCsv(await file.text()).map(r => r.map(cell => cell.trim()))
+  }
+  if (ext === 'xlsx') {
+    const { readSheet } = await import('read-excel-file/browser')
+    const data = await readSheet(file)
+    return data
+      .map(r => r.map(cell => (cell === null || cell === undefined ? '' : String(cell).trim())))
+      .filter(r => r.some(cell => cell !== ''))
+  }
+  throw new Error('Unsupported file type. Upload a .csv or .xlsx file.')
+}
+
+// ---------------------------------------------------------------------------
+// Column mapping
+// ---------------------------------------------------------------------------
+
+/** Guess which column holds each field from the header row. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase().replace(/[.]/g, ''))
+  const mapping: ColumnMapping = { rollNumber: null, name: null, section: null, subjects: null }
+  for (const field of IMPORT_FIELDS) {
+    const idx = normalized.findIndex(
+      (h, i) => HEADER_ALIASES[field.key].includes(h) && !Object.values(mapping).includes(i)
+    )
+    mapping[field.key] = idx === -1 ? null : idx
+  }
+  return mapping
+}
+
+/** Split a subjects cell such as "DBMS, OS; java" into normalized codes. */
+export function splitSubjects(cell: string): string[] {
+  const codes = cell
+    .split(/[,;|/]+|\s+/)
+    .map(s => s.trim().toUpperCase())
+    .filter(Boolean)
+  return Array.from(new Set(codes))
+}
+
+// ---------------------------------------------------------------------------
+// Preview
+// ---------------------------------------------------------------------------
+
+function sameSubjects(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(s => b.includes(s))
+}
+
+/**
+ * Classify every data row against the current roster:
+ *   - invalid:   fails validation (missing fields, unknown subjects)
+ *   - conflict:  roll number is duplicated in the file, or belongs to a
+ *                different student name on the roster
+ *   - new / updated / unchanged: safe to commit
+ */
+export function buildImportPreview(
+  rows: string[][],
+  mapping: ColumnMapping,
+  roster: Student[],
+  knownSubjects: readonly string[]
+): ImportPreview {
+  const cell = (row: string[], field: ImportField) => {
+    const idx = mapping[field]
+    return idx === null || idx === undefined ? '' : (row[idx] ?? '').trim()
+  }
+  const byRoll = new Map(roster.map(s => [s.rollNumber, s]))
+  const seenInFile = new Map<string, number>()
+
+  const result: ImportRow[] = rows.slice(1).map((row, i) => {
+    const line = i + 2
+    const student = {
+      rollNumber: cell(row, 'rollNumber'),
+      name: cell(row, 'name'),
+      section: cell(row, 'section').toUpperCase(),
+      subjects: splitSubjects(cell(row, 'subjects')),
+    }
+    const errors: string[] = []
+
+    if (!student.rollNumber) errors.push('Missing roll number')
+    else if (!/^[A-Za-z0-9\-_/]+$/.test(student.rollNumber)) errors.push(`Invalid roll number "${student.rollNumber}"`)
+    if (!student.name) errors.push('Missing name')
+    const unknown = student.subjects.filter(s => !knownSubjects.includes(s))
+    if (unknown.length > 0) errors.push(`Unknown subject${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`)
+
+    if (errors.length > 0) {
+      return { line, kind: 'invalid' as const, student, changes: [], errors }
+    }
+
+    const firstLine = seenInFile.get(student.rollNumber)
+    if (firstLine !== undefined) {
+      return {
+        line,
+        kind: 'conflict' as const,
+        student,
+        changes: [],
+        errors: [`Roll number ${student.rollNumber} already appears on row ${firstLine}`],
+      }
+    }
+    seenInFile.set(student.rollNumber, line)
+
+    const existing = byRoll.get(student.rollNumber)
+    if (!existing) {
+      return { line, kind: 'new' as const, student, changes: [], errors: [] }
+    }
+
+    if (existing.name.trim().toLowerCase() !== student.name.toLowerCase()) {
+      return {
+        line,
+        kind: 'conflict' as const,
+        student,
+        existing,
+        changes: [],
+        errors: [`Roll number ${student.rollNumber} belongs to ${existing.name} on the roster`],
+      }
+    }
+
+    const changes: string[] = []
+    if (mapping.section !== null && existing.section !== student.section) {
+      changes.push(`Section ${existing.section || '--'} → ${student.section || '--'}`)
+    }
+    if (mapping.subjects !== null && !sameSubjects(existing.subjects, student.subjects)) {
+      changes.push(`Subjects ${existing.subjects.join(', ') || 'none'} → ${student.subjects.join(', ') || 'none'}`)
+    }
+    if (existing.name !== student.name) {
+      changes.push(`Name ${existing.name} → ${student.name}`)
+    }
+
+    return {
+      line,
+      kind: changes.length > 0 ? ('updated' as const) : ('unchanged' as const),
+      student: {
+        ...student,
+        section: mapping.section === null ? existing.section : student.section,
+        subjects: mapping.subjects === null ? existing.subjects : student.subjects,
+      },
+      existing,
+      changes,
+      errors: [],
+    }
+  })
+
+  const counts: Record<ImportRowKind, number> = { new: 0, updated: 0, unchanged: 0, conflict: 0, invalid: 0 }
+  for (const r of result) counts[r.kind]++
+
+  return { rows: result, counts }
+}
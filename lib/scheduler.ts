@@ -244,6 +244,35 @@ export async function createSchedule(params: {
   }
 }
 
+/** Change a schedule's message, timing or retry settings. */
+export async function updateSchedule(
+  scheduleId: string,
+  changes: {
+    message?: string
+    cron_expression?: string
+    timezone?: string
+    max_retries?: number
+    retry_delay?: number
+  }
+): Promise<{ success: boolean; schedule?: Schedule; error?: string }> {
+  if (!scheduleId) {
+    return { success: false, error: 'scheduleId is required' }
+  }
+  try {
+    const res = await fetchWrapper('/api/scheduler', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'update', scheduleId, ...changes }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    const { success: _, error: __, details: ___, ...schedule } = data
+    return { success: true, schedule: schedule as unknown as Schedule }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
 /**
  * Pause a schedule (it will not run until resumed).
  * 
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CODE_CHARS,
+  CODE_LENGTH,
+  ROTATION_GRACE_STEPS,
+  createDisplayToken,
+  createRotationSecret,
+  currentRotatingCode,
+  generateCode,
+  matchRotatingCode,
+  matchesDisplayToken,
+} from '@/lib/sessionCode'
+
+// RFC 6238 test secret ("12345678901234567890"); at T = 59s its truncated
+// HMAC is 1094287082, which spells LZ9UVA in CODE_CHARS, low digit first
+const RFC_SECRET = '3132333435363738393031323334353637383930'
+
+describe('generateCode', () => {
+  it('uses the unambiguous alphabet', () => {
+    const code = generateCode()
+    expect(code).toHaveLength(CODE_LENGTH)
+    expect(code.split('').every(c => CODE_CHARS.includes(c))).toBe(true)
+  })
+})
+
+describe('currentRotatingCode', () => {
+  it('derives the code TOTP-style from the secret and step', () => {
+    expect(currentRotatingCode(RFC_SECRET, 30, new Date(59_000))).toEqual({
+      code: 'LZ9UVA',
+      expires_at: new Date(60_000).toISOString(),
+    })
+  })
+
+  it('rolls over every period', () => {
+    const secret = createRotationSecret()
+    const first = currentRotatingCode(secret, 30, new Date(60_000))
+    expect(currentRotatingCode(secret, 30, new Date(89_999)).code).toBe(first.code)
+    expect(currentRotatingCode(secret, 30, new Date(90_000)).expires_at).toBe(new Date(120_000).toISOString())
+  })
+})
+
+describe('matchRotatingCode', () => {
+  const secret = createRotationSecret()
+  const period = 30
+  const now = new Date(1_000_000_000_000)
+  const codeAt = (stepsBack: number) => currentRotatingCode(secret, period, new Date(now.getTime() - stepsBack * period * 1000)).code
+
+  it('accepts the current code and the grace steps before it', () => {
+    for (let back = 0; back <= ROTATION_GRACE_STEPS; back++) {
+      expect(matchRotatingCode(secret, period, codeAt(back), now)).toBe('valid')
+    }
+  })
+
+  it('calls older recent codes expired and anything else invalid', () => {
+    expect(matchRotatingCode(secret, period, codeAt(ROTATION_GRACE_STEPS + 1), now)).toBe('expired')
+    expect(matchRotatingCode(secret, period, codeAt(100), now)).toBe('invalid')
+    expect(matchRotatingCode(createRotationSecret(), period, codeAt(0), now)).toBe('invalid')
+  })
+})
+
+describe('matchesDisplayToken', () => {
+  it('only matches the exact token', () => {
+    const token = createDisplayToken()
+    expect(matchesDisplayToken(token, token)).toBe(true)
+    expect(matchesDisplayToken(token, createDisplayToken())).toBe(false)
+    expect(matchesDisplayToken(token, token.slice(1))).toBe(false)
+    expect(matchesDisplayToken(token, null)).toBe(false)
+    expect(matchesDisplayToken(undefined, token)).toBe(false)
+  })
+})
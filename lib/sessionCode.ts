@@ -0,0 +1,105 @@
+/**
+ * Session Check-in Codes
+ *
+ * Static codes are random 6-character strings assigned once per session.
+ * Rotating codes are derived TOTP-style (RFC 6238, HMAC-SHA1 with dynamic
+ * truncation) from a per-session secret, so the code on the teacher's screen
+ * changes every `period` seconds and forwarded codes go stale quickly.
+ *
+ * NEVER import this module from client components — it uses node crypto and
+ * the rotation secret must stay on the server.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+/** Unambiguous alphabet (no 0/O, 1/I). 32 characters, so each one carries 5 bits. */
+export const CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+export const CODE_LENGTH = 6
+
+/** Allowed rotation periods, in seconds. */
+export const MIN_ROTATION_PERIOD = 10
+export const MAX_ROTATION_PERIOD = 300
+
+export const DEFAULT_ROTATION_PERIOD = 30
+
+/** How many previous codes are still accepted, to cover typing and network delay. */
+export const ROTATION_GRACE_STEPS = 2
+
+/** How far back a code is recognised as "expired" rather than unknown. */
+const EXPIRED_LOOKBACK_STEPS = 20
+
+export function generateCode(): string {
+  let code = ''
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_CHARS[Math.floor(Math.random() * CODE_CHARS.length)]
+  }
+  return code
+}
+
+/** 160-bit secret, hex encoded. */
+export function createRotationSecret(): string {
+  return randomBytes(20).toString('hex')
+}
+
+/** Token the creating device presents to read a rotating session's live code. */
+export function createDisplayToken(): string {
+  return randomBytes(16).toString('hex')
+}
+
+export function matchesDisplayToken(expected: string | undefined, given: string | null): boolean {
+  if (!expected || !given || given.length !== expected.length) return false
+  return timingSafeEqual(Buffer.from(given), Buffer.from(expected))
+}
+
+function rotationStep(period: number, at: Date): number {
+  return Math.floor(at.getTime() / 1000 / period)
+}
+
+function codeForStep(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac = createHmac('sha1', Buffer.from(secret, 'hex')).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  let value = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  let code = ''
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_CHARS[value % CODE_CHARS.length]
+    value = Math.floor(value / CODE_CHARS.length)
+  }
+  return code
+}
+
+/** The code to display right now and when it rolls over. */
+export function currentRotatingCode(
+  secret: string,
+  period: number,
+  now: Date = new Date()
+): { code: string; expires_at: string } {
+  const step = rotationStep(period, now)
+  return {
+    code: codeForStep(secret, step),
+    expires_at: new Date((step + 1) * period * 1000).toISOString(),
+  }
+}
+
+/**
+ * Check a submitted code against a rotating session: `valid` for the current
+ * code or one of the last ROTATION_GRACE_STEPS, `expired` for an older code
+ * from the recent past, otherwise `invalid`.
+ */
+export function matchRotatingCode(
+  secret: string,
+  period: number,
+  code: string,
+  now: Date = new Date()
+): 'valid' | 'expired' | 'invalid' {
+  const step = rotationStep(period, now)
+  for (let back = 0; back <= EXPIRED_LOOKBACK_STEPS; back++) {
+    if (codeForStep(secret, step - back) === code) {
+      return back <= ROTATION_GRACE_STEPS ? 'valid' : 'expired'
+    }
+  }
+  return 'invalid'
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { formatSessionEndTime, getSessionStatus, getSessionWindow } from '@/lib/sessionTime'
+
+// 09:00-10:00 in the teacher's timezone, which is UTC+5:30 here
+const session = {
+  date: '2026-03-02',
+  time: '09:00',
+  starts_at: '2026-03-02T03:30:00.000Z',
+  duration: 60,
+}
+
+const at = (iso: string) => new Date(iso)
+
+describe('getSessionWindow', () => {
+  it('is the scheduled window without manual actions', () => {
+    expect(getSessionWindow(session)).toEqual({ start: at('2026-03-02T03:30:00.000Z'), end: at('2026-03-02T04:30:00.000Z') })
+  })
+
+  it('pulls the start forward when opened early', () => {
+    const { start, end } = getSessionWindow({ ...session, opened_at: '2026-03-02T03:10:00.000Z' })
+    expect(start).toEqual(at('2026-03-02T03:10:00.000Z'))
+    expect(end).toEqual(at('2026-03-02T04:30:00.000Z'))
+  })
+
+  it('starts a fresh window when opened after the scheduled end', () => {
+    expect(getSessionWindow({ ...session, opened_at: '2026-03-02T06:00:00.000Z' })).toEqual({
+      start: at('2026-03-02T06:00:00.000Z'),
+      end: at('2026-03-02T07:00:00.000Z'),
+    })
+  })
+
+  it('ends at "Close now"', () => {
+    expect(getSessionWindow({ ...session, closed_at: '2026-03-02T04:00:00.000Z' }).end).toEqual(at('2026-03-02T04:00:00.000Z'))
+  })
+})
+
+describe('getSessionStatus', () => {
+  it('moves from scheduled to open to closed', () => {
+    expect(getSessionStatus(session, at('2026-03-02T03:00:00.000Z'))).toBe('scheduled')
+    expect(getSessionStatus(session, at('2026-03-02T04:00:00.000Z'))).toBe('open')
+    expect(getSessionStatus(session, at('2026-03-02T04:30:00.000Z'))).toBe('closed')
+  })
+
+  it('follows opened_at and cancelled_at', () => {
+    const reopened = { ...session, opened_at: '2026-03-02T06:00:00.000Z' }
+    expect(getSessionStatus(reopened, at('2026-03-02T06:30:00.000Z'))).toBe('open')
+    expect(getSessionStatus({ ...session, cancelled_at: '2026-03-01T00:00:00.000Z' }, at('2026-03-02T04:00:00.000Z'))).toBe('cancelled')
+  })
+})
+
+describe('formatSessionEndTime', () => {
+  it('is the scheduled end as entered, wrapping past midnight', () => {
+    expect(formatSessionEndTime(session)).toBe('10:00')
+    expect(formatSessionEndTime({ ...session, time: '23:30', starts_at: undefined })).toBe('00:30')
+  })
+
+  it('follows a window that was opened late', () => {
+    expect(formatSessionEndTime({ ...session, opened_at: '2026-03-02T06:00:00.000Z' })).toBe('12:30')
+  })
+
+  it('is unchanged when opened early', () => {
+    expect(formatSessionEndTime({ ...session, opened_at: '2026-03-02T03:10:00.000Z' })).toBe('10:00')
+  })
+})
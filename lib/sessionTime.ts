@@ -0,0 +1,87 @@
+/**
+ * Session Time Helpers
+ *
+ * Resolve when an attendance session starts and ends, and which lifecycle
+ * state it is in. Shared by the API routes and the UI so both agree on whether
+ * a check-in window is open.
+ */
+
+import type { AttendanceSession, SessionStatus } from '@/lib/attendanceTypes'
+
+type TimedSession = Pick<
+  AttendanceSession,
+  'date' | 'time' | 'starts_at' | 'duration' | 'opened_at' | 'closed_at' | 'cancelled_at'
+>
+
+/**
+ * Start instant of a session. `starts_at` is computed by the browser that
+ * created the session, so it carries the teacher's timezone; older sessions
+ * without it fall back to reading `date` + `time` in the local timezone.
+ */
+export function getSessionStart(session: Pick<AttendanceSession, 'date' | 'time' | 'starts_at'>): Date {
+  if (session.starts_at) {
+    const parsed = new Date(session.starts_at)
+    if (!isNaN(parsed.getTime())) return parsed
+  }
+  return new Date(`${session.date}T${session.time}:00`)
+}
+
+export function getSessionEnd(session: Pick<AttendanceSession, 'date' | 'time' | 'starts_at' | 'duration'>): Date {
+  return new Date(getSessionStart(session).getTime() + (session.duration || 0) * 60_000)
+}
+
+/**
+ * Effective check-in window after manual actions. "Open now" pulls the start
+ * forward (or starts a fresh `duration` window once the scheduled one has
+ * passed); "Close now" ends the window at that instant.
+ */
+export function getSessionWindow(session: TimedSession): { start: Date; end: Date } {
+  let start = getSessionStart(session)
+  let end = getSessionEnd(session)
+  if (session.opened_at) {
+    const opened = new Date(session.opened_at)
+    if (opened < start) start = opened
+    if (opened >= end) {
+      start = opened
+      end = new Date(opened.getTime() + (session.duration || 0) * 60_000)
+    }
+  }
+  if (session.closed_at) {
+    const closed = new Date(session.closed_at)
+    if (closed < end) end = closed
+  }
+  return { start, end }
+}
+
+export function getSessionStatus(session: TimedSession, now: Date = new Date()): SessionStatus {
+  if (session.cancelled_at) return 'cancelled'
+  const { start, end } = getSessionWindow(session)
+  if (now < start) return 'scheduled'
+  if (now >= end) return 'closed'
+  return 'open'
+}
+
+/**
+ * Wall-clock end of the check-in window ("HH:mm") in the teacher's timezone,
+ * wrapping past midnight: the scheduled end as entered, moved by however far
+ * "Open now" or "Close now" moved the window (see getSessionWindow).
+ */
+export function formatSessionEndTime(session: TimedSession): string {
+  const [h, m] = session.time.split(':').map(n => parseInt(n) || 0)
+  const shift = Math.round((getSessionWindow(session).end.getTime() - getSessionEnd(session).getTime()) / 60_000)
+  const day = 24 * 60
+  const total = (((h * 60 + m + (session.duration || 0) + shift) % day) + day) % day
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`
+}
+
+/** Local calendar date as "YYYY-MM-DD". */
+export function toLocalDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/** Convert a local date + time pick into an ISO instant for `starts_at`. */
+export function toStartsAt(date: string, time: string): string | undefined {
+  const parsed = new Date(`${date}T${time}:00`)
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString()
+}
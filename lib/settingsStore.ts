@@ -0,0 +1,159 @@
+/**
+ * Settings Store
+ *
+ * Server-side access to the admin-editable settings kept in the `settings`
+ * collection, one item per settings group, merged over the defaults.
+ *
+ * NEVER import this module from client components — it uses the filesystem.
+ */
+
+import { getStorage } from '@/lib/attendanceStore'
+import { DEFAULT_ATTENDANCE_POLICY } from '@/lib/attendanceStats'
+import { DEFAULT_SEVERITY_RULES, DEFAULT_THRESHOLD_SETTINGS, mergeThresholdSettings } from '@/lib/attendanceReports'
+import type { AttendancePolicy, SeverityRules, ThresholdSettings } from '@/lib/attendanceTypes'
+
+const POLICY_ID = 'policy'
+const THRESHOLDS_ID = 'thresholds'
+const SEVERITY_ID = 'severity'
+
+type StoredPolicy = AttendancePolicy & { id: string }
+
+export async function getAttendancePolicy(): Promise<AttendancePolicy> {
+  const stored = await getStorage().get<StoredPolicy>('settings', POLICY_ID)
+  const { id: _id, ...policy } = stored ?? { id: POLICY_ID }
+  return { ...DEFAULT_ATTENDANCE_POLICY, ...policy }
+}
+
+/** Validate a partial policy; returns an error message or null. */
+export function validateAttendancePolicy(patch: Partial<AttendancePolicy>): string | null {
+  if (
+    patch.lateGraceMinutes !== undefined &&
+    (!Number.isInteger(patch.lateGraceMinutes) || patch.lateGraceMinutes < 0 || patch.lateGraceMinutes > 240)
+  ) {
+    return 'lateGraceMinutes must be a whole number of minutes between 0 and 240'
+  }
+  if (patch.lateCountsAsPresent !== undefined && typeof patch.lateCountsAsPresent !== 'boolean') {
+    return 'lateCountsAsPresent must be true or false'
+  }
+  return null
+}
+
+export async function saveAttendancePolicy(patch: Partial<AttendancePolicy>): Promise<AttendancePolicy> {
+  const storage = getStorage()
+  const next: StoredPolicy = { ...(await getAttendancePolicy()), ...patch, id: POLICY_ID }
+  const updated = await storage.update<StoredPolicy>('settings', POLICY_ID, next)
+  if (!updated) await storage.insert<StoredPolicy>('settings', next)
+  const { id: _id, ...policy } = next
+  return policy
+}
+
+// ---------------------------------------------------------------------------
+// Attendance thresholds
+// ---------------------------------------------------------------------------
+
+type StoredThresholds = ThresholdSettings & { id: string }
+
+export async function getThresholdSettings(): Promise<ThresholdSettings> {
+  const stored = await getStorage().get<StoredThresholds>('settings', THRESHOLDS_ID)
+  return {
+    defaultThreshold: stored?.defaultThreshold ?? DEFAULT_THRESHOLD_SETTINGS.defaultThreshold,
+    subjects: { ...(stored?.subjects ?? DEFAULT_THRESHOLD_SETTINGS.subjects) },
+    terms: { ...(stored?.terms ?? DEFAULT_THRESHOLD_SETTINGS.terms) },
+  }
+}
+
+function isThreshold(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= 100
+}
+
+function isRecord(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function validateSubjectThresholds(subjects: unknown, scope = ''): string | null {
+  if (!isRecord(subjects)) return `${scope}subjects must map subject codes to percentages`
+  for (const [subject, value] of Object.entries(subjects as Record<string, unknown>)) {
+    if (!subject.trim()) return 'Subject codes must not be empty'
+    if (!isThreshold(value)) return `The ${scope}${subject} threshold must be a percentage above 0 and at most 100`
+  }
+  return null
+}
+
+/**
+ * Validate the shape of a partial threshold update; returns an error message
+ * or null. Whether its subject codes and term ids exist is the route's check.
+ */
+export function validateThresholdSettings(patch: Partial<ThresholdSettings>): string | null {
+  if (patch.defaultThreshold !== undefined && !isThreshold(patch.defaultThreshold)) {
+    return 'defaultThreshold must be a percentage above 0 and at most 100'
+  }
+  if (patch.subjects !== undefined) {
+    const invalid = validateSubjectThresholds(patch.subjects)
+    if (invalid) return invalid
+  }
+  if (patch.terms !== undefined) {
+    if (!isRecord(patch.terms)) return 'terms must map term ids to thresholds'
+    for (const [termId, own] of Object.entries(patch.terms)) {
+      if (!isRecord(own)) return `The thresholds for term ${termId} must be an object`
+      if (own.defaultThreshold !== undefined && !isThreshold(own.defaultThreshold)) {
+        return `The defaultThreshold for term ${termId} must be a percentage above 0 and at most 100`
+      }
+      const invalid = own.subjects === undefined ? null : validateSubjectThresholds(own.subjects, `term ${termId} `)
+      if (invalid) return invalid
+    }
+  }
+  return null
+}
+
+/** Save a partial update (see mergeThresholdSettings). */
+export async function saveThresholdSettings(patch: Partial<ThresholdSettings>): Promise<ThresholdSettings> {
+  const storage = getStorage()
+  const next: StoredThresholds = { ...mergeThresholdSettings(await getThresholdSettings(), patch), id: THRESHOLDS_ID }
+  const updated = await storage.update<StoredThresholds>('settings', THRESHOLDS_ID, next)
+  if (!updated) await storage.insert<StoredThresholds>('settings', next)
+  const { id: _id, ...thresholds } = next
+  return thresholds
+}
+
+// ---------------------------------------------------------------------------
+// Severity bands
+// ---------------------------------------------------------------------------
+
+type StoredSeverityRules = SeverityRules & { id: string }
+
+export async function getSeverityRules(): Promise<SeverityRules> {
+  const stored = await getStorage().get<StoredSeverityRules>('settings', SEVERITY_ID)
+  const { id: _id, ...rules } = stored ?? { id: SEVERITY_ID }
+  return { ...DEFAULT_SEVERITY_RULES, ...rules }
+}
+
+function isBand(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100
+}
+
+/**
+ * Validate the rules that would result from applying `patch` to `current`;
+ * returns an error message or null. The Critical band must start below the
+ * Warning band, so the two are checked together.
+ */
+export function validateSeverityRules(patch: Partial<SeverityRules>, current: SeverityRules): string | null {
+  for (const key of ['warningWithin', 'criticalWithin', 'atRiskWithin'] as const) {
+    if (patch[key] !== undefined && !isBand(patch[key])) {
+      return `${key} must be a number of percentage points between 0 and 100`
+    }
+  }
+  const next = { ...current, ...patch }
+  if (next.criticalWithin <= next.warningWithin) {
+    return 'criticalWithin must be greater than warningWithin'
+  }
+  return null
+}
+
+export async function saveSeverityRules(patch: Partial<SeverityRules>): Promise<SeverityRules> {
+  const storage = getStorage()
+  const next: StoredSeverityRules = { ...(await getSeverityRules()), ...patch, id: SEVERITY_ID }
+  const updated = await storage.update<StoredSeverityRules>('settings', SEVERITY_ID, next)
+  if (!updated) await storage.insert<StoredSeverityRules>('settings', next)
+  const { id: _id, ...rules } = next
+  return rules
+}
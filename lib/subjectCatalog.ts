@@ -0,0 +1,34 @@
+/**
+ * Subject Catalog
+ *
+ * The colour palette subjects choose from and the catalog a new install
+ * starts with. The catalog itself lives in the `subjects` collection
+ * (see /api/subjects).
+ */
+
+import type { Subject } from '@/lib/attendanceTypes'
+
+/** Palette keys, in the order new subjects are offered them. */
+export const SUBJECT_COLORS = ['emerald', 'amber', 'purple', 'blue', 'rose', 'cyan', 'indigo', 'orange'] as const
+
+export type SubjectColor = typeof SUBJECT_COLORS[number]
+
+export function isSubjectColor(value: unknown): value is SubjectColor {
+  return (SUBJECT_COLORS as readonly unknown[]).includes(value)
+}
+
+/** Subject codes are short upper-case identifiers: letters, digits, "-" and "_". */
+export const SUBJECT_CODE_PATTERN = /^[A-Z0-9_-]{1,12}$/
+
+export function normalizeSubjectCode(value: unknown): string {
+  return String(value ?? '').trim().toUpperCase()
+}
+
+/** Seeded into an empty catalog. */
+export const DEFAULT_SUBJECTS: Omit<Subject, 'id' | 'created_at'>[] = [
+  { code: 'MEFA', name: 'Managerial Economics and Financial Analysis', credits: 3, faculty: '', color: 'emerald' },
+  { code: 'DBMS', name: 'Database Management Systems', credits: 4, faculty: '', color: 'amber' },
+  { code: 'OS', name: 'Operating Systems', credits: 4, faculty: '', color: 'purple' },
+  { code: 'JAVA', name: 'Java Programming', credits: 3, faculty: '', color: 'blue' },
+  { code: 'PYTHON', name: 'Python Programming', credits: 3, faculty: '', color: 'rose' },
+]
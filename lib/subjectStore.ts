@@ -0,0 +1,43 @@
+/**
+ * Subject Store
+ *
+ * Server-side access to the `subjects` collection, shared by the subject,
+ * session and student routes so every subject code they store is one the
+ * catalog knows.
+ *
+ * NEVER import this module from client components — it uses the filesystem.
+ */
+
+import { getStorage } from '@/lib/attendanceStore'
+import { generateUUID } from '@/lib/utils'
+import { DEFAULT_SUBJECTS } from '@/lib/subjectCatalog'
+import type { Subject } from '@/lib/attendanceTypes'
+
+let seeding: Promise<void> | null = null
+
+/** The catalog ordered by code, seeded with DEFAULT_SUBJECTS the first time it is found empty. */
+export async function listCatalog(): Promise<Subject[]> {
+  const storage = getStorage()
+  let subjects = await storage.list<Subject>('subjects')
+  if (subjects.length === 0) {
+    seeding = seeding ?? (async () => {
+      const now = new Date().toISOString()
+      for (const subject of DEFAULT_SUBJECTS) {
+        await storage.insert<Subject>('subjects', { ...subject, id: generateUUID(), created_at: now })
+      }
+    })()
+    await seeding
+    subjects = await storage.list<Subject>('subjects')
+  }
+  return [...subjects].sort((a, b) => a.code.localeCompare(b.code))
+}
+
+/** The codes in `codes` (already normalized) that the catalog does not have. */
+export async function unknownSubjects(codes: string[]): Promise<string[]> {
+  const known = new Set((await listCatalog()).map(s => s.code))
+  return codes.filter(code => !known.has(code))
+}
+
+export function unknownSubjectError(codes: string[]): string {
+  return `Unknown subject${codes.length === 1 ? '' : 's'} ${codes.join(', ')}. Add ${codes.length === 1 ? 'it' : 'them'} to the subject catalog first.`
+}
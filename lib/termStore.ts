@@ -0,0 +1,31 @@
+/**
+ * Term Store
+ *
+ * Server-side access to the `terms` collection and the read-only rule for
+ * archived terms, shared by the term, session and attendance routes.
+ *
+ * NEVER import this module from client components — it uses the filesystem.
+ */
+
+import { getStorage } from '@/lib/attendanceStore'
+import { isArchived, termOfSession } from '@/lib/academicTerms'
+import type { AcademicTerm, AttendanceSession } from '@/lib/attendanceTypes'
+
+/** Every term, earliest first. */
+export async function listTerms(): Promise<AcademicTerm[]> {
+  const terms = await getStorage().list<AcademicTerm>('terms')
+  return [...terms].sort((a, b) => a.start.localeCompare(b.start))
+}
+
+/** The archived term `session` belongs to, or null while it can still be changed. */
+export async function archivedTermOf(
+  session: Pick<AttendanceSession, 'termId' | 'date'> | null | undefined
+): Promise<AcademicTerm | null> {
+  if (!session) return null
+  const term = termOfSession(await listTerms(), session)
+  return isArchived(term) ? term : null
+}
+
+export function archivedTermError(term: AcademicTerm): string {
+  return `${term.name} is archived; its sessions and records are read-only`
+}